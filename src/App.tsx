@@ -1,19 +1,85 @@
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react';
 import {
   type CleaningConfig,
   type CleaningStats,
   type LogEntry,
   type ColumnTypes,
-  processFile,
   formatBytes,
   generateCreateTable,
   generateLoadData,
-  getAllDataRows,
-  storeResult,
-  downloadCSV,
-  downloadSQL,
-  downloadJSON,
+  getOutputRows,
+  EOL_FORMATS,
+  profileFile,
+  sampleFile,
+  profileOutput,
+  applyFuzzyReview,
 } from './utils/cleaningEngine';
+import {
+  type CleaningResult,
+  type ExportOutcome,
+  createCleaningResult,
+  withSQL,
+  exportCSV,
+  exportSQL,
+  exportJSON,
+  exportInsertSQL,
+  exportRejects,
+  exportChangeLog,
+  exportProfile,
+  exportSchema,
+  exportPresets,
+} from './utils/exporters';
+import { releaseDownloads, saveFile } from './utils/download';
+import { releaseOutput } from './utils/outputStore';
+import { type CleaningJob, startCleaningJob } from './utils/cleaningClient';
+import { type OutputEncoding, OUTPUT_ENCODINGS } from './utils/encoding';
+import { type CrossFieldRule, type CrossFieldAction, type CompareOp, COMPARE_OPS } from './utils/crossField';
+import { type ColumnFillSetting, type FillStrategy, FILL_STRATEGIES } from './utils/fillMissing';
+import { type AddressComponent, ADDRESS_COMPONENTS, detectAddressComponent } from './utils/address';
+import { type PhoneFormat, PHONE_FORMATS, PHONE_COUNTRIES, DEFAULT_PHONE_COUNTRY } from './utils/phone';
+import { type ColumnRule, type CaseStyle, COLUMN_RULE_TRANSFORMS, CASE_STYLES, suggestColumnRule } from './utils/columnRules';
+import { type SqlBaseType, type ColumnTypeSpec, SQL_BASE_TYPES, parseColumnType, formatColumnType } from './utils/columnTypes';
+import { type SqlDialect, type SqlExportOptions, SQL_DIALECTS, defaultSqlOptions } from './utils/sqlDialects';
+import { DEFAULT_INSERT_BATCH_SIZE } from './utils/sqlInsert';
+import { type RejectReason, REJECT_REASONS } from './utils/rejects';
+import { type CellDiff, buildCellDiffs } from './utils/changeLog';
+import { transformRuleLabel } from './utils/cleaningStats';
+import { type DataProfile, type ValueCount, type HistogramBin, formatStat } from './utils/profile';
+import {
+  type FuzzyMatchConfig,
+  type FuzzyAlgorithm,
+  type FuzzyBlocking,
+  type FuzzyReview,
+  type FuzzyCluster,
+  type FuzzyResolution,
+  FUZZY_ALGORITHMS,
+  FUZZY_BLOCKINGS,
+  DEFAULT_FUZZY_MATCH,
+  defaultResolution,
+} from './utils/fuzzyMatch';
+import { type DedupPolicy, DEDUP_POLICIES } from './utils/dedup';
+import { type DedupIndexKind, DEDUP_INDEXES, DEFAULT_DEDUP_MEMORY_MB, DEFAULT_FALSE_POSITIVE_RATE } from './utils/dedupIndex';
+import {
+  type ValidationSchema,
+  type ColumnSchema,
+  type SchemaRuleKind,
+  type SchemaAction,
+  SCHEMA_RULES,
+  SCHEMA_ACTIONS,
+  emptyColumnSchema,
+  activeRules,
+  parseSchemaJSON,
+} from './utils/schema';
+import { type OutlierMethod, type OutlierAction, OUTLIER_METHODS, OUTLIER_ACTIONS } from './utils/outliers';
+import {
+  type CleaningPreset,
+  type PresetSettings,
+  createPreset,
+  parsePresetJSON,
+  loadPresets,
+  savePresets,
+  upsertPreset,
+} from './utils/presets';
 
 type CleaningMode = 'standard' | 'advanced';
 
@@ -29,45 +95,97 @@ export function App() {
   const [tableName, setTableName] = useState('my_data');
   const [pkColumn, setPkColumn] = useState('');
   const [eolFormat, setEolFormat] = useState('Auto');
-  const [encoding, setEncoding] = useState('UTF-8');
+  const [encoding, setEncoding] = useState('Auto');
+  const [quoteChar, setQuoteChar] = useState('"');
+  const [escapeChar, setEscapeChar] = useState('"');
+  const [outputEncoding, setOutputEncoding] = useState<OutputEncoding>('UTF-8');
 
+  const [inputProfile, setInputProfile] = useState<DataProfile | null>(null);
+  const [outputProfile, setOutputProfile] = useState<DataProfile | null>(null);
+  const [profiling, setProfiling] = useState<'input' | 'output' | null>(null);
+  const [profileProgress, setProfileProgress] = useState(0);
+  const [profileView, setProfileView] = useState<'input' | 'output'>('input');
   const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
   const [hasIdColumn, setHasIdColumn] = useState(false);
+  const [sourceHeaders, setSourceHeaders] = useState<string[]>([]);
+  const [sourceTypes, setSourceTypes] = useState<ColumnTypes>({});
   const [generateId, setGenerateId] = useState(false);
 
   const [removeDuplicates, setRemoveDuplicates] = useState(true);
+  const [dedupColumns, setDedupColumns] = useState<string[]>([]);
+  const [dedupPolicy, setDedupPolicy] = useState<DedupPolicy>('first');
+  const [dedupOrderColumn, setDedupOrderColumn] = useState('');
+  const [dedupIndex, setDedupIndex] = useState<DedupIndexKind>('fp128');
+  const [dedupMemoryMB, setDedupMemoryMB] = useState(DEFAULT_DEDUP_MEMORY_MB);
+  const [dedupFalsePositiveRate, setDedupFalsePositiveRate] = useState(DEFAULT_FALSE_POSITIVE_RATE);
   const [removeEmpty, setRemoveEmpty] = useState(true);
   const [trimWhitespace, setTrimWhitespace] = useState(true);
   const [normalizeValues, setNormalizeValues] = useState(true);
   const [fixEncoding, setFixEncoding] = useState(true);
 
   const [fuzzyDuplicates, setFuzzyDuplicates] = useState(true);
+  const [fuzzyMatch, setFuzzyMatch] = useState<FuzzyMatchConfig>(DEFAULT_FUZZY_MATCH);
   const [validateEmail, setValidateEmail] = useState(true);
   const [standardizePhone, setStandardizePhone] = useState(true);
+  const [phoneFormat, setPhoneFormat] = useState<PhoneFormat>('national');
+  const [phoneCountry, setPhoneCountry] = useState(DEFAULT_PHONE_COUNTRY);
+  const [phoneCountryColumn, setPhoneCountryColumn] = useState('');
   const [normalizeCase, setNormalizeCase] = useState(true);
   const [standardizeDate, setStandardizeDate] = useState(true);
   const [detectOutliers, setDetectOutliers] = useState(true);
+  const [outlierMethod, setOutlierMethod] = useState<OutlierMethod>('iqr');
+  const [outlierThreshold, setOutlierThreshold] = useState(1.5);
+  const [outlierAction, setOutlierAction] = useState<OutlierAction>('log');
+  const [outlierColumns, setOutlierColumns] = useState<string[]>([]);
   const [removeSpecialChars, setRemoveSpecialChars] = useState(true);
+  const [columnRules, setColumnRules] = useState<Record<string, ColumnRule>>({});
   const [crossFieldValidation, setCrossFieldValidation] = useState(true);
+  const [crossFieldRules, setCrossFieldRules] = useState<CrossFieldRule[]>([]);
+  const [crossFieldAction, setCrossFieldAction] = useState<CrossFieldAction>('log');
+  const [validateSchema, setValidateSchema] = useState(false);
+  const [validationSchema, setValidationSchema] = useState<ValidationSchema>({});
   const [fillMissing, setFillMissing] = useState(false);
+  const [fillSettings, setFillSettings] = useState<Record<string, ColumnFillSetting>>({});
   const [standardizeAddress, setStandardizeAddress] = useState(false);
+  const [addressColumns, setAddressColumns] = useState<Record<string, AddressComponent | 'none'>>({});
   const [removeHtmlTags, setRemoveHtmlTags] = useState(true);
   const [fixNumberFormats, setFixNumberFormats] = useState(true);
   const [removeRowsWithEmptyValues, setRemoveRowsWithEmptyValues] = useState(false);
+  const [trackChanges, setTrackChanges] = useState(false);
+  const [presets, setPresets] = useState<CleaningPreset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
 
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const jobRef = useRef<CleaningJob | null>(null);
   const [progress, setProgress] = useState(0);
   const [progressLabel, setProgressLabel] = useState('');
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [showProgress, setShowProgress] = useState(false);
 
   const [showResults, setShowResults] = useState(false);
-  const [stats, setStats] = useState<CleaningStats>({ original: 0, cleaned: 0, removed: 0, cols: 0, fixed: 0 });
+  const [stats, setStats] = useState<CleaningStats>({ original: 0, cleaned: 0, removed: 0, cols: 0, fixed: 0, crossFieldViolations: 0, imputed: {}, transforms: {}, removals: {}, outliers: {}, schema: {} });
+  const [cleaningResult, setCleaningResult] = useState<CleaningResult | null>(null);
   const [resultHeaders, setResultHeaders] = useState<string[]>([]);
   const [resultColumnTypes, setResultColumnTypes] = useState<ColumnTypes>({});
+  const [detectedColumnTypes, setDetectedColumnTypes] = useState<ColumnTypes>({});
+  const [sqlTarget, setSqlTarget] = useState({ tableName: '', pkColumn: '', cleanedFileName: '' });
+  const [sqlOptions, setSqlOptions] = useState<SqlExportOptions>(defaultSqlOptions());
+  const [insertBatchSize, setInsertBatchSize] = useState(DEFAULT_INSERT_BATCH_SIZE);
+  const [insertUpsert, setInsertUpsert] = useState(false);
+  const [rejectCounts, setRejectCounts] = useState<Partial<Record<RejectReason, number>>>({});
   const [previewRows, setPreviewRows] = useState<string[][]>([]);
+  const [cellDiffs, setCellDiffs] = useState<Record<number, Record<string, CellDiff>>>({});
+  const [changeTotal, setChangeTotal] = useState<number | null>(null);
+  const [diffMode, setDiffMode] = useState(false);
+  const [fuzzyReview, setFuzzyReview] = useState<FuzzyReview | null>(null);
+  const [fuzzyResolutions, setFuzzyResolutions] = useState<Record<number, FuzzyResolution>>({});
+  const [applyingReview, setApplyingReview] = useState(false);
   const [createSQLDisplay, setCreateSQLDisplay] = useState('');
-  const [loadSQLDisplay, setLoadSQLDisplay] = useState('');
+  // The load statement names the CSV's encoding, so it follows the export setting too
+  const loadSQLDisplay = useMemo(() => (sqlTarget.cleanedFileName
+    ? generateLoadData(sqlTarget.tableName, sqlTarget.cleanedFileName, resultHeaders, sqlOptions, resultColumnTypes, outputEncoding)
+    : ''), [sqlTarget, resultHeaders, sqlOptions, resultColumnTypes, outputEncoding]);
   const [outputSize, setOutputSize] = useState(0);
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [showColumnSelector, setShowColumnSelector] = useState(false);
@@ -81,6 +199,34 @@ export function App() {
     setTimeout(() => setToast(null), 3000);
   }, []);
 
+  // Saves an export, or shows why there was nothing to save
+  const deliver = useCallback(async (outcome: ExportOutcome, success: string) => {
+    if (!outcome.ok) {
+      showToast(outcome.error.message, 'error');
+      return;
+    }
+    const saved = await saveFile(outcome.file);
+    if (saved === 'saved') showToast(success);
+    else if (saved === 'failed') showToast(`Failed to save ${outcome.file.name}`, 'error');
+  }, [showToast]);
+
+  // A run's stored output is deleted once its result is replaced or cleared;
+  // its rejects file too, which a fuzzy review only appends to
+  useEffect(() => {
+    const storage = cleaningResult?.storage;
+    return () => { if (storage) releaseOutput(storage); };
+  }, [cleaningResult?.storage]);
+  useEffect(() => {
+    const storage = cleaningResult?.rejects.storage;
+    return () => { if (storage) releaseOutput(storage); };
+  }, [cleaningResult?.rejects.storage]);
+
+  // Files behind earlier downloads go when the page does, or with the next run
+  useEffect(() => {
+    window.addEventListener('pagehide', releaseDownloads);
+    return () => window.removeEventListener('pagehide', releaseDownloads);
+  }, []);
+
   const handleFile = useCallback((f: File) => {
     if (!f.name.match(/\.(csv|tsv|txt)$/i)) {
       alert('Please upload a CSV, TSV, or TXT file.');
@@ -94,31 +240,28 @@ export function App() {
     setShowResults(false);
     setShowProgress(false);
     setLogs([]);
-    
-    // Check if file has id column
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      const firstLine = text.split(/\r?\n|\r/)[0];
-      
-      // Detect separator
-      const counts = {
-        ',': (firstLine.match(/,/g) || []).length,
-        '\t': (firstLine.match(/\t/g) || []).length,
-        ';': (firstLine.match(/;/g) || []).length,
-        '|': (firstLine.match(/\|/g) || []).length,
-      };
-      const separator = Object.entries(counts).sort((a, b) => b[1] - a[1])[0][0];
-      
-      // Split by detected separator and check for id column
-      const headers = firstLine.split(separator).map(h => h.trim().toLowerCase().replace(/"/g, ''));
-      setHasIdColumn(headers.includes('id'));
-      // Allow ID generation even if column doesn't exist
-      setGenerateId(false); // Default to false - user can toggle anytime
-    };
-    reader.readAsText(f.slice(0, 1024)); // Read only first 1KB to check headers
+    setInputProfile(null);
+    setOutputProfile(null);
+    setProfileView('input');
+    setColumnRules({});
+    // Allow ID generation even if column doesn't exist
+    setGenerateId(false); // Default to false - user can toggle anytime
   }, []);
 
+  // Parse headers exactly as the engine will, for id detection and per-column
+  // settings; again whenever the charset or quoting changes how they read
+  useEffect(() => {
+    if (!file) return;
+    let current = true;
+    sampleFile(file, { encoding, quoteChar, escapeChar }).then(({ headers, types }) => {
+      if (!current) return;
+      setSourceHeaders(headers);
+      setSourceTypes(types);
+      setHasIdColumn(headers.includes('id'));
+    }).catch(() => {});
+    return () => { current = false; };
+  }, [file, encoding, quoteChar, escapeChar]);
+
   const removeFile = useCallback(() => {
     setFile(null);
     setFileName('');
@@ -128,12 +271,17 @@ export function App() {
     setLogs([]);
     setSelectedColumns(new Set());
     setAppliedColumns(new Set());
+    setInputProfile(null);
+    setOutputProfile(null);
+    setCleaningResult(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
   }, []);
 
   const startCleaning = useCallback(async () => {
     if (!file) return;
+    releaseDownloads();
     setIsProcessing(true);
+    setIsPaused(false);
     setShowProgress(true);
     setShowResults(false);
     setLogs([]);
@@ -143,50 +291,77 @@ export function App() {
     setAppliedColumns(new Set());
 
     const config: CleaningConfig = {
-      tableName: tableName || 'my_data', pkColumn, eol: eolFormat, encoding, mode, generateId,
+      tableName: tableName || 'my_data', pkColumn, eol: eolFormat, encoding, quoteChar, escapeChar, mode, generateId,
       removeDuplicates, removeEmpty, trimWhitespace, normalizeValues, fixEncoding,
+      dedupColumns: dedupColumns.filter(c => sourceHeaders.includes(c)), dedupPolicy, dedupOrderColumn,
+      dedupIndex, dedupMemoryMB, dedupFalsePositiveRate,
       fuzzyDuplicates: mode === 'advanced' && fuzzyDuplicates,
+      fuzzyMatch: { ...fuzzyMatch, columns: fuzzyMatch.columns.filter(c => sourceHeaders.includes(c)) },
       validateEmail: mode === 'advanced' && validateEmail,
       standardizePhone: mode === 'advanced' && standardizePhone,
+      phoneFormat, phoneCountry, phoneCountryColumn: sourceHeaders.includes(phoneCountryColumn) ? phoneCountryColumn : '',
       normalizeCase: mode === 'advanced' && normalizeCase,
       standardizeDate: mode === 'advanced' && standardizeDate,
       detectOutliers: mode === 'advanced' && detectOutliers,
+      outlierMethod,
+      outlierThreshold: outlierThreshold > 0 ? outlierThreshold : OUTLIER_METHODS.find(m => m.value === outlierMethod)!.threshold,
+      outlierAction,
+      outlierColumns: outlierColumns.filter(c => sourceHeaders.includes(c)),
       removeSpecialChars: mode === 'advanced' && removeSpecialChars,
+      // Columns left untouched in the panel run with their suggested rule, as shown there
+      columnRules: Object.fromEntries(sourceHeaders.map(h => [h, columnRules[h] || suggestColumnRule(h, sourceTypes[h] || 'varchar')])),
       crossFieldValidation: mode === 'advanced' && crossFieldValidation,
+      crossFieldRules: crossFieldRules.filter(r => r.left.trim() && r.right.trim()),
+      crossFieldAction,
+      validationSchema: mode === 'advanced' && validateSchema ? validationSchema : {},
       fillMissing: mode === 'advanced' && fillMissing,
+      fillSettings,
       standardizeAddress: mode === 'advanced' && standardizeAddress,
+      addressColumns,
       removeHtmlTags: mode === 'advanced' && removeHtmlTags,
       fixNumberFormats: mode === 'advanced' && fixNumberFormats,
       removeRowsWithEmptyValues: mode === 'advanced' && removeRowsWithEmptyValues,
+      trackChanges,
     };
 
     try {
-      const result = await processFile(file, config,
+      const job = startCleaningJob(file, config,
         (pct, label) => { setProgress(pct); setProgressLabel(label); },
         (entry) => {
           setLogs(prev => [...prev, entry]);
           setTimeout(() => { if (logBoxRef.current) logBoxRef.current.scrollTop = logBoxRef.current.scrollHeight; }, 10);
         }
       );
+      jobRef.current = job;
+      const result = await job.result;
+      if (result.cancelled) showToast(`Cancelled — ${result.stats.cleaned.toLocaleString()} rows kept`, 'error');
 
       const cleanedFileName = file.name.replace(/\.[^.]+$/, '') + '_cleaned.csv';
-      const cSQL = generateCreateTable(config.tableName, result.headers, result.columnTypes, config.pkColumn);
-      const lSQL = generateLoadData(config.tableName, cleanedFileName, result.headers);
+      const cSQL = generateCreateTable(config.tableName, result.headers, result.columnTypes, config.pkColumn, sqlOptions);
 
-      // Store for downloads
-      storeResult({
-        chunks: result.cleanedChunks, headers: result.headers,
-        fileName: file.name, createSQL: cSQL, loadSQL: lSQL,
-        separator: result.separator,
-      });
+      setCleaningResult(createCleaningResult({
+        output: result.output, storage: result.storage, headers: result.headers,
+        fileName: file.name,
+        sql: { tableName: config.tableName, pkColumn: config.pkColumn, cleanedFileName, types: result.columnTypes, options: sqlOptions },
+        separator: result.separator, eol: result.eol, rejects: result.rejects, changes: result.changes,
+      }));
 
       setStats(result.stats);
+      setOutputProfile(null);
+      setProfileView('input');
+      setRejectCounts(result.rejects.counts);
       setResultHeaders(result.headers);
       setResultColumnTypes(result.columnTypes);
-      setPreviewRows(getAllDataRows(result.cleanedChunks, 15, result.separator));
+      setDetectedColumnTypes(result.columnTypes);
+      setSqlTarget({ tableName: config.tableName, pkColumn: config.pkColumn, cleanedFileName });
+      setPreviewRows(await getOutputRows(result.output, 15, result.separator));
+      setCellDiffs(buildCellDiffs(result.changes.entries, 15));
+      setChangeTotal(config.trackChanges ? result.changes.total : null);
+      setDiffMode(config.trackChanges);
+      setFuzzyReview(result.fuzzy && result.fuzzy.clusters.length > 0 ? result.fuzzy : null);
+      setFuzzyResolutions({});
       setCreateSQLDisplay(cSQL);
-      setLoadSQLDisplay(lSQL);
-      setOutputSize(result.cleanedChunks.reduce((s, c) => s + new Blob([c]).size, 0));
+      setOutputSize(result.output.size);
 
       await new Promise(r => setTimeout(r, 300));
       setShowResults(true);
@@ -194,9 +369,174 @@ export function App() {
       const msg = err instanceof Error ? err.message : 'Unknown error';
       setLogs(prev => [...prev, { icon: '❌', message: `Error: ${msg}`, type: 'error' }]);
     } finally {
+      jobRef.current = null;
       setIsProcessing(false);
+      setIsPaused(false);
+    }
+  }, [showToast, sqlOptions, file, tableName, pkColumn, eolFormat, encoding, quoteChar, escapeChar, mode, generateId, removeDuplicates, dedupColumns, dedupPolicy, dedupOrderColumn, dedupIndex, dedupMemoryMB, dedupFalsePositiveRate, removeEmpty, trimWhitespace, normalizeValues, fixEncoding, fuzzyDuplicates, fuzzyMatch, validateEmail, standardizePhone, phoneFormat, phoneCountry, phoneCountryColumn, normalizeCase, standardizeDate, detectOutliers, outlierMethod, outlierThreshold, outlierAction, outlierColumns, removeSpecialChars, columnRules, sourceHeaders, sourceTypes, crossFieldValidation, crossFieldRules, crossFieldAction, validateSchema, validationSchema, fillMissing, fillSettings, standardizeAddress, addressColumns, removeHtmlTags, fixNumberFormats, removeRowsWithEmptyValues, trackChanges]);
+
+  // Presets capture the options as shown, before mode gating and header filtering
+  const currentSettings = (): PresetSettings => ({
+    tableName, pkColumn, eol: eolFormat, encoding, quoteChar, escapeChar, mode, generateId,
+    removeDuplicates, dedupColumns, dedupPolicy, dedupOrderColumn, dedupIndex, dedupMemoryMB, dedupFalsePositiveRate, removeEmpty, trimWhitespace, normalizeValues, fixEncoding,
+    fuzzyDuplicates, fuzzyMatch, validateEmail, standardizePhone, phoneFormat, phoneCountry, phoneCountryColumn, normalizeCase, standardizeDate,
+    detectOutliers, outlierMethod, outlierThreshold, outlierAction, outlierColumns, removeSpecialChars, columnRules,
+    crossFieldValidation, crossFieldRules, crossFieldAction, validateSchema, validationSchema,
+    fillMissing, fillSettings, standardizeAddress, addressColumns, removeHtmlTags, fixNumberFormats,
+    removeRowsWithEmptyValues, trackChanges, outputEncoding,
+  });
+
+  const applySettings = (s: PresetSettings) => {
+    setTableName(s.tableName); setPkColumn(s.pkColumn); setEolFormat(s.eol); setEncoding(s.encoding);
+    setQuoteChar(s.quoteChar); setEscapeChar(s.escapeChar); setMode(s.mode); setGenerateId(s.generateId);
+    setRemoveDuplicates(s.removeDuplicates); setDedupColumns(s.dedupColumns); setDedupPolicy(s.dedupPolicy);
+    setDedupOrderColumn(s.dedupOrderColumn); setDedupIndex(s.dedupIndex); setDedupMemoryMB(s.dedupMemoryMB);
+    setDedupFalsePositiveRate(s.dedupFalsePositiveRate); setRemoveEmpty(s.removeEmpty); setTrimWhitespace(s.trimWhitespace);
+    setNormalizeValues(s.normalizeValues); setFixEncoding(s.fixEncoding);
+    setFuzzyDuplicates(s.fuzzyDuplicates); setFuzzyMatch(s.fuzzyMatch); setValidateEmail(s.validateEmail);
+    setStandardizePhone(s.standardizePhone); setPhoneFormat(s.phoneFormat); setPhoneCountry(s.phoneCountry);
+    setPhoneCountryColumn(s.phoneCountryColumn); setNormalizeCase(s.normalizeCase); setStandardizeDate(s.standardizeDate);
+    setDetectOutliers(s.detectOutliers); setOutlierMethod(s.outlierMethod); setOutlierThreshold(s.outlierThreshold);
+    setOutlierAction(s.outlierAction); setOutlierColumns(s.outlierColumns); setRemoveSpecialChars(s.removeSpecialChars);
+    setColumnRules(s.columnRules); setCrossFieldValidation(s.crossFieldValidation); setCrossFieldRules(s.crossFieldRules);
+    setCrossFieldAction(s.crossFieldAction); setValidateSchema(s.validateSchema); setValidationSchema(s.validationSchema);
+    setFillMissing(s.fillMissing); setFillSettings(s.fillSettings); setStandardizeAddress(s.standardizeAddress);
+    setAddressColumns(s.addressColumns); setRemoveHtmlTags(s.removeHtmlTags); setFixNumberFormats(s.fixNumberFormats);
+    setRemoveRowsWithEmptyValues(s.removeRowsWithEmptyValues); setTrackChanges(s.trackChanges);
+    setOutputEncoding(s.outputEncoding);
+  };
+
+  const updatePresets = (next: CleaningPreset[]) => {
+    setPresets(next);
+    if (!savePresets(next)) showToast('Presets could not be saved in this browser', 'error');
+  };
+
+  const savePreset = () => {
+    const name = window.prompt('Save current options as preset:', presetName || tableName);
+    if (!name?.trim()) return;
+    const preset = createPreset(name, currentSettings());
+    updatePresets(upsertPreset(presets, preset));
+    setPresetName(preset.name);
+    showToast(`Preset "${preset.name}" saved ✓`);
+  };
+
+  const selectPreset = (name: string) => {
+    setPresetName(name);
+    const preset = presets.find(p => p.name === name);
+    if (!preset) return;
+    applySettings(preset.settings);
+    showToast(`Preset "${preset.name}" loaded ✓`);
+  };
+
+  const deletePreset = () => {
+    if (!presetName || !window.confirm(`Delete preset "${presetName}"?`)) return;
+    updatePresets(presets.filter(p => p.name !== presetName));
+    setPresetName('');
+  };
+
+  const importPresets = (text: string) => {
+    try {
+      const imported = parsePresetJSON(text);
+      updatePresets(imported.reduce(upsertPreset, presets));
+      showToast(`${imported.length} preset${imported.length === 1 ? '' : 's'} imported ✓`);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : 'Invalid preset file', 'error');
+    }
+  };
+
+  const exportPresetFile = () => {
+    const selected = presets.filter(p => p.name === presetName);
+    deliver(exportPresets(selected.length > 0 ? selected : presets), 'Presets exported ✓');
+  };
+
+  // Type and dialect edits regenerate the CREATE TABLE for the table the data was cleaned for
+  const regenerateSQL = useCallback((types: ColumnTypes, options: SqlExportOptions) => {
+    const cSQL = generateCreateTable(sqlTarget.tableName, resultHeaders, types, sqlTarget.pkColumn, options);
+    setResultColumnTypes(types);
+    setSqlOptions(options);
+    setCreateSQLDisplay(cSQL);
+    setCleaningResult(prev => (prev ? withSQL(prev, types, options) : prev));
+  }, [sqlTarget, resultHeaders]);
+
+  const downloadInsertScript = useCallback(() => {
+    if (!cleaningResult) return;
+    deliver(exportInsertSQL(cleaningResult, {
+      tableName: sqlTarget.tableName, pkColumn: sqlTarget.pkColumn, types: resultColumnTypes,
+      sql: sqlOptions, batchSize: insertBatchSize, upsert: insertUpsert && resultHeaders.includes(sqlTarget.pkColumn),
+    }, appliedColumns.size > 0 ? Array.from(appliedColumns) : undefined, outputEncoding),
+    `${insertUpsert ? 'UPSERT' : 'INSERT'} script downloaded successfully! ✓`);
+  }, [cleaningResult, sqlTarget, resultHeaders, resultColumnTypes, sqlOptions, insertBatchSize, insertUpsert, appliedColumns, outputEncoding, deliver]);
+
+  const downloadRejectsFile = useCallback((format: 'csv' | 'json') => {
+    if (!cleaningResult) return;
+    deliver(exportRejects(cleaningResult, format, outputEncoding), `Rejects ${format.toUpperCase()} downloaded successfully! ✓`);
+  }, [cleaningResult, outputEncoding, deliver]);
+
+  // keepAll = every cluster marked "not duplicates"
+  const applyReview = useCallback(async (keepAll: boolean) => {
+    if (!fuzzyReview || !cleaningResult) return;
+    setApplyingReview(true);
+    try {
+      const resolutions = keepAll
+        ? Object.fromEntries(fuzzyReview.clusters.map(c => [c.id, { survivor: null, merged: {} }]))
+        : fuzzyResolutions;
+      const applied = await applyFuzzyReview(cleaningResult, fuzzyReview, resolutions);
+      const reviewed = applied.result;
+      setCleaningResult(reviewed);
+      setStats(prev => ({
+        ...prev, cleaned: prev.cleaned - applied.removed, removed: prev.removed + applied.removed,
+        removals: { ...prev.removals, ...(applied.removed > 0 ? { 'fuzzy-duplicate': (prev.removals['fuzzy-duplicate'] || 0) + applied.removed } : {}) },
+      }));
+      setRejectCounts(reviewed.rejects.counts);
+      setPreviewRows(await getOutputRows(reviewed.output, 15));
+      setCellDiffs(buildCellDiffs(reviewed.changes.entries, 15));
+      if (fuzzyReview.trackChanges) setChangeTotal(reviewed.changes.total);
+      setOutputSize(reviewed.output.size);
+      setOutputProfile(null);
+      setProfileView('input');
+      setFuzzyReview(null);
+      showToast(keepAll
+        ? 'All rows kept ✓'
+        : `Removed ${applied.removed.toLocaleString()} fuzzy duplicates, merged ${applied.merged.toLocaleString()} fields ✓`);
+    } catch (err) {
+      showToast(`Review failed: ${err instanceof Error ? err.message : 'unknown error'}`, 'error');
+    } finally {
+      setApplyingReview(false);
+    }
+  }, [cleaningResult, fuzzyReview, fuzzyResolutions, showToast]);
+
+  const runProfile = useCallback(async (which: 'input' | 'output') => {
+    if (!file || profiling) return;
+    setProfiling(which);
+    setProfileProgress(0);
+    try {
+      if (which === 'input') {
+        setInputProfile(await profileFile(file, { encoding, quoteChar, escapeChar }, setProfileProgress));
+      } else {
+        setOutputProfile(cleaningResult && await profileOutput(cleaningResult));
+      }
+      setProfileView(which);
+    } catch (err) {
+      showToast(`Profiling failed: ${err instanceof Error ? err.message : 'unknown error'}`, 'error');
+    } finally {
+      setProfiling(null);
     }
-  }, [file, tableName, pkColumn, eolFormat, encoding, mode, generateId, removeDuplicates, removeEmpty, trimWhitespace, normalizeValues, fixEncoding, fuzzyDuplicates, validateEmail, standardizePhone, normalizeCase, standardizeDate, detectOutliers, removeSpecialChars, crossFieldValidation, fillMissing, standardizeAddress, removeHtmlTags, fixNumberFormats, removeRowsWithEmptyValues]);
+  }, [file, profiling, encoding, quoteChar, escapeChar, cleaningResult, showToast]);
+
+  const togglePause = useCallback(() => {
+    const job = jobRef.current;
+    if (!job) return;
+    if (isPaused) job.resume(); else job.pause();
+    setIsPaused(!isPaused);
+  }, [isPaused]);
+
+  const cancelCleaning = useCallback(() => {
+    const job = jobRef.current;
+    if (!job) return;
+    job.cancel();
+    setIsPaused(false);
+    setProgressLabel('Cancelling...');
+  }, []);
 
   const copyToClipboard = useCallback(async (text: string, id: string) => {
     try {
@@ -310,6 +650,17 @@ export function App() {
           )}
         </section>
 
+        {/* DATA PROFILE */}
+        {hasFile && (
+          <ProfilePanel input={inputProfile} output={outputProfile} view={profileView} onView={setProfileView}
+            busy={profiling} progress={profileProgress} canProfileOutput={showResults}
+            onProfile={runProfile}
+            onDownload={(format) => {
+              const profiles = [inputProfile, outputProfile].filter((p): p is DataProfile => p !== null);
+              deliver(exportProfile(profiles, format), `Profile ${format.toUpperCase()} downloaded successfully! ✓`);
+            }} />
+        )}
+
         {/* MODE SELECTOR */}
         {hasFile && (
           <div className="panel fade-in">
@@ -346,6 +697,26 @@ export function App() {
         {hasFile && (
           <div className="panel fade-in">
             <h3 className="panel-title">⚙️ Configuration</h3>
+            <div className="preset-bar">
+              <label>Preset</label>
+              <select value={presetName} onChange={(e) => selectPreset(e.target.value)}>
+                <option value="">{presets.length > 0 ? '— choose a preset —' : '— no saved presets —'}</option>
+                {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+              </select>
+              <button type="button" className="selector-btn" onClick={savePreset}>💾 Save</button>
+              <button type="button" className="selector-btn" onClick={deletePreset} disabled={!presetName}>Delete</button>
+              <label className="selector-btn">
+                ⬆ Import
+                <input type="file" accept=".json,application/json" style={{ display: 'none' }} onChange={async (e) => {
+                  const f = e.target.files?.[0];
+                  e.target.value = '';
+                  if (f) importPresets(await f.text());
+                }} />
+              </label>
+              <button type="button" className="selector-btn" onClick={exportPresetFile} disabled={presets.length === 0}>
+                ⬇ Export {presetName ? 'preset' : 'all'}
+              </button>
+            </div>
             <div className="config-grid">
               <div className="config-item">
                 <label>Table Name</label>
@@ -358,15 +729,13 @@ export function App() {
               <div className="config-item">
                 <label>EOL Format</label>
                 <select value={eolFormat} onChange={(e) => setEolFormat(e.target.value)}>
-                  <option value="Auto">Auto Detect</option>
-                  <option value="LF">LF (Unix/Linux/macOS)</option>
-                  <option value="CRLF">CRLF (Windows)</option>
-                  <option value="CR">CR (Classic Mac)</option>
+                  {EOL_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
                 </select>
               </div>
               <div className="config-item">
                 <label>Encoding</label>
                 <select value={encoding} onChange={(e) => setEncoding(e.target.value)}>
+                  <option value="Auto">Auto Detect</option>
                   <option value="UTF-8">UTF-8</option>
                   <option value="UTF-8-BOM">UTF-8 with BOM</option>
                   <option value="UTF-16">UTF-16</option>
@@ -385,6 +754,27 @@ export function App() {
                   <option value="KOI8-R">KOI8-R (Russian)</option>
                 </select>
               </div>
+              <div className="config-item">
+                <label>Quote Character</label>
+                <select value={quoteChar} onChange={(e) => setQuoteChar(e.target.value)}>
+                  <option value={'"'}>Double quote (")</option>
+                  <option value="'">Single quote (')</option>
+                  <option value="">None (no quoting)</option>
+                </select>
+              </div>
+              <div className="config-item">
+                <label>Escape Style</label>
+                <select value={escapeChar === '\\' ? 'backslash' : 'doubled'} onChange={(e) => setEscapeChar(e.target.value === 'backslash' ? '\\' : '"')}>
+                  <option value="doubled">Doubled quote (RFC 4180)</option>
+                  <option value="backslash">Backslash (\")</option>
+                </select>
+              </div>
+              <div className="config-item">
+                <label>Output Encoding</label>
+                <select value={outputEncoding} onChange={(e) => setOutputEncoding(e.target.value as OutputEncoding)}>
+                  {OUTPUT_ENCODINGS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+              </div>
             </div>
 
             <div className="section-title">Standard Cleaning Options</div>
@@ -397,7 +787,14 @@ export function App() {
             </div>
             <div className="toggle-row" style={{ marginTop: '12px' }}>
               <Toggle label="Generate/Add ID Column (1, 2, 3...)" checked={generateId} onChange={setGenerateId} />
+              <Toggle label="Track Cell Changes (audit log)" checked={trackChanges} onChange={setTrackChanges} />
             </div>
+            {removeDuplicates && sourceHeaders.length > 0 && (
+              <DedupPanel headers={sourceHeaders} columns={dedupColumns} onColumnsChange={setDedupColumns}
+                policy={dedupPolicy} onPolicyChange={setDedupPolicy} orderColumn={dedupOrderColumn} onOrderColumnChange={setDedupOrderColumn}
+                index={dedupIndex} onIndexChange={setDedupIndex} memoryMB={dedupMemoryMB} onMemoryMBChange={setDedupMemoryMB}
+                falsePositiveRate={dedupFalsePositiveRate} onFalsePositiveRateChange={setDedupFalsePositiveRate} />
+            )}
 
             {mode === 'advanced' && (
               <div className="advanced-box fade-in">
@@ -414,12 +811,52 @@ export function App() {
                   <Toggle label="Detect Outliers" checked={detectOutliers} onChange={setDetectOutliers} pro />
                   <Toggle label="Remove Control Chars" checked={removeSpecialChars} onChange={setRemoveSpecialChars} pro />
                   <Toggle label="Cross-Field Validation" checked={crossFieldValidation} onChange={setCrossFieldValidation} pro />
+                  <Toggle label="Validation Schema" checked={validateSchema} onChange={setValidateSchema} pro />
                   <Toggle label="Remove HTML Tags" checked={removeHtmlTags} onChange={setRemoveHtmlTags} pro />
                   <Toggle label="Fix Number Formats" checked={fixNumberFormats} onChange={setFixNumberFormats} pro />
                   <Toggle label="Fill Missing Values" checked={fillMissing} onChange={setFillMissing} pro />
                   <Toggle label="Standardize Addresses" checked={standardizeAddress} onChange={setStandardizeAddress} pro />
                   <Toggle label="Remove Rows with Empty Values" checked={removeRowsWithEmptyValues} onChange={setRemoveRowsWithEmptyValues} pro />
                 </div>
+                {sourceHeaders.length > 0 && (
+                  <ColumnRulesPanel headers={sourceHeaders} types={sourceTypes} rules={columnRules} onChange={setColumnRules} />
+                )}
+                {crossFieldValidation && (
+                  <CrossFieldPanel rules={crossFieldRules} onRulesChange={setCrossFieldRules}
+                    action={crossFieldAction} onActionChange={setCrossFieldAction} />
+                )}
+                {validateSchema && (
+                  <SchemaPanel headers={sourceHeaders} schema={validationSchema} onChange={setValidationSchema}
+                    onImport={(text) => {
+                      try {
+                        setValidationSchema(parseSchemaJSON(text));
+                        showToast('Schema imported ✓');
+                      } catch (err) {
+                        showToast(err instanceof Error ? err.message : 'Invalid schema file', 'error');
+                      }
+                    }}
+                    onExport={() => deliver(exportSchema(validationSchema), 'Schema exported ✓')} />
+                )}
+                {standardizePhone && (
+                  <PhonePanel headers={sourceHeaders} format={phoneFormat} onFormatChange={setPhoneFormat}
+                    country={phoneCountry} onCountryChange={setPhoneCountry}
+                    countryColumn={phoneCountryColumn} onCountryColumnChange={setPhoneCountryColumn} />
+                )}
+                {fuzzyDuplicates && (
+                  <FuzzyMatchPanel headers={sourceHeaders} config={fuzzyMatch} onChange={setFuzzyMatch} />
+                )}
+                {detectOutliers && (
+                  <OutlierPanel headers={sourceHeaders} method={outlierMethod} threshold={outlierThreshold}
+                    action={outlierAction} columns={outlierColumns}
+                    onMethodChange={(m) => { setOutlierMethod(m); setOutlierThreshold(OUTLIER_METHODS.find(o => o.value === m)!.threshold); }}
+                    onThresholdChange={setOutlierThreshold} onActionChange={setOutlierAction} onColumnsChange={setOutlierColumns} />
+                )}
+                {fillMissing && (
+                  <FillMissingPanel headers={sourceHeaders} settings={fillSettings} onChange={setFillSettings} />
+                )}
+                {standardizeAddress && (
+                  <AddressPanel headers={sourceHeaders} overrides={addressColumns} onChange={setAddressColumns} />
+                )}
               </div>
             )}
           </div>
@@ -440,8 +877,16 @@ export function App() {
               <span className="step-name">{progressLabel}</span>
               <span className="pct">{Math.round(progress)}%</span>
             </div>
-            <div className="progress-bar">
-              <div className="progress-fill" style={{ width: `${progress}%` }} />
+            <div className="progress-row">
+              <div className="progress-bar">
+                <div className="progress-fill" style={{ width: `${progress}%` }} />
+              </div>
+              {isProcessing && (
+                <>
+                  <button className="progress-btn" onClick={togglePause}>{isPaused ? '▶ Resume' : '⏸ Pause'}</button>
+                  <button className="progress-btn cancel" onClick={cancelCleaning}>✕ Cancel</button>
+                </>
+              )}
             </div>
             <div ref={logBoxRef} className="log-box">
               {logs.map((log, i) => (
@@ -463,40 +908,34 @@ export function App() {
               <StatCard value={stats.removed > 0 ? `-${stats.removed.toLocaleString()}` : '0'} label="Rows Removed" color={stats.removed > 0 ? '#ef4444' : undefined} />
               <StatCard value={stats.fixed.toLocaleString()} label="Cells Fixed" color={stats.fixed > 0 ? '#10b981' : undefined} />
               <StatCard value={formatBytes(outputSize)} label="Output Size" />
+              {Object.keys(stats.imputed).length > 0 && (
+                <StatCard value={Object.values(stats.imputed).reduce((a, b) => a + b, 0).toLocaleString()} label="Cells Imputed" color="#10b981" />
+              )}
+              {stats.crossFieldViolations > 0 && (
+                <StatCard value={stats.crossFieldViolations.toLocaleString()} label="Cross-Field Issues" color="#d97706" />
+              )}
             </div>
 
-            {/* DOWNLOAD BUTTONS — call module functions directly */}
+            {/* DOWNLOAD BUTTONS — export the current result */}
             <div className="download-grid">
               <button className="dl-btn" onClick={() => {
-                if (downloadCSV(Array.from(appliedColumns).length > 0 ? Array.from(appliedColumns) : undefined)) {
-                  showToast('CSV downloaded successfully! ✓');
-                } else {
-                  showToast('Failed to download CSV', 'error');
-                }
+                if (!cleaningResult) return;
+                deliver(exportCSV(cleaningResult, appliedColumns.size > 0 ? Array.from(appliedColumns) : undefined, outputEncoding),
+                  'CSV downloaded successfully! ✓');
               }}>
                 <span className="dl-icon">⬇️</span> Download CSV
               </button>
               <button className="dl-btn" onClick={() => {
-                if (downloadSQL(Array.from(appliedColumns).length > 0 ? Array.from(appliedColumns) : undefined)) {
-                  showToast('SQL downloaded successfully! ✓');
-                } else {
-                  showToast('Failed to download SQL', 'error');
-                }
+                if (!cleaningResult) return;
+                deliver(exportSQL(cleaningResult, appliedColumns.size > 0 ? Array.from(appliedColumns) : undefined, outputEncoding),
+                  'SQL downloaded successfully! ✓');
               }}>
                 <span className="dl-icon">🗄️</span> Download SQL
               </button>
               <button className="dl-btn" onClick={async () => {
-                try {
-                  const success = await downloadJSON(Array.from(appliedColumns).length > 0 ? Array.from(appliedColumns) : undefined);
-                  if (success) {
-                    showToast('✓ JSON downloaded successfully!');
-                  } else {
-                    showToast('✕ Failed to download JSON', 'error');
-                  }
-                } catch (err) {
-                  console.error('Download error:', err);
-                  showToast('✕ Download error occurred', 'error');
-                }
+                if (!cleaningResult) return;
+                deliver(await exportJSON(cleaningResult, appliedColumns.size > 0 ? Array.from(appliedColumns) : undefined, outputEncoding),
+                  '✓ JSON downloaded successfully!');
               }}>
                 <span className="dl-icon">📋</span> Download JSON
               </button>
@@ -538,6 +977,13 @@ export function App() {
               </div>
             )}
 
+            {fuzzyReview && (
+              <FuzzyReviewPanel review={fuzzyReview} headers={resultHeaders} resolutions={fuzzyResolutions}
+                onChange={setFuzzyResolutions} busy={applyingReview} onApply={applyReview} />
+            )}
+
+            <RejectsPanel counts={rejectCounts} onDownload={downloadRejectsFile} />
+
             {/* PREVIEW */}
             <div className="preview-box">
               {(() => {
@@ -553,7 +999,21 @@ export function App() {
 
                 return (
                   <>
-                    <h3 className="preview-title">📊 Data Preview ({previewRows.length} rows{activeSelection.size > 0 ? ` • ${activeSelection.size} selected columns` : ''})</h3>
+                    <h3 className="preview-title">
+                      <span>📊 Data Preview ({previewRows.length} rows{activeSelection.size > 0 ? ` • ${activeSelection.size} selected columns` : ''})</span>
+                      {changeTotal !== null && (
+                        <span className="preview-actions">
+                          <button className={`copy-btn ${diffMode ? 'copied' : ''}`} onClick={() => setDiffMode(!diffMode)}>
+                            {diffMode ? '✓ Diff' : 'Diff'}
+                          </button>
+                          <button className="copy-btn" disabled={changeTotal === 0} onClick={() => {
+                            if (cleaningResult) deliver(exportChangeLog(cleaningResult, outputEncoding), 'Change log downloaded successfully! ✓');
+                          }}>
+                            ⬇ Change Log ({changeTotal.toLocaleString()})
+                          </button>
+                        </span>
+                      )}
+                    </h3>
                     <div className="table-wrap">
                       <table>
                         <thead>
@@ -568,7 +1028,12 @@ export function App() {
                             <tr key={ri}>
                               {displayIndices.map((ci) => {
                                 const cell = row[ci] || '';
-                                return <td key={ci} title={cell}>{cell.length > 40 ? cell.substring(0, 40) + '…' : cell}</td>;
+                                const diff = diffMode ? cellDiffs[ri + 1]?.[resultHeaders[ci]] : undefined;
+                                const text = cell.length > 40 ? cell.substring(0, 40) + '…' : cell;
+                                if (diff) {
+                                  return <td key={ci} className="cell-changed" title={`was: "${diff.before}" (${diff.rules.join(' → ')})`}>{text}</td>;
+                                }
+                                return <td key={ci} title={cell}>{text}</td>;
                               })}
                             </tr>
                           ))}
@@ -580,6 +1045,31 @@ export function App() {
               })()}
             </div>
 
+            <StatsBreakdown stats={stats} />
+
+            {/* COLUMN TYPES */}
+            <ColumnTypesPanel headers={resultHeaders} types={resultColumnTypes} detected={detectedColumnTypes}
+              onChange={(types) => regenerateSQL(types, sqlOptions)} />
+            <SqlTargetPanel options={sqlOptions} onChange={(options) => regenerateSQL(resultColumnTypes, options)} />
+            <div className="option-panel">
+              <h5>📜 INSERT Script</h5>
+              <p className="option-hint">
+                Batched multi-row INSERT statements with no LOAD DATA / COPY needed — for managed databases with local file
+                loading turned off. Upsert updates rows whose primary key already exists.
+              </p>
+              <div className="option-row">
+                <label>Rows per statement</label>
+                <input type="number" min={1} value={insertBatchSize} style={{ width: '90px' }}
+                  onChange={(e) => setInsertBatchSize(Math.max(1, parseInt(e.target.value, 10) || 1))} />
+                <label className="option-check" title={resultHeaders.includes(sqlTarget.pkColumn) ? '' : 'Choose a primary key column that is in the data'}>
+                  <input type="checkbox" checked={insertUpsert} disabled={!resultHeaders.includes(sqlTarget.pkColumn)}
+                    onChange={(e) => setInsertUpsert(e.target.checked)} />
+                  Upsert on {sqlTarget.pkColumn || 'primary key'}
+                </label>
+                <button type="button" className="selector-btn" onClick={downloadInsertScript}>⬇ Download Script</button>
+              </div>
+            </div>
+
             {/* SQL */}
             <div className="sql-box">
               <h3 className="sql-title">
@@ -665,3 +1155,809 @@ function StatCard({ value, label, color }: { value: string; label: string; color
     </div>
   );
 }
+
+function CrossFieldPanel({ rules, onRulesChange, action, onActionChange }: {
+  rules: CrossFieldRule[]; onRulesChange: (r: CrossFieldRule[]) => void;
+  action: CrossFieldAction; onActionChange: (a: CrossFieldAction) => void;
+}) {
+  const updateRule = (index: number, patch: Partial<CrossFieldRule>) => {
+    onRulesChange(rules.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+  return (
+    <div className="option-panel fade-in">
+      <h5>🔗 Cross-Field Validation</h5>
+      <p className="option-hint">
+        Built-in checks run automatically when matching columns exist: start/end dates, age vs birth date,
+        ZIP vs state and city, and total = subtotal + tax + shipping − discount.
+      </p>
+      <div className="option-row">
+        <label>On violation</label>
+        <select value={action} onChange={(e) => onActionChange(e.target.value as CrossFieldAction)}>
+          <option value="log">Log only</option>
+          <option value="flag">Flag row (adds cross_field_issues column)</option>
+          <option value="drop">Drop row</option>
+        </select>
+      </div>
+      {rules.map((rule, i) => (
+        <div key={i} className="option-row">
+          <input type="text" value={rule.left} placeholder="column" onChange={(e) => updateRule(i, { left: e.target.value })} />
+          <select value={rule.op} onChange={(e) => updateRule(i, { op: e.target.value as CompareOp })}>
+            {COMPARE_OPS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+          <input type="text" value={rule.right} placeholder="column" onChange={(e) => updateRule(i, { right: e.target.value })} />
+          <button type="button" className="option-remove" onClick={() => onRulesChange(rules.filter((_, j) => j !== i))}>✕</button>
+        </div>
+      ))}
+      <button type="button" className="selector-btn" onClick={() => onRulesChange([...rules, { left: '', op: '<=', right: '' }])}>
+        + Add Rule
+      </button>
+    </div>
+  );
+}
+
+function ColumnRulesPanel({ headers, types, rules, onChange }: {
+  headers: string[]; types: ColumnTypes; rules: Record<string, ColumnRule>;
+  onChange: (r: Record<string, ColumnRule>) => void;
+}) {
+  const effective = (col: string) => rules[col] || suggestColumnRule(col, types[col] || 'varchar');
+  const update = (col: string, patch: Partial<ColumnRule>) => {
+    onChange({ ...rules, [col]: { ...effective(col), ...patch } });
+  };
+  return (
+    <div className="option-panel fade-in">
+      <h5>🎛️ Column Rules</h5>
+      <p className="option-hint">
+        Choose which transforms run on each column. Defaults come from the detected type and column name;
+        the global toggles above still switch a transform off everywhere.
+      </p>
+      {headers.map(col => {
+        const rule = effective(col);
+        return (
+          <div key={col} className="option-row">
+            <label style={{ minWidth: '140px' }}>{col}</label>
+            <span className="option-type">{types[col] || 'varchar'}</span>
+            {COLUMN_RULE_TRANSFORMS.map(t => (
+              <label key={t.key} className="option-check">
+                <input type="checkbox" checked={rule[t.key]} onChange={(e) => update(col, { [t.key]: e.target.checked })} />
+                {t.label}
+              </label>
+            ))}
+            {rule.case && (
+              <select value={rule.caseStyle} onChange={(e) => update(col, { caseStyle: e.target.value as CaseStyle })}>
+                {CASE_STYLES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+              </select>
+            )}
+          </div>
+        );
+      })}
+      {Object.keys(rules).length > 0 && (
+        <button type="button" className="selector-btn" onClick={() => onChange({})}>
+          Reset to Detected
+        </button>
+      )}
+    </div>
+  );
+}
+
+function SqlTargetPanel({ options, onChange }: {
+  options: SqlExportOptions; onChange: (o: SqlExportOptions) => void;
+}) {
+  const update = (patch: Partial<SqlExportOptions>) => onChange({ ...options, ...patch });
+  return (
+    <div className="option-panel">
+      <h5>🗄️ SQL Target</h5>
+      <p className="option-hint">
+        Column types, identifier quoting and the bulk-load statement follow the selected database.
+      </p>
+      <div className="option-row">
+        <select value={options.dialect} onChange={(e) => onChange(defaultSqlOptions(e.target.value as SqlDialect, options.database))}>
+          {SQL_DIALECTS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+        </select>
+        <input type="text" value={options.database} placeholder={options.dialect === 'oracle' ? 'schema' : 'database'}
+          onChange={(e) => update({ database: e.target.value })} />
+        {options.dialect !== 'sqlite' && (
+          <input type="text" value={options.charset} placeholder={options.dialect === 'sqlserver' ? 'code page' : 'charset'}
+            title={options.dialect === 'sqlserver' ? 'Code page' : 'Charset'} onChange={(e) => update({ charset: e.target.value })} />
+        )}
+        {options.dialect !== 'sqlite' && options.dialect !== 'oracle' && (
+          <input type="text" value={options.collation} placeholder="collation" title="Collation"
+            onChange={(e) => update({ collation: e.target.value })} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ColumnTypesPanel({ headers, types, detected, onChange }: {
+  headers: string[]; types: ColumnTypes; detected: ColumnTypes;
+  onChange: (t: ColumnTypes) => void;
+}) {
+  const update = (col: string, patch: Partial<ColumnTypeSpec>) => {
+    const spec = { ...parseColumnType(types[col]), ...patch };
+    // Switching to a sized type starts from that type's default size
+    if (patch.base) {
+      const fresh = parseColumnType(patch.base);
+      spec.length = fresh.length;
+      spec.precision = fresh.precision;
+      spec.scale = fresh.scale;
+    }
+    onChange({ ...types, [col]: formatColumnType(spec) });
+  };
+  const edited = headers.some(h => types[h] !== detected[h]);
+  return (
+    <div className="option-panel">
+      <h5>🧬 Column Types</h5>
+      <p className="option-hint">
+        Detected from the first 500 cleaned rows. Any change regenerates the CREATE TABLE and LOAD DATA statements below
+        and the SQL download.
+      </p>
+      {headers.map(col => {
+        const spec = parseColumnType(types[col]);
+        return (
+          <div key={col} className="option-row">
+            <label style={{ minWidth: '140px' }}>{col}</label>
+            <select value={spec.base} onChange={(e) => update(col, { base: e.target.value as SqlBaseType })}>
+              {SQL_BASE_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+            </select>
+            {(spec.base === 'char' || spec.base === 'varchar') && (
+              <input type="number" min={1} value={spec.length} style={{ width: '80px' }} title="Length"
+                onChange={(e) => update(col, { length: parseInt(e.target.value, 10) })} />
+            )}
+            {spec.base === 'decimal' && (
+              <>
+                <input type="number" min={1} max={65} value={spec.precision} style={{ width: '64px' }} title="Precision"
+                  onChange={(e) => update(col, { precision: parseInt(e.target.value, 10) })} />
+                <input type="number" min={0} max={30} value={spec.scale} style={{ width: '64px' }} title="Scale"
+                  onChange={(e) => update(col, { scale: parseInt(e.target.value, 10) })} />
+              </>
+            )}
+            {types[col] !== detected[col] && <span className="option-hint" style={{ margin: 0 }}>detected: {detected[col]}</span>}
+          </div>
+        );
+      })}
+      {edited && (
+        <button type="button" className="selector-btn" onClick={() => onChange(detected)}>
+          Reset to Detected
+        </button>
+      )}
+    </div>
+  );
+}
+
+function ProfilePanel({ input, output, view, onView, busy, progress, canProfileOutput, onProfile, onDownload }: {
+  input: DataProfile | null; output: DataProfile | null;
+  view: 'input' | 'output'; onView: (v: 'input' | 'output') => void;
+  busy: 'input' | 'output' | null; progress: number; canProfileOutput: boolean;
+  onProfile: (which: 'input' | 'output') => void;
+  onDownload: (format: 'html' | 'json') => void;
+}) {
+  const profile = view === 'output' ? output : input;
+  const values = (items: ValueCount[]) => (
+    <span title={items.map(t => `${t.value} (${t.count.toLocaleString()})`).join('\n')}>
+      {items.slice(0, 3).map(t => (
+        <div key={t.value} className="profile-value"><code>{t.value}</code> <span className="col-type">{t.count.toLocaleString()}</span></div>
+      ))}
+    </span>
+  );
+  const histogram = (bins: HistogramBin[]) => {
+    const max = Math.max(1, ...bins.map(b => b.count));
+    return (
+      <div className="profile-hist">
+        {bins.map((b, i) => (
+          <span key={i} style={{ height: `${Math.max(1, Math.round((b.count / max) * 24))}px` }}
+            title={`${formatStat(b.from)} – ${formatStat(b.to)}: ${b.count.toLocaleString()}`} />
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="preview-box fade-in">
+      <h3 className="preview-title">
+        <span>🔬 Data Profile{profile ? ` — ${profile.label} (${profile.rows.toLocaleString()} rows)` : ''}</span>
+        <span className="preview-actions">
+          <button className={`copy-btn ${view === 'input' && input ? 'copied' : ''}`} disabled={busy !== null}
+            onClick={() => (input ? onView('input') : onProfile('input'))}>
+            {busy === 'input' ? `Profiling… ${Math.round(progress)}%` : input ? 'Input' : 'Profile Input'}
+          </button>
+          <button className={`copy-btn ${view === 'output' && output ? 'copied' : ''}`} disabled={busy !== null || !canProfileOutput}
+            onClick={() => (output ? onView('output') : onProfile('output'))}
+            title={canProfileOutput ? '' : 'Clean the file first'}>
+            {busy === 'output' ? 'Profiling…' : output ? 'Output' : 'Profile Output'}
+          </button>
+          <button className="copy-btn" disabled={!input && !output} onClick={() => onDownload('html')}>⬇ HTML</button>
+          <button className="copy-btn" disabled={!input && !output} onClick={() => onDownload('json')}>⬇ JSON</button>
+        </span>
+      </h3>
+      {profile && (
+        <div className="table-wrap profile-table">
+          <table>
+            <thead>
+              <tr>
+                <th>Column</th><th>Empty</th><th>Distinct</th><th>Numeric</th><th>Length</th>
+                <th>Top Values</th><th>Patterns</th><th>Histogram</th>
+              </tr>
+            </thead>
+            <tbody>
+              {profile.columns.map(c => (
+                <tr key={c.name}>
+                  <td>{c.name}</td>
+                  <td>{c.rows > 0 ? ((c.empty / c.rows) * 100).toFixed(1) : '0.0'}%</td>
+                  <td>{c.distinct.toLocaleString()}{c.distinctCapped ? '+' : ''}</td>
+                  <td>
+                    {c.numeric
+                      ? <span title={`mean ${formatStat(c.numeric.mean)} · σ ${formatStat(c.numeric.stddev)} · ${c.numeric.count.toLocaleString()} numeric`}>
+                          {formatStat(c.numeric.min)} – {formatStat(c.numeric.max)}
+                          <div className="col-type">μ {formatStat(c.numeric.mean)} · σ {formatStat(c.numeric.stddev)}</div>
+                        </span>
+                      : '—'}
+                  </td>
+                  <td>{c.lengths.min}–{c.lengths.max}<div className="col-type">mean {formatStat(c.lengths.mean)}</div></td>
+                  <td>{values(c.topValues)}</td>
+                  <td>{values(c.patterns)}</td>
+                  <td title={c.histogramOf === 'values' ? 'Value distribution' : 'Length distribution'}>{histogram(c.histogram)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+type BreakdownKind = 'Transform' | 'Removal' | 'Outliers' | 'Schema';
+type BreakdownRow = { kind: BreakdownKind; rule: string; column: string; count: number };
+type BreakdownSortKey = keyof BreakdownRow;
+
+const BREAKDOWN_COLORS: Record<BreakdownKind, string> = { Transform: '#10b981', Removal: '#ef4444', Outliers: '#d97706', Schema: '#0ea5e9' };
+
+function StatsBreakdown({ stats }: { stats: CleaningStats }) {
+  const [sort, setSort] = useState<{ key: BreakdownSortKey; desc: boolean }>({ key: 'count', desc: true });
+  const rows: BreakdownRow[] = [
+    ...Object.entries(stats.transforms).flatMap(([rule, columns]) =>
+      Object.entries(columns).map(([column, count]) => ({ kind: 'Transform' as const, rule: transformRuleLabel(rule), column, count }))),
+    ...Object.entries(stats.removals).map(([reason, count]) =>
+      ({ kind: 'Removal' as const, rule: REJECT_REASONS.find(r => r.value === reason)?.label || reason, column: '—', count: count || 0 })),
+    ...Object.entries(stats.outliers).map(([column, count]) => ({ kind: 'Outliers' as const, rule: 'Outliers', column, count })),
+    ...Object.entries(stats.schema).flatMap(([rule, columns]) =>
+      Object.entries(columns).map(([column, count]) => ({ kind: 'Schema' as const, rule: SCHEMA_RULES.find(r => r.value === rule)?.label || rule, column, count }))),
+  ];
+  if (rows.length === 0) return null;
+
+  // Cells and rows are different units, so bars scale within their own kind
+  const max: Record<string, number> = {};
+  for (const r of rows) max[r.kind] = Math.max(max[r.kind] || 0, r.count);
+  const sorted = [...rows].sort((a, b) => {
+    const av = a[sort.key];
+    const bv = b[sort.key];
+    const cmp = typeof av === 'number' && typeof bv === 'number' ? av - bv : String(av).localeCompare(String(bv));
+    return sort.desc ? -cmp : cmp;
+  });
+  const header = (key: BreakdownSortKey, label: string) => (
+    <th className="sortable" onClick={() => setSort({ key, desc: sort.key === key ? !sort.desc : key === 'count' })}>
+      {label}{sort.key === key ? (sort.desc ? ' ▼' : ' ▲') : ''}
+    </th>
+  );
+
+  return (
+    <div className="preview-box">
+      <h3 className="preview-title">📈 Cleaning Breakdown</h3>
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              {header('kind', 'Kind')}
+              {header('rule', 'Rule')}
+              {header('column', 'Column')}
+              {header('count', 'Count')}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(r => (
+              <tr key={`${r.kind}-${r.rule}-${r.column}`}>
+                <td style={{ color: BREAKDOWN_COLORS[r.kind] }}>{r.kind}</td>
+                <td>{r.rule}</td>
+                <td>{r.column}</td>
+                <td>{r.count.toLocaleString()}</td>
+                <td>
+                  <div className="breakdown-bar">
+                    <span style={{ width: `${(r.count / max[r.kind]) * 100}%`, background: BREAKDOWN_COLORS[r.kind] }} />
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function RejectsPanel({ counts, onDownload }: {
+  counts: Partial<Record<RejectReason, number>>;
+  onDownload: (format: 'csv' | 'json') => void;
+}) {
+  const total = Object.values(counts).reduce((a, b) => a + b, 0);
+  if (total === 0) return null;
+  return (
+    <div className="option-panel">
+      <h5>🚫 Rejected Rows ({total.toLocaleString()})</h5>
+      <p className="option-hint">
+        Every removed or reshaped row with its source row and line number, the reason, and the cells exactly as read
+        (outlier and fuzzy-duplicate rows are removed after cleaning, so theirs are the cleaned values).
+      </p>
+      {REJECT_REASONS.filter(r => counts[r.value]).map(r => (
+        <div key={r.value} className="option-row">
+          <label style={{ minWidth: '160px' }}>{r.label}</label>
+          <span className="option-type">{r.value}</span>
+          <span>{counts[r.value]!.toLocaleString()}</span>
+        </div>
+      ))}
+      <div className="option-row">
+        <button type="button" className="selector-btn" onClick={() => onDownload('csv')}>⬇ Rejects CSV</button>
+        <button type="button" className="selector-btn" onClick={() => onDownload('json')}>⬇ Rejects JSON</button>
+      </div>
+    </div>
+  );
+}
+
+function SchemaPanel({ headers, schema, onChange, onImport, onExport }: {
+  headers: string[]; schema: ValidationSchema; onChange: (s: ValidationSchema) => void;
+  onImport: (text: string) => void; onExport: () => void;
+}) {
+  // Imported columns that aren't in this file stay editable
+  const columns = [...headers, ...Object.keys(schema).filter(c => !headers.includes(c))];
+  const update = (col: string, patch: Partial<ColumnSchema>) => {
+    onChange({ ...schema, [col]: { ...(schema[col] || emptyColumnSchema()), ...patch } });
+  };
+  return (
+    <div className="option-panel fade-in">
+      <h5>📐 Validation Schema</h5>
+      <p className="option-hint">
+        Rules run on the cleaned values. Empty cells only break "required"; a flagged row lists its issues in a
+        schema_issues column, "blank out" empties the cell, and "reject row" sends the row to the rejects file.
+      </p>
+      <div className="option-row">
+        <label className="selector-btn">
+          ⬆ Import JSON
+          <input type="file" accept=".json,application/json" style={{ display: 'none' }} onChange={async (e) => {
+            const f = e.target.files?.[0];
+            e.target.value = '';
+            if (f) onImport(await f.text());
+          }} />
+        </label>
+        <button type="button" className="selector-btn" onClick={onExport}>⬇ Export JSON</button>
+        <button type="button" className="selector-btn" onClick={() => onChange({})}>Clear</button>
+      </div>
+      {columns.map(col => (
+        <SchemaColumnEditor key={col} column={col} missing={!headers.includes(col)}
+          schema={schema[col] || emptyColumnSchema()} onChange={(patch) => update(col, patch)} />
+      ))}
+    </div>
+  );
+}
+
+function SchemaColumnEditor({ column, missing, schema, onChange }: {
+  column: string; missing: boolean; schema: ColumnSchema; onChange: (patch: Partial<ColumnSchema>) => void;
+}) {
+  const active = activeRules(schema);
+  const action = (rule: SchemaRuleKind) => (
+    <select value={schema.actions[rule]} onChange={(e) => onChange({ actions: { ...schema.actions, [rule]: e.target.value as SchemaAction } })}>
+      {/* An empty required cell has nothing to blank out */}
+      {SCHEMA_ACTIONS.filter(a => !(rule === 'required' && a.value === 'blank')).map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+    </select>
+  );
+  return (
+    <details className="schema-column">
+      <summary>
+        <span>{column}</span>
+        {missing && <span className="option-hint">not in this file</span>}
+        {active.map(r => <span key={r} className="option-type">{SCHEMA_RULES.find(x => x.value === r)?.label}</span>)}
+      </summary>
+      <div className="option-row">
+        <label className="option-check">
+          <input type="checkbox" checked={schema.required} onChange={(e) => onChange({ required: e.target.checked })} />
+          Required
+        </label>
+        {action('required')}
+        <label className="option-check">
+          <input type="checkbox" checked={schema.unique} onChange={(e) => onChange({ unique: e.target.checked })} />
+          Unique
+        </label>
+        {action('unique')}
+      </div>
+      <div className="option-row">
+        <label>Pattern</label>
+        <input type="text" value={schema.pattern} placeholder="regex, e.g. [A-Z]{2}\d{4}" onChange={(e) => onChange({ pattern: e.target.value })} />
+        {action('pattern')}
+      </div>
+      <div className="option-row">
+        <label>Range</label>
+        <input type="text" value={schema.min} placeholder="min (number or date)" onChange={(e) => onChange({ min: e.target.value })} />
+        <input type="text" value={schema.max} placeholder="max" onChange={(e) => onChange({ max: e.target.value })} />
+        {action('range')}
+      </div>
+      <div className="option-row">
+        <label>Allowed</label>
+        <input type="text" value={schema.allowed.join(', ')} placeholder="comma-separated values"
+          onChange={(e) => onChange({ allowed: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })} />
+        {action('allowed')}
+      </div>
+      <div className="option-row">
+        <label>Max length</label>
+        <input type="number" min={0} value={schema.maxLength || ''} placeholder="no limit" style={{ width: '90px' }}
+          onChange={(e) => onChange({ maxLength: Math.max(0, parseInt(e.target.value, 10) || 0) })} />
+        {action('maxLength')}
+      </div>
+    </details>
+  );
+}
+
+function DedupPanel({ headers, columns, onColumnsChange, policy, onPolicyChange, orderColumn, onOrderColumnChange,
+  index, onIndexChange, memoryMB, onMemoryMBChange, falsePositiveRate, onFalsePositiveRateChange }: {
+  headers: string[]; columns: string[]; onColumnsChange: (c: string[]) => void;
+  policy: DedupPolicy; onPolicyChange: (p: DedupPolicy) => void;
+  orderColumn: string; onOrderColumnChange: (c: string) => void;
+  index: DedupIndexKind; onIndexChange: (i: DedupIndexKind) => void;
+  memoryMB: number; onMemoryMBChange: (mb: number) => void;
+  falsePositiveRate: number; onFalsePositiveRateChange: (rate: number) => void;
+}) {
+  const toggle = (col: string) => onColumnsChange(columns.includes(col) ? columns.filter(c => c !== col) : [...columns, col]);
+  const needsColumn = DEDUP_POLICIES.find(p => p.value === policy)?.needsColumn;
+  return (
+    <div className="option-panel fade-in">
+      <h5>🔑 Duplicate Key</h5>
+      <p className="option-hint">
+        Rows with the same values in the key columns are duplicates; with no key column chosen the whole row is compared.
+        Rows whose key columns are all empty are never treated as duplicates.
+      </p>
+      <div className="option-row">
+        <label>Key columns</label>
+        {headers.map(col => (
+          <label key={col} className="option-check">
+            <input type="checkbox" checked={columns.includes(col)} onChange={() => toggle(col)} />
+            {col}
+          </label>
+        ))}
+      </div>
+      <div className="option-row">
+        <label>Survivor</label>
+        <select value={index === 'bloom' ? 'first' : policy} disabled={index === 'bloom'} onChange={(e) => {
+          const next = e.target.value as DedupPolicy;
+          onPolicyChange(next);
+          if (DEDUP_POLICIES.find(p => p.value === next)?.needsColumn && !headers.includes(orderColumn)) onOrderColumnChange(headers[0] || '');
+        }}>
+          {DEDUP_POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+        </select>
+        {needsColumn && index !== 'bloom' && (
+          <select value={orderColumn} onChange={(e) => onOrderColumnChange(e.target.value)}>
+            {headers.map(h => <option key={h} value={h}>{h}</option>)}
+          </select>
+        )}
+      </div>
+      <div className="option-row">
+        <label>Key index</label>
+        <select value={index} onChange={(e) => onIndexChange(e.target.value as DedupIndexKind)}>
+          {DEDUP_INDEXES.map(i => <option key={i.value} value={i.value}>{i.label}</option>)}
+        </select>
+      </div>
+      <div className="option-row">
+        <label>Memory (MB)</label>
+        <input type="number" min={1} step={16} value={memoryMB} style={{ width: '90px' }}
+          onChange={(e) => onMemoryMBChange(Math.max(1, parseInt(e.target.value, 10) || DEFAULT_DEDUP_MEMORY_MB))} />
+        {index === 'bloom' && (
+          <>
+            <label>False positives</label>
+            <input type="number" min={0.000001} max={0.5} step={0.0001} value={falsePositiveRate} style={{ width: '90px' }}
+              onChange={(e) => onFalsePositiveRateChange(Math.min(0.5, Math.max(0.000001, parseFloat(e.target.value) || DEFAULT_FALSE_POSITIVE_RATE)))} />
+          </>
+        )}
+      </div>
+      <p className="option-hint">
+        {index === 'bloom'
+          ? 'A Bloom filter never misses a duplicate but may drop a unique row as one, at about the rate above; only the first row of each key can be kept.'
+          : 'Keys past the memory budget spill to disk and are resolved after the run, so results stay exact.'}
+      </p>
+    </div>
+  );
+}
+
+function PhonePanel({ headers, format, onFormatChange, country, onCountryChange, countryColumn, onCountryColumnChange }: {
+  headers: string[]; format: PhoneFormat; onFormatChange: (f: PhoneFormat) => void;
+  country: string; onCountryChange: (c: string) => void;
+  countryColumn: string; onCountryColumnChange: (c: string) => void;
+}) {
+  return (
+    <div className="option-panel fade-in">
+      <h5>📞 Standardize Phones</h5>
+      <p className="option-hint">
+        Numbers are checked against the length and prefix rules of their country and rewritten in the chosen format.
+        Numbers that cannot be valid are left as they are and listed in the log.
+      </p>
+      <div className="option-row">
+        <label>Format</label>
+        <select value={format} onChange={(e) => onFormatChange(e.target.value as PhoneFormat)}>
+          {PHONE_FORMATS.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+        </select>
+        <span className="option-hint">e.g. {PHONE_FORMATS.find(f => f.value === format)?.example}</span>
+      </div>
+      <div className="option-row">
+        <label>Default country</label>
+        <select value={country} onChange={(e) => onCountryChange(e.target.value)}>
+          {PHONE_COUNTRIES.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+        </select>
+      </div>
+      <div className="option-row">
+        <label>Country column</label>
+        <select value={headers.includes(countryColumn) ? countryColumn : ''} onChange={(e) => onCountryColumnChange(e.target.value)}>
+          <option value="">None (default country for every row)</option>
+          {headers.map(h => <option key={h} value={h}>{h}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+function FuzzyMatchPanel({ headers, config, onChange }: {
+  headers: string[]; config: FuzzyMatchConfig; onChange: (c: FuzzyMatchConfig) => void;
+}) {
+  const update = (patch: Partial<FuzzyMatchConfig>) => onChange({ ...config, ...patch });
+  const toggle = (col: string) => update({ columns: config.columns.includes(col) ? config.columns.filter(c => c !== col) : [...config.columns, col] });
+  return (
+    <div className="option-panel fade-in">
+      <h5>🔍 Fuzzy Duplicates</h5>
+      <p className="option-hint">
+        Rows whose key columns average at least the threshold similarity are grouped into clusters.
+        Nothing is removed until you review the clusters after cleaning.
+      </p>
+      <div className="option-row">
+        <label>Similarity</label>
+        <select value={config.algorithm} onChange={(e) => update({ algorithm: e.target.value as FuzzyAlgorithm })}>
+          {FUZZY_ALGORITHMS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+        </select>
+        <span className="option-hint">{FUZZY_ALGORITHMS.find(a => a.value === config.algorithm)?.hint}</span>
+      </div>
+      <div className="option-row">
+        <label>Threshold</label>
+        <input type="range" min={0.5} max={1} step={0.01} value={config.threshold}
+          onChange={(e) => update({ threshold: parseFloat(e.target.value) })} />
+        <span className="option-type">{config.threshold.toFixed(2)}</span>
+      </div>
+      <div className="option-row">
+        <label>Blocking</label>
+        <select value={config.blocking} onChange={(e) => update({ blocking: e.target.value as FuzzyBlocking })}>
+          {FUZZY_BLOCKINGS.map(b => <option key={b.value} value={b.value}>{b.label}</option>)}
+        </select>
+      </div>
+      {headers.length > 0 && (
+        <div className="option-row">
+          <label>Key columns</label>
+          {headers.map(col => (
+            <label key={col} className="option-check">
+              <input type="checkbox" checked={config.columns.includes(col)} onChange={() => toggle(col)} />
+              {col}
+            </label>
+          ))}
+          {config.columns.length === 0 && <span className="option-hint">all columns</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const FUZZY_REVIEW_PAGE = 20;
+
+function FuzzyReviewPanel({ review, headers, resolutions, onChange, busy, onApply }: {
+  review: FuzzyReview; headers: string[]; resolutions: Record<number, FuzzyResolution>;
+  onChange: (r: Record<number, FuzzyResolution>) => void; busy: boolean; onApply: (keepAll: boolean) => void;
+}) {
+  const [shown, setShown] = useState(FUZZY_REVIEW_PAGE);
+  const resolutionOf = (c: FuzzyCluster) => resolutions[c.id] || defaultResolution(c);
+  const removing = review.clusters.reduce((s, c) => s + (resolutionOf(c).survivor === null ? 0 : c.rows.length - 1), 0);
+  return (
+    <div className="option-panel">
+      <h5>🔍 Review Fuzzy Duplicates ({review.clusters.length.toLocaleString()} clusters)</h5>
+      <p className="option-hint">
+        Nothing has been removed yet. Pick the record to keep in each cluster, choose values from the other
+        records to merge into it, or mark the cluster as not duplicates. Clusters left alone keep their first row.
+      </p>
+      {review.clusters.slice(0, shown).map(c => (
+        <FuzzyClusterReview key={c.id} cluster={c} headers={headers} generatedId={review.generatedId} resolution={resolutionOf(c)}
+          onChange={(r) => onChange({ ...resolutions, [c.id]: r })} />
+      ))}
+      <div className="option-row">
+        {shown < review.clusters.length && (
+          <button type="button" className="selector-btn" onClick={() => setShown(shown + FUZZY_REVIEW_PAGE)}>
+            Show more ({(review.clusters.length - shown).toLocaleString()} left)
+          </button>
+        )}
+        <button type="button" className="selector-btn" disabled={busy} onClick={() => onApply(false)}>
+          ✓ Apply review (remove {removing.toLocaleString()} rows)
+        </button>
+        <button type="button" className="selector-btn" disabled={busy} onClick={() => onApply(true)}>Keep all rows</button>
+      </div>
+    </div>
+  );
+}
+
+function FuzzyClusterReview({ cluster, headers, generatedId, resolution, onChange }: {
+  cluster: FuzzyCluster; headers: string[]; generatedId: boolean;
+  resolution: FuzzyResolution; onChange: (r: FuzzyResolution) => void;
+}) {
+  const survivorCells = resolution.survivor === null ? null : cluster.cells[cluster.rows.indexOf(resolution.survivor)];
+  // Only columns where the records disagree can be merged; generated ids are renumbered anyway
+  const choices = headers.map((_, i) => (generatedId && i === 0 ? [] : [...new Set(cluster.cells.map(cells => cells[i] || ''))]));
+  const pick = (col: number, value: string) => {
+    const merged = { ...resolution.merged };
+    if (survivorCells && value === (survivorCells[col] || '')) delete merged[col];
+    else merged[col] = value;
+    onChange({ ...resolution, merged });
+  };
+  const clip = (v: string) => (v.length > 40 ? v.substring(0, 40) + '…' : v);
+  return (
+    <div className="fuzzy-cluster">
+      <div className="option-row">
+        <span className="option-type">#{cluster.id + 1}</span>
+        <span>similarity ≥ {cluster.score.toFixed(2)} · source rows {cluster.sourceRows.join(', ')}</span>
+        <label className="option-check">
+          <input type="checkbox" checked={resolution.survivor === null}
+            onChange={(e) => onChange({ survivor: e.target.checked ? null : cluster.rows[0], merged: {} })} />
+          Not duplicates
+        </label>
+      </div>
+      <div className="table-wrap">
+        <table>
+          <thead>
+            <tr>
+              <th>Keep</th>
+              {headers.map((h, i) => <th key={`${h}-${i}`}>{h}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {cluster.rows.map((row, k) => (
+              <tr key={row}>
+                <td>
+                  <input type="radio" name={`fuzzy-${cluster.id}`} disabled={resolution.survivor === null}
+                    checked={resolution.survivor === row} onChange={() => onChange({ survivor: row, merged: {} })} />
+                </td>
+                {headers.map((_, i) => {
+                  const v = cluster.cells[k][i] || '';
+                  return <td key={i} className={choices[i].length > 1 ? 'cell-differs' : undefined} title={v}>{clip(v)}</td>;
+                })}
+              </tr>
+            ))}
+            {survivorCells && choices.some(c => c.length > 1) && (
+              <tr className="fuzzy-merged">
+                <td>Result</td>
+                {headers.map((_, i) => (
+                  <td key={i}>
+                    {choices[i].length > 1 ? (
+                      <select value={resolution.merged[i] ?? (survivorCells[i] || '')} onChange={(e) => pick(i, e.target.value)}>
+                        {choices[i].map(v => <option key={v} value={v}>{v ? clip(v) : '(empty)'}</option>)}
+                      </select>
+                    ) : clip(survivorCells[i] || '')}
+                  </td>
+                ))}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function OutlierPanel({ headers, method, threshold, action, columns, onMethodChange, onThresholdChange, onActionChange, onColumnsChange }: {
+  headers: string[]; method: OutlierMethod; threshold: number; action: OutlierAction; columns: string[];
+  onMethodChange: (m: OutlierMethod) => void; onThresholdChange: (t: number) => void;
+  onActionChange: (a: OutlierAction) => void; onColumnsChange: (c: string[]) => void;
+}) {
+  const hint = OUTLIER_METHODS.find(m => m.value === method)?.hint;
+  const toggle = (col: string) => onColumnsChange(columns.includes(col) ? columns.filter(c => c !== col) : [...columns, col]);
+  return (
+    <div className="option-panel fade-in">
+      <h5>📊 Outliers</h5>
+      <p className="option-hint">
+        Numeric values {hint} (k = threshold). Fences come from the cleaned rows;
+        columns with fewer than 10 numeric values are skipped.
+      </p>
+      <div className="option-row">
+        <label>Method</label>
+        <select value={method} onChange={(e) => onMethodChange(e.target.value as OutlierMethod)}>
+          {OUTLIER_METHODS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+        </select>
+        <label>Threshold</label>
+        <input type="number" min={0} step={0.1} value={threshold} style={{ width: '80px' }}
+          onChange={(e) => onThresholdChange(parseFloat(e.target.value) || 0)} />
+      </div>
+      <div className="option-row">
+        <label>On outlier</label>
+        <select value={action} onChange={(e) => onActionChange(e.target.value as OutlierAction)}>
+          {OUTLIER_ACTIONS.map(a => <option key={a.value} value={a.value}>{a.label}</option>)}
+        </select>
+      </div>
+      {headers.length > 0 && (
+        <div className="option-row">
+          <label>Columns</label>
+          {headers.map(col => (
+            <label key={col} className="option-check">
+              <input type="checkbox" checked={columns.includes(col)} onChange={() => toggle(col)} />
+              {col}
+            </label>
+          ))}
+          {columns.length === 0 && <span className="option-hint">all numeric columns</span>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function FillMissingPanel({ headers, settings, onChange }: {
+  headers: string[]; settings: Record<string, ColumnFillSetting>;
+  onChange: (s: Record<string, ColumnFillSetting>) => void;
+}) {
+  const update = (col: string, patch: Partial<ColumnFillSetting>) => {
+    const current = settings[col] || { strategy: 'auto' };
+    onChange({ ...settings, [col]: { ...current, ...patch } });
+  };
+  return (
+    <div className="option-panel fade-in">
+      <h5>🩹 Fill Missing Values</h5>
+      <p className="option-hint">
+        Auto uses the detected column type: median for numbers, forward fill for dates,
+        most frequent value for short text, and leaves long text empty.
+      </p>
+      {headers.map(col => {
+        const setting = settings[col] || { strategy: 'auto' };
+        return (
+          <div key={col} className="option-row">
+            <label style={{ minWidth: '140px' }}>{col}</label>
+            <select value={setting.strategy} onChange={(e) => update(col, { strategy: e.target.value as FillStrategy })}>
+              {FILL_STRATEGIES.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            {setting.strategy === 'constant' && (
+              <input type="text" value={setting.constant || ''} placeholder="value" onChange={(e) => update(col, { constant: e.target.value })} />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function AddressPanel({ headers, overrides, onChange }: {
+  headers: string[]; overrides: Record<string, AddressComponent | 'none'>;
+  onChange: (o: Record<string, AddressComponent | 'none'>) => void;
+}) {
+  const update = (col: string, value: string) => {
+    const next = { ...overrides };
+    if (value === 'auto') delete next[col];
+    else next[col] = value as AddressComponent | 'none';
+    onChange(next);
+  };
+  return (
+    <div className="option-panel fade-in">
+      <h5>🏠 Standardize Addresses</h5>
+      <p className="option-hint">
+        Streets get USPS suffix abbreviations, states become two-letter codes, ZIP codes regain leading zeros,
+        and UK / Canadian / Indian postal codes are validated. Columns are detected by name; override them here.
+      </p>
+      {headers.map(col => {
+        const detected = detectAddressComponent(col);
+        const detectedLabel = ADDRESS_COMPONENTS.find(c => c.value === detected)?.label || 'not an address';
+        return (
+          <div key={col} className="option-row">
+            <label style={{ minWidth: '140px' }}>{col}</label>
+            <select value={overrides[col] || 'auto'} onChange={(e) => update(col, e.target.value)}>
+              <option value="auto">Auto ({detectedLabel})</option>
+              {ADDRESS_COMPONENTS.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+              <option value="none">Not an address</option>
+            </select>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
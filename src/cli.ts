@@ -0,0 +1,223 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - COMMAND LINE
+// Headless runner for nightly jobs: the same processFile the app uses, fed
+// from a file or stdin, with every CleaningConfig option as a flag. Exits
+// non-zero when the run breaks one of the --max-* validation thresholds.
+//
+//   datascrub clean input.csv --preset weekly.json --out cleaned.csv --sql mysql
+// ══════════════════════════════════════════════════════════════════════════
+
+import { once } from 'node:events';
+import {
+  closeSync, createWriteStream, ftruncateSync, openAsBlob, openSync, readSync, writeSync, type WriteStream,
+} from 'node:fs';
+import { access, mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, extname, join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import {
+  type CleaningStats,
+  type LogEntry,
+  processFile,
+  generateCreateTable,
+  generateLoadData,
+} from './utils/cleaningEngine';
+import { type ExportOutcome, createCleaningResult, byteStream, exportCSV, exportRejects, exportChangeLog } from './utils/exporters';
+import { type ChunkStore, type SyncFile, createSpillChunkStore } from './utils/outputStore';
+import { type OutputEncoding } from './utils/encoding';
+import { configFromSettings } from './utils/presets';
+import { defaultSqlOptions } from './utils/sqlDialects';
+import { type CliOptions, type Thresholds, loadSettings, parseArgs, usage, usageError } from './cliArgs';
+
+const EXIT_ERROR = 1;
+const EXIT_THRESHOLD = 2;
+const EXIT_INTERRUPTED = 130;
+
+// ── OUTPUT ────────────────────────────────────────────────────────────────
+
+// Writes bytes as they come, waiting on backpressure, so large outputs are
+// never joined into one buffer. `null` = stdout.
+async function writeBytes(target: string | null, bytes: AsyncIterable<Uint8Array> | Iterable<Uint8Array>) {
+  const stream: NodeJS.WritableStream | WriteStream = target ? createWriteStream(target) : process.stdout;
+  if (target) await once(stream as WriteStream, 'open');
+  for await (const b of bytes) {
+    if (!stream.write(b)) await once(stream, 'drain');
+  }
+  if (target) {
+    (stream as WriteStream).end();
+    await once(stream as WriteStream, 'finish');
+  }
+}
+
+// An export with nothing in it (no rows, no rejects, no changes) still writes
+// an empty file, so a job's outputs are always there. `null` = stdout.
+async function writeExport(target: string | null, outcome: ExportOutcome) {
+  if (!outcome.ok && outcome.error.code !== 'no-data') throw new Error(outcome.error.message);
+  await writeBytes(target, outcome.ok ? outcome.file.bytes() : []);
+}
+
+// ── SPILL FILES ───────────────────────────────────────────────────────────
+// The cleaned and rejected chunks (and dedup rows past the memory budget) go
+// to pairs of files in the run's temp directory instead of memory, the way the
+// app spills them to the OPFS
+
+function openSyncFile(path: string): SyncFile {
+  const fd = openSync(path, 'w+');
+  return {
+    read(buffer, { at }) {
+      let n = 0;
+      while (n < buffer.length) {
+        const read = readSync(fd, buffer, n, buffer.length - n, at + n);
+        if (read === 0) break;
+        n += read;
+      }
+      return n;
+    },
+    write(buffer, { at }) {
+      let n = 0;
+      while (n < buffer.length) n += writeSync(fd, buffer, n, buffer.length - n, at + n);
+      return n;
+    },
+    truncate: (size) => ftruncateSync(fd, size),
+    flush: () => {},
+    close: () => closeSync(fd),
+  };
+}
+
+let tempStores = 0;
+
+async function createTempChunkStore(dir: string): Promise<ChunkStore> {
+  const n = tempStores++;
+  const paths = [join(dir, `store-${n}-a.csv`), join(dir, `store-${n}-b.csv`)];
+  return createSpillChunkStore([openSyncFile(paths[0]), openSyncFile(paths[1])], async (current) => ({
+    output: await openAsBlob(paths[current]),
+    storage: null,
+  }), async () => {
+    await Promise.all(paths.map(p => rm(p, { force: true })));
+  });
+}
+
+function stripCsvExt(path: string): string {
+  return path.slice(0, path.length - extname(path).length);
+}
+
+function thresholdFailures(t: Thresholds, stats: CleaningStats): string[] {
+  const failures: string[] = [];
+  if (t.maxRejected) {
+    const limit = t.maxRejected.percent ? (t.maxRejected.count / 100) * stats.original : t.maxRejected.count;
+    if (stats.removed > limit) {
+      failures.push(`${stats.removed.toLocaleString()} rows removed, over the limit of ${t.maxRejected.percent ? `${t.maxRejected.count}%` : t.maxRejected.count}`);
+    }
+  }
+  const schema = Object.values(stats.schema).reduce((n, cols) => n + Object.values(cols).reduce((a, b) => a + b, 0), 0);
+  if (t.maxSchemaViolations !== null && schema > t.maxSchemaViolations) {
+    failures.push(`${schema.toLocaleString()} schema violations, over the limit of ${t.maxSchemaViolations}`);
+  }
+  if (t.maxCrossFieldViolations !== null && stats.crossFieldViolations > t.maxCrossFieldViolations) {
+    failures.push(`${stats.crossFieldViolations.toLocaleString()} cross-field violations, over the limit of ${t.maxCrossFieldViolations}`);
+  }
+  const outliers = Object.values(stats.outliers).reduce((a, b) => a + b, 0);
+  if (t.maxOutliers !== null && outliers > t.maxOutliers) {
+    failures.push(`${outliers.toLocaleString()} outliers, over the limit of ${t.maxOutliers}`);
+  }
+  return failures;
+}
+
+// ── RUN ───────────────────────────────────────────────────────────────────
+
+async function run(opts: CliOptions): Promise<number> {
+  const settings = loadSettings(opts);
+  const config = configFromSettings(settings);
+  const encoding: OutputEncoding = settings.outputEncoding;
+  const log = (line: string) => { if (!opts.quiet) process.stderr.write(line + '\n'); };
+
+  // stdin has no size up front, so it is spooled to a temp file first
+  let inputPath = opts.input;
+  if (!inputPath && process.stdin.isTTY) throw usageError('No input file given and nothing piped to stdin');
+  if (inputPath) await access(inputPath).catch(() => { throw new Error(`Cannot read ${inputPath}`); });
+  const tempDir = await mkdtemp(join(tmpdir(), 'datascrub-'));
+
+  const abort = new AbortController();
+  const onSigint = () => { log('⏹️ Interrupted — finishing with the rows cleaned so far'); abort.abort(); };
+  process.once('SIGINT', onSigint);
+
+  try {
+    if (!inputPath) {
+      inputPath = join(tempDir, 'stdin.csv');
+      await pipeline(process.stdin, createWriteStream(inputPath));
+    }
+    const blob = await openAsBlob(inputPath);
+    const file = new File([blob], opts.input ? basename(opts.input) : 'stdin.csv');
+
+    let lastProgress = 0;
+    const showProgress = !opts.quiet && process.stderr.isTTY;
+    const result = await processFile(file, config,
+      (percent, label) => {
+        const now = Date.now();
+        if (!showProgress || now - lastProgress < 200) return;
+        lastProgress = now;
+        process.stderr.write(`\r${Math.round(percent)}% ${label}`.padEnd(80).slice(0, 80));
+      },
+      (entry: LogEntry) => {
+        if (showProgress) process.stderr.write('\r' + ' '.repeat(80) + '\r');
+        log(`${entry.icon} ${entry.message}`);
+      },
+      { signal: abort.signal, createStore: () => createTempChunkStore(tempDir) }
+    );
+    if (showProgress) process.stderr.write('\r' + ' '.repeat(80) + '\r');
+
+    const cleaned = createCleaningResult({
+      output: result.output, headers: result.headers, fileName: file.name,
+      separator: result.separator, eol: result.eol, rejects: result.rejects, changes: result.changes,
+    });
+    await writeExport(opts.out, exportCSV(cleaned, undefined, encoding));
+    if (opts.out) log(`💾 Cleaned CSV → ${opts.out}`);
+
+    if (opts.sql) {
+      const sqlOptions = defaultSqlOptions(opts.sql, opts.database);
+      const cleanedFileName = opts.out ? basename(opts.out) : stripCsvExt(file.name) + '_cleaned.csv';
+      const sqlPath = opts.sqlOut || (opts.out ? stripCsvExt(opts.out) : stripCsvExt(file.name) + '_cleaned') + '.sql';
+      const createSQL = generateCreateTable(config.tableName, result.headers, result.columnTypes, config.pkColumn, sqlOptions);
+      const loadSQL = generateLoadData(config.tableName, cleanedFileName, result.headers, sqlOptions, result.columnTypes, encoding);
+      await writeBytes(sqlPath, byteStream([createSQL, '\n\n', loadSQL, '\n'], encoding));
+      log(`💾 SQL (${opts.sql}) → ${sqlPath}`);
+    }
+    if (opts.rejects) {
+      await writeExport(opts.rejects, exportRejects(cleaned, 'csv', encoding));
+      log(`💾 Rejects (${result.rejects.count.toLocaleString()} rows) → ${opts.rejects}`);
+    }
+    if (opts.changes) {
+      await writeExport(opts.changes, exportChangeLog(cleaned, encoding));
+      log(`💾 Change log (${result.changes.entries.length.toLocaleString()} changes) → ${opts.changes}`);
+    }
+    if (result.fuzzy && result.fuzzy.clusters.length > 0) {
+      log(`🔍 ${result.fuzzy.clusters.length.toLocaleString()} fuzzy duplicate clusters were found; review them in the app — nothing was merged`);
+    }
+
+    if (result.cancelled) return EXIT_INTERRUPTED;
+    const failures = thresholdFailures(opts.thresholds, result.stats);
+    for (const f of failures) process.stderr.write(`❌ Threshold exceeded: ${f}\n`);
+    return failures.length > 0 ? EXIT_THRESHOLD : 0;
+  } finally {
+    process.off('SIGINT', onSigint);
+    await rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  try {
+    const opts = parseArgs(process.argv.slice(2));
+    if (opts === 'help') {
+      process.stdout.write(usage());
+      return;
+    }
+    process.exitCode = await run(opts);
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`datascrub: ${msg}\n`);
+    if (err instanceof Error && err.name === 'UsageError') process.stderr.write('Run "datascrub --help" for the list of options.\n');
+    process.exitCode = EXIT_ERROR;
+  }
+}
+
+main();
@@ -0,0 +1,115 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { type CliOptions, loadSettings, parseArgs, usage } from './cliArgs';
+import { DEFAULT_PRESET_SETTINGS, createPreset, presetsToJSON } from './utils/presets';
+
+const dir = mkdtempSync(join(tmpdir(), 'datascrub-args-'));
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+const parse = (...argv: string[]) => parseArgs(['clean', ...argv]) as CliOptions;
+
+describe('parseArgs', () => {
+  it('asks for help with no arguments or a help flag', () => {
+    expect(parseArgs([])).toBe('help');
+    expect(parseArgs(['--help'])).toBe('help');
+    expect(parseArgs(['clean', 'in.csv', '-h'])).toBe('help');
+  });
+
+  it('reads the input and output, with - for stdin and stdout', () => {
+    expect(parse('in.csv', '-o', 'out.csv')).toMatchObject({ input: 'in.csv', out: 'out.csv' });
+    expect(parse('-', '--out=-')).toMatchObject({ input: null, out: null });
+  });
+
+  it('turns switches on and off', () => {
+    expect(parse('--generate-id', '--no-trim-whitespace').overrides).toEqual({ generateId: true, trimWhitespace: false });
+    expect(parse('--remove-empty=off', '--fix-encoding=1').overrides).toEqual({ removeEmpty: false, fixEncoding: true });
+  });
+
+  it('parses numbers, lists, choices and JSON by the setting\'s default', () => {
+    const opts = parse(
+      '--outlier-threshold', '2.5', '--dedup-columns', 'email, phone', '--dedup-policy=max',
+      '--dedup-memory-mb', '64', '--fuzzy-match', '{"threshold":0.8}', '--table', 'people',
+    );
+    expect(opts.overrides).toEqual({
+      outlierThreshold: 2.5,
+      dedupColumns: ['email', 'phone'],
+      dedupPolicy: 'max',
+      dedupMemoryMB: 64,
+      fuzzyMatch: { ...DEFAULT_PRESET_SETTINGS.fuzzyMatch, threshold: 0.8 },
+      tableName: 'people',
+    });
+  });
+
+  it('reads JSON values from a file given as @path', () => {
+    const rules = join(dir, 'rules.json');
+    writeFileSync(rules, '[{"left":"start","op":"<=","right":"end"}]');
+    expect(parse('--cross-field-rules', `@${rules}`).overrides.crossFieldRules).toEqual([{ left: 'start', op: '<=', right: 'end' }]);
+  });
+
+  it('turns schema validation on when a schema is given', () => {
+    const opts = parse('--schema', '{"columns":{"email":{"required":true}}}');
+    expect(opts.overrides.validateSchema).toBe(true);
+    expect(opts.overrides.validationSchema).toHaveProperty('email.required', true);
+    expect(parse('--schema', '{"columns":{}}', '--no-validate-schema').overrides.validateSchema).toBe(false);
+  });
+
+  it('reads the run thresholds', () => {
+    expect(parse('--max-rejected', '5%', '--max-outliers=3').thresholds).toEqual({
+      maxRejected: { count: 5, percent: true }, maxSchemaViolations: null, maxCrossFieldViolations: null, maxOutliers: 3,
+    });
+    expect(parse('--max-rejected', '10').thresholds.maxRejected).toEqual({ count: 10, percent: false });
+  });
+
+  it.each([
+    [['lint'], 'Unknown command "lint"'],
+    [['clean', 'a.csv', 'b.csv'], 'Unexpected argument "b.csv"'],
+    [['clean', '--frobnicate'], 'Unknown option --frobnicate'],
+    [['clean', '--out'], '--out needs a value'],
+    [['clean', '--no-table-name'], '--no-table-name is not a switch'],
+    [['clean', '--trim-whitespace=maybe'], '--trim-whitespace: expected true or false'],
+    [['clean', '--outlier-threshold', 'high'], '--outlier-threshold: expected a number'],
+    [['clean', '--dedup-policy', 'newest'], '--dedup-policy: expected one of first, last, most-complete, max, min'],
+    [['clean', '--sql', 'db2'], '--sql: expected one of mysql, postgres, sqlite, sqlserver, oracle'],
+    [['clean', '--max-rejected', '2.5'], '--max-rejected: expected a row count or a percentage like 5%'],
+    [['clean', '--max-outliers', '-1'], '--max-outliers: expected a whole number'],
+    [['clean', '--fuzzy-match', '[1]'], '--fuzzy-match: expected a JSON object'],
+    [['clean', '--schema', '{"columns":{"a":{"unique":1}}}'], '--schema: Column "a": "unique" has the wrong type'],
+  ])('rejects %j', (argv, message) => {
+    expect(() => parseArgs(argv)).toThrow(expect.objectContaining({ name: 'UsageError', message }));
+  });
+});
+
+describe('usage', () => {
+  it('lists every setting as a kebab-case flag', () => {
+    const text = usage();
+    expect(text).toContain('--dedup-memory-mb <n>');
+    expect(text).toContain('--trim-whitespace / --no-trim-whitespace');
+    expect(text).toContain('--eol <Auto|LF|CRLF|CR|LFCR|NEL|LS|PS>');
+  });
+});
+
+describe('loadSettings', () => {
+  const presetFile = join(dir, 'presets.json');
+  writeFileSync(presetFile, presetsToJSON([
+    createPreset('daily', { ...DEFAULT_PRESET_SETTINGS, tableName: 'daily' }),
+    createPreset('weekly', { ...DEFAULT_PRESET_SETTINGS, tableName: 'weekly', mode: 'advanced' }),
+  ]));
+
+  it('layers flags over the chosen preset over the defaults', () => {
+    expect(loadSettings(parse('--pk', 'id'))).toEqual({ ...DEFAULT_PRESET_SETTINGS, pkColumn: 'id' });
+    expect(loadSettings(parse('--preset', presetFile)).tableName).toBe('daily');
+    const weekly = loadSettings(parse('--preset', presetFile, '--preset-name', 'weekly', '--table', 'adhoc'));
+    expect(weekly).toMatchObject({ tableName: 'adhoc', mode: 'advanced' });
+  });
+
+  it('tracks changes when a change log is asked for', () => {
+    expect(loadSettings(parse('--changes', 'changes.csv')).trackChanges).toBe(true);
+  });
+
+  it('rejects a preset name the file does not have', () => {
+    expect(() => loadSettings(parse('--preset', presetFile, '--preset-name', 'monthly'))).toThrow(`No preset named "monthly" in ${presetFile}`);
+    expect(() => loadSettings(parse('--preset-name', 'weekly'))).toThrow('--preset-name needs --preset');
+  });
+});
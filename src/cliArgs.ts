@@ -0,0 +1,265 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - COMMAND LINE OPTIONS
+// Turns `datascrub clean` arguments into CliOptions and the preset settings
+// for the run. Every PresetSettings key is a flag, spelled in kebab-case.
+// ══════════════════════════════════════════════════════════════════════════
+
+import { readFileSync } from 'node:fs';
+import { EOL_FORMATS } from './utils/cleaningEngine';
+import { OUTPUT_ENCODINGS } from './utils/encoding';
+import { type PresetSettings, DEFAULT_PRESET_SETTINGS, parsePresetJSON } from './utils/presets';
+import { parseSchemaJSON } from './utils/schema';
+import { type SqlDialect, SQL_DIALECTS } from './utils/sqlDialects';
+import { DEDUP_POLICIES } from './utils/dedup';
+import { DEDUP_INDEXES } from './utils/dedupIndex';
+import { OUTLIER_METHODS, OUTLIER_ACTIONS } from './utils/outliers';
+import { DEFAULT_FUZZY_MATCH } from './utils/fuzzyMatch';
+import { PHONE_FORMATS, PHONE_COUNTRIES } from './utils/phone';
+
+// Bad flags or arguments; reported with a pointer to --help
+export function usageError(message: string): Error {
+  const err = new Error(message);
+  err.name = 'UsageError';
+  return err;
+}
+
+// ── OPTIONS ───────────────────────────────────────────────────────────────
+
+type SettingKey = keyof PresetSettings;
+
+// String settings limited to a fixed set of values
+const CHOICES: Partial<Record<SettingKey, readonly string[]>> = {
+  mode: ['standard', 'advanced'],
+  eol: EOL_FORMATS.map(f => f.value),
+  dedupPolicy: DEDUP_POLICIES.map(p => p.value),
+  dedupIndex: DEDUP_INDEXES.map(i => i.value),
+  phoneFormat: PHONE_FORMATS.map(f => f.value),
+  phoneCountry: PHONE_COUNTRIES.map(c => c.value),
+  outlierMethod: OUTLIER_METHODS.map(m => m.value),
+  outlierAction: OUTLIER_ACTIONS.map(a => a.value),
+  crossFieldAction: ['log', 'flag', 'drop'],
+  outputEncoding: OUTPUT_ENCODINGS.map(e => e.value),
+};
+
+// Short names for the settings people reach for most
+const ALIASES: Record<string, SettingKey> = {
+  table: 'tableName', pk: 'pkColumn', schema: 'validationSchema',
+};
+
+const kebab = (key: string) => key.replace(/[A-Z]+/g, c => '-' + c.toLowerCase());
+const SETTING_FLAGS = new Map<string, SettingKey>(
+  (Object.keys(DEFAULT_PRESET_SETTINGS) as SettingKey[]).map(k => [kebab(k), k])
+);
+
+export interface Thresholds {
+  maxRejected: { count: number; percent: boolean } | null;
+  maxSchemaViolations: number | null;
+  maxCrossFieldViolations: number | null;
+  maxOutliers: number | null;
+}
+
+export interface CliOptions {
+  input: string | null;  // null = stdin
+  out: string | null;    // null = stdout
+  preset: string | null;
+  presetName: string | null;
+  sql: SqlDialect | null;
+  sqlOut: string | null;
+  database: string;
+  rejects: string | null;
+  changes: string | null;
+  quiet: boolean;
+  thresholds: Thresholds;
+  overrides: Partial<Record<SettingKey, unknown>>;
+}
+
+// JSON-valued flags take the JSON inline or @path to a file holding it
+function readJSONValue(flag: string, value: string): unknown {
+  const text = value.startsWith('@') ? readFileSync(value.slice(1), 'utf8') : value;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw usageError(`--${flag}: expected JSON${value.startsWith('@') ? ` in ${value.slice(1)}` : ''}`);
+  }
+}
+
+function parseSettingValue(flag: string, key: SettingKey, value: string): unknown {
+  const def = DEFAULT_PRESET_SETTINGS[key];
+  if (key === 'validationSchema') {
+    const text = value.startsWith('@') ? readFileSync(value.slice(1), 'utf8') : value;
+    try {
+      return parseSchemaJSON(text);
+    } catch (err) {
+      throw usageError(`--${flag}: ${(err as Error).message}`);
+    }
+  }
+  if (key === 'crossFieldRules') {
+    const rules = readJSONValue(flag, value);
+    if (!Array.isArray(rules)) throw usageError(`--${flag}: expected a JSON array of { left, op, right }`);
+    return rules;
+  }
+  if (Array.isArray(def)) return value.split(',').map(v => v.trim()).filter(Boolean);
+  if (typeof def === 'object') {
+    const obj = readJSONValue(flag, value);
+    if (!obj || typeof obj !== 'object' || Array.isArray(obj)) throw usageError(`--${flag}: expected a JSON object`);
+    return key === 'fuzzyMatch' ? { ...DEFAULT_FUZZY_MATCH, ...obj } : obj;
+  }
+  if (typeof def === 'boolean') {
+    if (!['true', 'false', 'on', 'off', '1', '0'].includes(value)) throw usageError(`--${flag}: expected true or false`);
+    return ['true', 'on', '1'].includes(value);
+  }
+  if (typeof def === 'number') {
+    const n = Number(value);
+    if (!value.trim() || !isFinite(n)) throw usageError(`--${flag}: expected a number`);
+    return n;
+  }
+  const choices = CHOICES[key];
+  if (choices && !choices.includes(value)) throw usageError(`--${flag}: expected one of ${choices.join(', ')}`);
+  return value;
+}
+
+function parseCount(flag: string, value: string): number {
+  const n = Number(value);
+  if (!value.trim() || !Number.isInteger(n) || n < 0) throw usageError(`--${flag}: expected a whole number`);
+  return n;
+}
+
+export function parseArgs(argv: string[]): CliOptions | 'help' {
+  const opts: CliOptions = {
+    input: null, out: null, preset: null, presetName: null, sql: null, sqlOut: null, database: 'mydb',
+    rejects: null, changes: null, quiet: false,
+    thresholds: { maxRejected: null, maxSchemaViolations: null, maxCrossFieldViolations: null, maxOutliers: null },
+    overrides: {},
+  };
+  const args = [...argv];
+  if (args.length === 0 || args[0] === '--help' || args[0] === '-h' || args[0] === 'help') return 'help';
+  const command = args.shift();
+  if (command !== 'clean') throw usageError(`Unknown command "${command}"`);
+
+  let inputSeen = false;
+  while (args.length > 0) {
+    const arg = args.shift()!;
+    if (arg === '-' || !arg.startsWith('-')) {
+      if (inputSeen) throw usageError(`Unexpected argument "${arg}"`);
+      inputSeen = true;
+      opts.input = arg === '-' ? null : arg;
+      continue;
+    }
+    if (arg === '-h' || arg === '--help') return 'help';
+    if (arg === '-q' || arg === '--quiet') { opts.quiet = true; continue; }
+
+    const eq = arg.indexOf('=');
+    let flag = arg.replace(/^--?/, '');
+    let inline: string | null = null;
+    if (eq !== -1) { flag = arg.slice(arg.startsWith('--') ? 2 : 1, eq); inline = arg.slice(eq + 1); }
+    if (flag === 'o') flag = 'out';
+    const value = () => {
+      if (inline !== null) return inline;
+      if (args.length === 0) throw usageError(`--${flag} needs a value`);
+      return args.shift()!;
+    };
+
+    switch (flag) {
+      case 'out': { const v = value(); opts.out = v === '-' ? null : v; continue; }
+      case 'preset': opts.preset = value(); continue;
+      case 'preset-name': opts.presetName = value(); continue;
+      case 'sql': {
+        const dialect = value();
+        if (!SQL_DIALECTS.some(d => d.value === dialect)) throw usageError(`--sql: expected one of ${SQL_DIALECTS.map(d => d.value).join(', ')}`);
+        opts.sql = dialect as SqlDialect;
+        continue;
+      }
+      case 'sql-out': opts.sqlOut = value(); continue;
+      case 'database': opts.database = value(); continue;
+      case 'rejects': opts.rejects = value(); continue;
+      case 'changes': opts.changes = value(); continue;
+      case 'max-rejected': {
+        const v = value();
+        const percent = v.endsWith('%');
+        const n = Number(percent ? v.slice(0, -1) : v);
+        if (!v.trim() || !isFinite(n) || n < 0 || (!percent && !Number.isInteger(n))) throw usageError('--max-rejected: expected a row count or a percentage like 5%');
+        opts.thresholds.maxRejected = { count: n, percent };
+        continue;
+      }
+      case 'max-schema-violations': opts.thresholds.maxSchemaViolations = parseCount(flag, value()); continue;
+      case 'max-cross-field-violations': opts.thresholds.maxCrossFieldViolations = parseCount(flag, value()); continue;
+      case 'max-outliers': opts.thresholds.maxOutliers = parseCount(flag, value()); continue;
+    }
+
+    const negated = flag.startsWith('no-') && (SETTING_FLAGS.has(flag.slice(3)) || flag.slice(3) in ALIASES);
+    const name = negated ? flag.slice(3) : flag;
+    const key = ALIASES[name] || SETTING_FLAGS.get(name);
+    if (!key) throw usageError(`Unknown option --${flag}`);
+    if (typeof DEFAULT_PRESET_SETTINGS[key] === 'boolean' && inline === null) {
+      opts.overrides[key] = !negated;
+    } else {
+      if (negated) throw usageError(`--${flag} is not a switch`);
+      opts.overrides[key] = parseSettingValue(flag, key, value());
+    }
+    // A schema on the command line is meant to run
+    if (key === 'validationSchema') opts.overrides.validateSchema ??= true;
+  }
+  return opts;
+}
+
+export function usage(): string {
+  const settingLines = (Object.keys(DEFAULT_PRESET_SETTINGS) as SettingKey[]).map(key => {
+    const def = DEFAULT_PRESET_SETTINGS[key];
+    const flag = kebab(key);
+    if (typeof def === 'boolean') return `  --${flag} / --no-${flag}`.padEnd(44) + `(default: ${def ? 'on' : 'off'})`;
+    const choices = CHOICES[key];
+    const hint = choices ? choices.join('|')
+      : key === 'validationSchema' ? 'schema.json'
+      : key === 'crossFieldRules' ? 'json|@file'
+      : Array.isArray(def) ? 'a,b,c'
+      : typeof def === 'object' ? 'json|@file'
+      : typeof def === 'number' ? 'n' : 'value';
+    return `  --${flag} <${hint}>`.padEnd(44) + (typeof def === 'object' ? '' : `(default: ${JSON.stringify(def)})`);
+  });
+  return [
+    'Usage: datascrub clean [input.csv | -] [options]',
+    '',
+    'Reads the input file (or stdin) and writes the cleaned CSV to --out (or stdout).',
+    'Log lines go to stderr. Options override the preset, which overrides the defaults.',
+    '',
+    'Input and output:',
+    '  --preset <file.json>                      preset exported from the app',
+    '  --preset-name <name>                      which preset of a multi-preset file (default: first)',
+    '  -o, --out <file | ->                      cleaned CSV (default: stdout)',
+    '  --sql <' + SQL_DIALECTS.map(d => d.value).join('|') + '>',
+    '                                            also write CREATE TABLE and load statements',
+    '  --sql-out <file>                          where to write them (default: next to --out)',
+    '  --database <name>                         database name used in the SQL (default: mydb)',
+    '  --rejects <file>                          removed and reshaped rows with their reasons',
+    '  --changes <file>                          cell change log (turns on --track-changes)',
+    '  -q, --quiet                               no log output',
+    '',
+    'Validation thresholds (exit code 2 when exceeded):',
+    '  --max-rejected <n | p%>                   rows removed, as a count or share of input rows',
+    '  --max-schema-violations <n>',
+    '  --max-cross-field-violations <n>',
+    '  --max-outliers <n>',
+    '',
+    'Cleaning options (advanced-only options need --mode advanced):',
+    ...settingLines,
+    '  --table, --pk, --schema                   short for --table-name, --pk-column, --validation-schema',
+    '',
+  ].join('\n');
+}
+
+// ── SETTINGS ──────────────────────────────────────────────────────────────
+
+export function loadSettings(opts: CliOptions): PresetSettings {
+  let settings: PresetSettings = { ...DEFAULT_PRESET_SETTINGS };
+  if (opts.preset) {
+    const presets = parsePresetJSON(readFileSync(opts.preset, 'utf8'));
+    const preset = opts.presetName ? presets.find(p => p.name === opts.presetName) : presets[0];
+    if (!preset) throw usageError(`No preset named "${opts.presetName}" in ${opts.preset}`);
+    settings = preset.settings;
+  } else if (opts.presetName) {
+    throw usageError('--preset-name needs --preset');
+  }
+  settings = { ...settings, ...opts.overrides } as PresetSettings;
+  if (opts.changes) settings.trackChanges = true;
+  return settings;
+}
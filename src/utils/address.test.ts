@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectAddressComponent, standardizeCity, standardizePostalCode, standardizeState, standardizeStreet, toCountryCode,
+} from './address';
+
+describe('detectAddressComponent', () => {
+  it('maps column names to address parts', () => {
+    expect(['zip_code', 'billing_state', 'city', 'country', 'address_line1'].map(detectAddressComponent))
+      .toEqual(['postal', 'state', 'city', 'country', 'street']);
+  });
+
+  it('leaves other columns alone, including ones that merely mention an address', () => {
+    expect(detectAddressComponent('email_address')).toBeNull();
+    expect(detectAddressComponent('name')).toBeNull();
+  });
+});
+
+describe('standardizeStreet', () => {
+  it.each([
+    ['123 main street ne', '123 Main St NE'],
+    ['po box 12', 'PO Box 12'],
+    ['45 court street apt. 4', '45 Court St Apt 4'],
+    ['1 n. main st., suite 200', '1 N Main St, Ste 200'],
+    ['500 5th avenue', '500 5th Ave'],
+  ])('%s → %s', (input, expected) => {
+    expect(standardizeStreet(input)).toBe(expected);
+  });
+});
+
+describe('standardizeCity and standardizeState', () => {
+  it('title-cases cities and collapses spaces', () => {
+    expect(standardizeCity('  new   york ')).toBe('New York');
+    expect(standardizeCity('st. louis')).toBe('St. Louis');
+  });
+
+  it('turns state names and dotted forms into codes, passing unknown ones through', () => {
+    expect(['illinois', 'N.Y.', 'ca', 'Bavaria'].map(standardizeState)).toEqual(['IL', 'NY', 'CA', 'Bavaria']);
+  });
+
+  it('knows the common ways of writing a country', () => {
+    expect(['USA', 'u.k.', ' Canada ', 'Narnia'].map(toCountryCode)).toEqual(['US', 'GB', 'CA', '']);
+  });
+});
+
+describe('standardizePostalCode', () => {
+  it('restores the leading zeros spreadsheets drop from US ZIP codes', () => {
+    expect(standardizePostalCode('2134')).toEqual({ value: '02134', valid: true });
+    expect(standardizePostalCode('2134.0', 'US')).toEqual({ value: '02134', valid: true });
+    expect(standardizePostalCode('021340001')).toEqual({ value: '02134-0001', valid: true });
+  });
+
+  it('formats UK, Canadian and Indian codes, inferring the country when none is given', () => {
+    expect(standardizePostalCode('sw1a1aa', 'GB').value).toBe('SW1A 1AA');
+    expect(standardizePostalCode('k1a0b1').value).toBe('K1A 0B1');
+    expect(standardizePostalCode('560001', 'IN').value).toBe('560001');
+  });
+
+  it('keeps codes that do not fit the country, marked invalid', () => {
+    expect(standardizePostalCode('ABC', 'US')).toEqual({ value: 'ABC', valid: false });
+    expect(standardizePostalCode('1234', 'GB')).toEqual({ value: '1234', valid: false });
+  });
+});
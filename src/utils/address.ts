@@ -0,0 +1,154 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - ADDRESS STANDARDIZATION
+// USPS street suffix / directional / unit abbreviations, state name → code,
+// ZIP and ZIP+4 repair, UK / CA / IN postal code validation.
+// ══════════════════════════════════════════════════════════════════════════
+
+import { toStateCode } from './geo';
+
+export type AddressComponent = 'street' | 'city' | 'state' | 'postal' | 'country';
+
+export const ADDRESS_COMPONENTS: { value: AddressComponent; label: string }[] = [
+  { value: 'street', label: 'Street' },
+  { value: 'city', label: 'City' },
+  { value: 'state', label: 'State' },
+  { value: 'postal', label: 'Postal / ZIP' },
+  { value: 'country', label: 'Country' },
+];
+
+// Returns which address part a column name suggests, mirroring how
+// isPhoneColumnName gates the phone transform. null = not an address column.
+export function detectAddressComponent(colName: string): AddressComponent | null {
+  const lower = colName.toLowerCase();
+  if (/zip|postal|postcode|pin_?code/.test(lower)) return 'postal';
+  if (/^(state|province|region)$|_state$|_province$|^state_/.test(lower)) return 'state';
+  if (/^(city|town)$|_city$|_town$|^city_/.test(lower)) return 'city';
+  if (/^country$|_country$|^country_/.test(lower)) return 'country';
+  if (/street|address|addr|^line_?[12]$|address_line/.test(lower) && !/email|ip_?addr|mac_?addr|url/.test(lower)) return 'street';
+  return null;
+}
+
+// ── STREET ────────────────────────────────────────────────────────────────
+
+// USPS Publication 28, Appendix C1 (most common suffixes)
+const STREET_SUFFIXES: Record<string, string> = {
+  alley: 'Aly', avenue: 'Ave', av: 'Ave', aven: 'Ave', avn: 'Ave', boulevard: 'Blvd', boul: 'Blvd',
+  circle: 'Cir', circ: 'Cir', court: 'Ct', crt: 'Ct', cove: 'Cv', crescent: 'Cres', drive: 'Dr',
+  drv: 'Dr', expressway: 'Expy', freeway: 'Fwy', highway: 'Hwy', hiway: 'Hwy', lane: 'Ln',
+  parkway: 'Pkwy', pkway: 'Pkwy', place: 'Pl', plaza: 'Plz', road: 'Rd', square: 'Sq',
+  street: 'St', str: 'St', strt: 'St', terrace: 'Ter', trail: 'Trl', turnpike: 'Tpke',
+  way: 'Way', point: 'Pt', center: 'Ctr', centre: 'Ctr', heights: 'Hts', junction: 'Jct',
+};
+
+const DIRECTIONALS: Record<string, string> = {
+  north: 'N', south: 'S', east: 'E', west: 'W',
+  northeast: 'NE', northwest: 'NW', southeast: 'SE', southwest: 'SW',
+  n: 'N', s: 'S', e: 'E', w: 'W', ne: 'NE', nw: 'NW', se: 'SE', sw: 'SW',
+};
+
+const UNIT_DESIGNATORS: Record<string, string> = {
+  apartment: 'Apt', apt: 'Apt', suite: 'Ste', ste: 'Ste', unit: 'Unit',
+  floor: 'Fl', fl: 'Fl', room: 'Rm', rm: 'Rm', building: 'Bldg', bldg: 'Bldg',
+};
+
+const ABBREVIATIONS = new Set([
+  ...Object.values(STREET_SUFFIXES).map(s => s.toLowerCase()),
+  ...Object.values(UNIT_DESIGNATORS).map(s => s.toLowerCase()),
+]);
+
+function titleWord(word: string): string {
+  // Keep ordinals lowercase ("5th") and "PO" style initialisms uppercase
+  if (/^\d/.test(word)) return word.toLowerCase();
+  if (/^p\.?o\.?$/i.test(word)) return 'PO';
+  return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+}
+
+// "123 main street apt. 4" → "123 Main St Apt 4". A suffix is only
+// abbreviated when it follows the street name and ends it, so "Court Street"
+// becomes "Court St" rather than "Ct St".
+export function standardizeStreet(street: string): string {
+  if (!street) return street;
+  const words = street.replace(/\s+/g, ' ').replace(/\s*,\s*/g, ', ').trim().split(' ');
+  return words.map((raw, i) => {
+    const trailingComma = raw.endsWith(',') ? ',' : '';
+    const word = raw.replace(/,$/, '');
+    const key = word.toLowerCase().replace(/\.$/, '');
+    const isFirstOrLast = i === 0 || i === words.length - 1;
+    const next = (words[i + 1] || '').toLowerCase().replace(/[.,]$/, '');
+
+    if (DIRECTIONALS[key] && (isFirstOrLast || /^\d/.test(words[i - 1] || '') || trailingComma)) {
+      return DIRECTIONALS[key] + trailingComma;
+    }
+    if (UNIT_DESIGNATORS[key] && i > 0) return UNIT_DESIGNATORS[key] + trailingComma;
+    if (STREET_SUFFIXES[key] && i > 0 && (!next || trailingComma || UNIT_DESIGNATORS[next] || DIRECTIONALS[next] || next.startsWith('#'))) {
+      return STREET_SUFFIXES[key] + trailingComma;
+    }
+    if (ABBREVIATIONS.has(key)) return titleWord(key) + trailingComma;
+    return titleWord(word) + trailingComma;
+  }).join(' ');
+}
+
+export function standardizeCity(city: string): string {
+  if (!city) return city;
+  return city.replace(/\s+/g, ' ').trim().split(' ').map(titleWord).join(' ');
+}
+
+// Full names and dotted forms → two-letter code; unknown values pass through
+export function standardizeState(state: string): string {
+  if (!state) return state;
+  return toStateCode(state) || state;
+}
+
+// ── COUNTRY ───────────────────────────────────────────────────────────────
+
+const COUNTRY_CODES: Record<string, string> = {
+  'us': 'US', 'usa': 'US', 'u.s.': 'US', 'u.s.a.': 'US', 'united states': 'US', 'united states of america': 'US', 'america': 'US',
+  'uk': 'GB', 'gb': 'GB', 'u.k.': 'GB', 'united kingdom': 'GB', 'great britain': 'GB', 'england': 'GB', 'scotland': 'GB', 'wales': 'GB',
+  'ca': 'CA', 'can': 'CA', 'canada': 'CA',
+  'in': 'IN', 'ind': 'IN', 'india': 'IN',
+};
+
+export function toCountryCode(country: string): string {
+  return COUNTRY_CODES[String(country || '').trim().toLowerCase()] || '';
+}
+
+// ── POSTAL CODES ──────────────────────────────────────────────────────────
+
+const POSTAL_FORMATS: { country: string; test: RegExp; format: (compact: string) => string }[] = [
+  // UK: outward code (2-4 chars) + inward code (digit + 2 letters)
+  { country: 'GB', test: /^[A-Z]{1,2}\d[A-Z\d]?\d[ABD-HJLNP-UW-Z]{2}$/, format: c => `${c.slice(0, -3)} ${c.slice(-3)}` },
+  // Canada: A1A 1A1 (no D, F, I, O, Q, U; no leading W or Z)
+  { country: 'CA', test: /^[ABCEGHJ-NPRSTVXY]\d[ABCEGHJ-NPRSTV-Z]\d[ABCEGHJ-NPRSTV-Z]\d$/, format: c => `${c.slice(0, 3)} ${c.slice(3)}` },
+  // India: 6-digit PIN, first digit 1-9
+  { country: 'IN', test: /^[1-9]\d{5}$/, format: c => c },
+];
+
+export interface PostalResult {
+  value: string;
+  valid: boolean;
+}
+
+// Repairs and validates a postal code. `country` is a code from
+// toCountryCode(); when empty the format is inferred from the value itself.
+export function standardizePostalCode(postal: string, country = ''): PostalResult {
+  if (!postal) return { value: postal, valid: true };
+  const trimmed = postal.trim();
+  const compact = trimmed.toUpperCase().replace(/[\s\-]/g, '');
+
+  if (!country || country === 'US') {
+    // Spreadsheets turn 02134 into 2134 (or 2134.0) and 021340001 into 21340001
+    const digits = /^\d{1,5}\.0+$/.test(trimmed) ? trimmed.split('.')[0] : compact;
+    if (/^\d{3,5}$/.test(digits)) return { value: digits.padStart(5, '0'), valid: true };
+    if (/^\d{8,9}$/.test(digits)) {
+      const full = digits.padStart(9, '0');
+      return { value: `${full.slice(0, 5)}-${full.slice(5)}`, valid: true };
+    }
+    if (country === 'US') return { value: postal, valid: false };
+  }
+
+  for (const fmt of POSTAL_FORMATS) {
+    if (country && fmt.country !== country) continue;
+    if (fmt.test.test(compact)) return { value: fmt.format(compact), valid: true };
+  }
+  return { value: postal, valid: false };
+}
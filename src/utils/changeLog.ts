@@ -0,0 +1,77 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - CELL CHANGE LOG
+// Optional audit trail of every cell a transform rewrote: which row and
+// column, the value before and after, and the transform responsible. A cell
+// touched by several transforms gets one entry per step. Only the first
+// CHANGE_LOG_LIMIT entries are kept; `total` still counts all of them.
+// ══════════════════════════════════════════════════════════════════════════
+
+export interface CellChange {
+  row: number;        // 1-based source data row
+  outputRow: number;  // 1-based row in the cleaned output
+  column: string;
+  before: string;
+  after: string;
+  rule: string;       // name of the transform, e.g. "fixEmail" or "fillMissing:median"
+}
+
+// Per-row form produced by transformRow, before the row's fate is known
+export interface RowCellChange {
+  col: number;  // rawHeaders index
+  before: string;
+  after: string;
+  rule: string;
+}
+
+export interface ChangeLog {
+  entries: CellChange[];
+  total: number;
+  limit: number;
+}
+
+export const CHANGE_LOG_LIMIT = 100_000;
+
+export function createChangeLog(limit: number = CHANGE_LOG_LIMIT): ChangeLog {
+  return { entries: [], total: 0, limit };
+}
+
+export function recordChange(log: ChangeLog, change: CellChange) {
+  log.total++;
+  if (log.entries.length < log.limit) log.entries.push(change);
+}
+
+// Removes the entries of dropped output rows and renumbers the rest.
+// `dropped` must be ascending; entries are expected in outputRow order.
+export function dropOutputRows(log: ChangeLog, dropped: number[]) {
+  let d = 0;
+  const before = log.entries.length;
+  log.entries = log.entries.filter(e => {
+    while (d < dropped.length && dropped[d] < e.outputRow) d++;
+    if (dropped[d] === e.outputRow) return false;
+    e.outputRow -= d;
+    return true;
+  });
+  log.total -= before - log.entries.length;
+}
+
+export const CHANGE_LOG_HEADERS = ['row', 'output_row', 'column', 'rule', 'old_value', 'new_value'];
+
+export function changeLogCells(change: CellChange): string[] {
+  return [String(change.row), String(change.outputRow), change.column, change.rule, change.before, change.after];
+}
+
+// Original value and the transforms applied, per output row and column — what
+// the preview's diff mode highlights
+export type CellDiff = { before: string; rules: string[] };
+
+export function buildCellDiffs(entries: CellChange[], maxOutputRow: number): Record<number, Record<string, CellDiff>> {
+  const diffs: Record<number, Record<string, CellDiff>> = {};
+  for (const e of entries) {
+    if (e.outputRow > maxOutputRow) continue;
+    const row = diffs[e.outputRow] || (diffs[e.outputRow] = {});
+    // Entries for one cell are in transform order, so the first holds the original
+    if (row[e.column]) row[e.column].rules.push(e.rule);
+    else row[e.column] = { before: e.before, rules: [e.rule] };
+  }
+  return diffs;
+}
@@ -0,0 +1,37 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - CLEANING WORKER
+// Runs processFile off the main thread; progress and log entries are posted
+// back as they happen, the result once at the end. Row transforms fan out
+// further to a transform pool owned by this worker; the cleaned output is
+// spilled to the OPFS, which only a worker can write synchronously.
+// ══════════════════════════════════════════════════════════════════════════
+
+import { createPauseController, processFile } from './cleaningEngine';
+import { type CleaningWorkerMessage, type CleaningWorkerRequest, createTransformPool } from './workers';
+import { createOpfsChunkStore } from './outputStore';
+
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<CleaningWorkerRequest>) => void) | null;
+  postMessage: (message: CleaningWorkerMessage) => void;
+};
+
+const abort = new AbortController();
+const pause = createPauseController();
+
+ctx.onmessage = async (e) => {
+  const msg = e.data;
+  if (msg.type === 'pause') { pause.pause(); return; }
+  if (msg.type === 'resume') { pause.resume(); return; }
+  if (msg.type === 'cancel') { abort.abort(); return; }
+
+  try {
+    const result = await processFile(msg.file, msg.config,
+      (percent, label) => ctx.postMessage({ type: 'progress', percent, label }),
+      (entry) => ctx.postMessage({ type: 'log', entry }),
+      { signal: abort.signal, pause, createPool: createTransformPool, createStore: createOpfsChunkStore }
+    );
+    ctx.postMessage({ type: 'result', result });
+  } catch (err) {
+    ctx.postMessage({ type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+  }
+};
@@ -0,0 +1,70 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - CLEANING CLIENT
+// Main-thread side of the cleaning worker. Kept apart from workers.ts so no
+// worker bundle ends up referencing its own entry point.
+// ══════════════════════════════════════════════════════════════════════════
+
+import {
+  type CleaningConfig,
+  type LogEntry,
+  type ProcessResult,
+  createPauseController,
+  processFile,
+} from './cleaningEngine';
+import { type CleaningWorkerMessage, type CleaningWorkerRequest, canUseWorkers } from './workers';
+
+export interface CleaningJob {
+  result: Promise<ProcessResult>;  // resolves with partial results after cancel()
+  pause(): void;
+  resume(): void;
+  cancel(): void;
+}
+
+// Runs processFile in a dedicated worker so reading, tokenizing and merging
+// never block the UI thread. The worker fans row transforms out to its own
+// transform pool. Falls back to running inline where workers are unavailable.
+export function startCleaningJob(
+  file: File,
+  config: CleaningConfig,
+  onProgress: (percent: number, label: string) => void,
+  onLog: (entry: LogEntry) => void
+): CleaningJob {
+  if (!canUseWorkers()) {
+    const abort = new AbortController();
+    const pause = createPauseController();
+    return {
+      result: processFile(file, config, onProgress, onLog, { signal: abort.signal, pause }),
+      pause: () => pause.pause(),
+      resume: () => pause.resume(),
+      cancel: () => abort.abort(),
+    };
+  }
+
+  const worker = new Worker(new URL('./cleaning.worker.ts', import.meta.url), { type: 'module' });
+  const send = (request: CleaningWorkerRequest) => worker.postMessage(request);
+
+  const result = new Promise<ProcessResult>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<CleaningWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') onProgress(msg.percent, msg.label);
+      else if (msg.type === 'log') onLog(msg.entry);
+      else {
+        worker.terminate();
+        if (msg.type === 'result') resolve(msg.result);
+        else reject(new Error(msg.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Cleaning worker failed to start'));
+    };
+  });
+  send({ type: 'start', file, config });
+
+  return {
+    result,
+    pause: () => send({ type: 'pause' }),
+    resume: () => send({ type: 'resume' }),
+    cancel: () => send({ type: 'cancel' }),
+  };
+}
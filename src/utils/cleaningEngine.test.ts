@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { type CleaningConfig, type LogEntry, getOutputRows, processFile } from './cleaningEngine';
+import { DEFAULT_PRESET_SETTINGS, configFromSettings } from './presets';
+
+const BASE: CleaningConfig = configFromSettings(DEFAULT_PRESET_SETTINGS);
+// No cell transforms, so cells come out exactly as they were parsed
+const AS_PARSED: Partial<CleaningConfig> = { trimWhitespace: false, normalizeValues: false, fixEncoding: false };
+
+// One in-memory run over the CSV text, as the CLI does it without a spill store
+async function clean(csv: string, overrides: Partial<CleaningConfig> = {}) {
+  const logs: LogEntry[] = [];
+  const result = await processFile(new File([csv], 'input.csv'), { ...BASE, ...overrides }, () => {}, e => logs.push(e));
+  return { result, text: await result.output.text(), rows: await getOutputRows(result.output), logs };
+}
+
+describe('processFile parsing', () => {
+  it('keeps separators, quotes and line breaks inside quoted fields', async () => {
+    const { result, rows, text } = await clean('id,note\n1,"a, b"\n2,"first\nsecond"\n3,"say ""hi"""\n', AS_PARSED);
+    expect(result.headers).toEqual(['id', 'note']);
+    expect(rows).toEqual([['1', 'a, b'], ['2', 'first\nsecond'], ['3', 'say "hi"']]);
+    expect(text).toBe('id,note\n1,"a, b"\n2,"first\nsecond"\n3,"say ""hi"""');
+  });
+
+  it('reads records that straddle the 1 MB read chunks', async () => {
+    const filler = 'x'.repeat(1000);
+    const lines = Array.from({ length: 1500 }, (_, i) => `${i},"${filler}\n${i}"`);
+    const { result, rows } = await clean('id,note\n' + lines.join('\n') + '\n', AS_PARSED);
+    expect(result.stats.original).toBe(1500);
+    expect(rows).toHaveLength(1500);
+    expect(rows.every(([id, note], i) => id === String(i) && note === `${filler}\n${i}`)).toBe(true);
+  });
+
+  it('detects the separator and accepts CRLF line endings', async () => {
+    const { result, rows } = await clean('a;b\r\n1;"x;y"\r\n2;z\r\n');
+    expect(result.headers).toEqual(['a', 'b']);
+    expect(rows).toEqual([['1', 'x;y'], ['2', 'z']]);
+  });
+
+  it('honours the configured quote and escape characters', async () => {
+    const { rows } = await clean("a,b\n1,'it\\'s, fine'\n", { quoteChar: "'", escapeChar: '\\' });
+    expect(rows).toEqual([['1', "it's, fine"]]);
+  });
+
+  it('keeps malformed rows as parsed and lists them in the rejects file', async () => {
+    const { result, rows, logs } = await clean('a,b\n1,x"y\n2,z\n');
+    expect(rows).toEqual([['1', 'x"y'], ['2', 'z']]);
+    expect(result.rejects.counts['parse-error']).toBe(1);
+    expect(logs.some(l => l.message.startsWith('Malformed rows: 1'))).toBe(true);
+  });
+
+  it('writes rejected rows to a file of their own as they come', async () => {
+    const { result } = await clean('a,b\n1,x\n1,x\n,\n2,y\n', { eol: 'CRLF' });
+    expect(result.rejects.count).toBe(2);
+    expect(await result.rejects.output.text()).toBe(
+      '_row,_line,_reason,_action,_detail,a,b,_overflow\r\n2,3,duplicate,removed,duplicate of row 1,1,x,\r\n3,4,empty,removed,every cell is empty,,,',
+    );
+  });
+
+  it('writes the chosen line ending between records', async () => {
+    const { text } = await clean('a,b\n1,2\n3,4\n', { eol: 'CRLF' });
+    expect(text).toBe('a,b\r\n1,2\r\n3,4');
+  });
+
+  it.each(['LF', 'NEL', 'LS', 'PS'])('runs the passes after merging on output written with %s', async (eol) => {
+    // Row 3 displaces row 1, row 6 is the outlier and row 7 gets a fill
+    const values = ['10', '11', '12', '9', '10', '500', '', '10', '11', '12', '9', '10'];
+    const csv = 'id,email,v\n' + values.map((v, i) => `${i + 1},${i === 2 ? 'u1' : `u${i + 1}`}@x.com,${v}`).join('\n');
+    const { rows, result } = await clean(csv, {
+      eol, mode: 'advanced', dedupColumns: ['email'], dedupPolicy: 'last',
+      detectOutliers: true, outlierMethod: 'iqr', outlierThreshold: 1.5, outlierAction: 'drop', outlierColumns: ['v'],
+      fillMissing: true, fillSettings: { v: { strategy: 'constant', constant: '0' } },
+    });
+    expect(rows.map(r => r[0])).toEqual(['2', '3', '4', '5', '7', '8', '9', '10', '11', '12']);
+    expect(rows[4][2]).toBe('0');
+    expect(result.stats.cleaned).toBe(10);
+  });
+});
+
+describe('processFile address standardization', () => {
+  it('leaves the case of standardized address parts alone', async () => {
+    const csv = 'street,city,state,zip,country\n123 main street ne,springfield,illinois,62704,USA\npo box 12,london,,SW1A 1AA,UK\n';
+    const { rows } = await clean(csv, { mode: 'advanced', standardizeAddress: true, normalizeCase: true });
+    expect(rows).toEqual([
+      ['123 Main St NE', 'Springfield', 'IL', '62704', 'USA'],
+      ['PO Box 12', 'London', '', 'SW1A 1AA', 'UK'],
+    ]);
+  });
+});
+
+describe('processFile phone numbers', () => {
+  it('writes US numbers as (XXX) XXX-XXXX by default and lists invalid ones in the rejects file', async () => {
+    const { rows, result } = await clean('name,phone\nann,415.555.0100\nbob,555-0100\n', { mode: 'advanced', standardizePhone: true });
+    expect(rows).toEqual([['ann', '(415) 555-0100'], ['bob', '555-0100']]);
+    expect(result.rejects.counts['invalid-phone']).toBe(1);
+    expect(await getOutputRows(result.rejects.output)).toEqual([['2', '3', 'invalid-phone', 'kept', '"555-0100" in phone', 'bob', '555-0100', '']]);
+  });
+});
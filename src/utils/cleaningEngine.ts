@@ -4,31 +4,176 @@
 // Added: Column-selector downloads (CSV / JSON / SQL for chosen columns only)
 // ══════════════════════════════════════════════════════════════════════════
 
+import {
+  type OutputEncoding,
+  resolveEncoding,
+  createStreamDecoder,
+  encodingDisplayName,
+} from './encoding';
+import {
+  type CrossFieldRule,
+  type CrossFieldAction,
+  type CrossFieldCheck,
+  buildCrossFieldChecks,
+  CROSS_FIELD_FLAG_COLUMN,
+} from './crossField';
+import {
+  type ColumnFillSetting,
+  type ColumnFillPlan,
+  type ColumnFillStats,
+  createFillStats,
+  recordFillStats,
+  resolveFillPlan,
+  describeFillPlan,
+  createFiller,
+  MAX_BFILL_HELD_ROWS,
+} from './fillMissing';
+import {
+  type AddressComponent,
+  detectAddressComponent,
+  standardizeStreet,
+  standardizeCity,
+  standardizeState,
+  standardizePostalCode,
+  toCountryCode,
+} from './address';
+import {
+  type PhoneFormat,
+  PHONE_FORMATS,
+  splitExtension,
+  standardizePhoneNumber,
+  toPhoneCountry,
+} from './phone';
+import {
+  type CSVDialect,
+  type CSVTokenizer,
+  type CSVRecord,
+  createCSVTokenizer,
+  DEFAULT_DIALECT,
+} from './csvTokenizer';
+import type { ColumnRule, CaseStyle } from './columnRules';
+import { parseColumnType } from './columnTypes';
+import {
+  type SqlExportOptions,
+  defaultSqlOptions,
+  dialectLabel,
+  dialectType,
+  primaryKeyType,
+  quoteIdent,
+} from './sqlDialects';
+import type { TransformPool } from './workers';
+import {
+  type RejectReason,
+  type RejectAction,
+  type RejectEntry,
+  type RejectLog,
+  emptyRejectLog,
+  rejectHeaders,
+  rejectRowCells,
+  REJECT_META_COLUMNS,
+} from './rejects';
+import {
+  type ChangeLog,
+  type RowCellChange,
+  createChangeLog,
+  recordChange,
+  dropOutputRows,
+} from './changeLog';
+import { type TransformRule, TRANSFORM_RULES, TRANSFORM_RULE_INDEX } from './cleaningStats';
+import { type DataProfile, type Profiler, createProfiler } from './profile';
+import {
+  type ValidationSchema,
+  type SchemaValidator,
+  type SchemaRuleKind,
+  createSchemaValidator,
+  SCHEMA_FLAG_COLUMN,
+} from './schema';
+import type { CleaningResult } from './exporters';
+import { type ChunkStore, type OutputStorage, createMemoryChunkStore, createOutputWriter } from './outputStore';
+import { type DedupPolicy, type DedupWinner, type SurvivorScore, survivorScore, outranks, describePolicy } from './dedup';
+import {
+  type BloomFilter,
+  type DedupIndex,
+  type DedupIndexKind,
+  type DedupSpill,
+  type Fingerprint,
+  createBloomFilter,
+  createDedupIndex,
+  createDedupSpill,
+  createSupersededRows,
+  fingerprint,
+  fingerprintWords,
+  formatRate,
+} from './dedupIndex';
+import {
+  type FuzzyMatchConfig,
+  type FuzzyCluster,
+  type FuzzyReview,
+  type FuzzyResolution,
+  createFuzzyMatcher,
+  defaultResolution,
+} from './fuzzyMatch';
+import {
+  type OutlierMethod,
+  type OutlierAction,
+  type OutlierColumnStats,
+  type OutlierFences,
+  createOutlierStats,
+  recordOutlierValue,
+  computeFences,
+  formatFence,
+  isNumericValue,
+  OUTLIER_FLAG_SUFFIX,
+} from './outliers';
+
 export interface CleaningConfig {
   tableName: string;
   pkColumn: string;
   eol: string;
   encoding: string;
+  quoteChar: string;
+  escapeChar: string;
   mode: 'standard' | 'advanced';
   removeDuplicates: boolean;
+  dedupColumns: string[];     // dedup key; empty = every column but the source id
+  dedupPolicy: DedupPolicy;
+  dedupOrderColumn: string;   // compared by the max / min policies
+  dedupIndex: DedupIndexKind;  // how seen keys are remembered
+  dedupMemoryMB: number;      // budget for seen keys; fingerprints past it spill to storage
+  dedupFalsePositiveRate: number;  // target of the 'bloom' index
   removeEmpty: boolean;
   trimWhitespace: boolean;
   normalizeValues: boolean;
   fixEncoding: boolean;
   fuzzyDuplicates: boolean;
+  fuzzyMatch: FuzzyMatchConfig;
   validateEmail: boolean;
   standardizePhone: boolean;
+  phoneFormat: PhoneFormat;
+  phoneCountry: string;        // ISO code for numbers written without a calling code
+  phoneCountryColumn: string;  // per-row country, falling back to phoneCountry; '' = none
   normalizeCase: boolean;
   standardizeDate: boolean;
   detectOutliers: boolean;
+  outlierMethod: OutlierMethod;
+  outlierThreshold: number;  // IQR multiplier, z-score or modified z-score cutoff
+  outlierAction: OutlierAction;
+  outlierColumns: string[];  // empty = every numeric column
   removeSpecialChars: boolean;
+  columnRules: Record<string, ColumnRule>;  // columns without a rule fall back to name / content heuristics
   crossFieldValidation: boolean;
+  crossFieldRules: CrossFieldRule[];
+  crossFieldAction: CrossFieldAction;
+  validationSchema: ValidationSchema;  // {} = no schema checks
   fillMissing: boolean;
+  fillSettings: Record<string, ColumnFillSetting>;
   standardizeAddress: boolean;
+  addressColumns: Record<string, AddressComponent | 'none'>;
   removeHtmlTags: boolean;
   fixNumberFormats: boolean;
   generateId: boolean;
   removeRowsWithEmptyValues: boolean;
+  trackChanges: boolean;  // record every cell change in ProcessResult.changes (capped at CHANGE_LOG_LIMIT)
 }
 
 export interface CleaningStats {
@@ -37,6 +182,12 @@ export interface CleaningStats {
   removed: number;
   cols: number;
   fixed: number;
+  crossFieldViolations: number;
+  imputed: Record<string, number>;
+  transforms: Record<string, Record<string, number>>;  // TRANSFORM_RULES key → column → cells changed
+  removals: Partial<Record<RejectReason, number>>;     // rows dropped per removal rule
+  outliers: Record<string, number>;                    // column → potential outliers
+  schema: Record<string, Record<string, number>>;      // SchemaRuleKind → column → violations
 }
 
 export interface LogEntry {
@@ -47,205 +198,6 @@ export interface LogEntry {
 
 export type ColumnTypes = Record<string, string>;
 
-// ══════════════════════════════════════════════════════════════════════════
-// MODULE-LEVEL STORE
-// ══════════════════════════════════════════════════════════════════════════
-let _storedChunks: string[] = [];
-let _storedHeaders: string[] = [];
-let _storedFileName = '';
-let _storedSeparator = ',';
-let _storedCreateSQL = '';
-let _storedLoadSQL = '';
-
-export function storeResult(data: {
-  chunks: string[];
-  headers: string[];
-  fileName: string;
-  createSQL: string;
-  loadSQL: string;
-  separator?: string;
-}) {
-  _storedChunks = data.chunks;
-  _storedHeaders = data.headers;
-  _storedFileName = data.fileName;
-  _storedCreateSQL = data.createSQL;
-  _storedLoadSQL = data.loadSQL;
-  _storedSeparator = data.separator || ',';
-}
-
-// ══════════════════════════════════════════════════════════════════════════
-// DOWNLOAD — uses Blob URLs for fast, non-blocking downloads
-// ══════════════════════════════════════════════════════════════════════════
-
-function triggerBlobDownload(content: string, filename: string, mimeType: string): boolean {
-  try {
-    if (mimeType.includes('json')) {
-      mimeType = 'application/json;charset=utf-8';
-    }
-    const blob = new Blob([content], { type: mimeType });
-    console.log('Blob created:', blob.size, 'bytes, type:', mimeType);
-    const url = URL.createObjectURL(blob);
-    console.log('Object URL created:', url);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    link.style.display = 'none';
-    document.body.appendChild(link);
-    link.click();
-    console.log('Download triggered for:', filename);
-    document.body.removeChild(link);
-    setTimeout(() => {
-      URL.revokeObjectURL(url);
-      console.log('Object URL revoked');
-    }, 500);
-    return true;
-  } catch (err) {
-    console.error('Blob download failed:', err);
-    return false;
-  }
-}
-
-export function downloadCSV(selectedColumns?: string[]): boolean {
-  if (!_storedChunks || _storedChunks.length === 0) {
-    alert('No cleaned data available. Please clean a file first.');
-    return false;
-  }
-  
-  // If specific columns are selected, filter the data
-  if (selectedColumns && selectedColumns.length > 0) {
-    const colIndices = selectedColumns.map(col => _storedHeaders.indexOf(col)).filter(idx => idx !== -1);
-    if (colIndices.length === 0) {
-      alert('Selected columns not found.');
-      return false;
-    }
-    
-    // Filter headers
-    const filteredHeaders = colIndices.map(idx => _storedHeaders[idx]);
-    const headerLine = filteredHeaders.map(h => quoteCell(h)).join(_storedSeparator) + '\n';
-    
-    // Filter data rows
-    const allRows = getAllDataRows(_storedChunks, undefined, _storedSeparator);
-    const filteredRows = allRows.map(row => 
-      colIndices.map(idx => quoteCell(row[idx] || '')).join(_storedSeparator)
-    ).join('\n');
-    
-    const content = headerLine + filteredRows;
-    const name = (_storedFileName || 'data').replace(/\.[^.]+$/, '') + '_selected.csv';
-    return triggerBlobDownload(content, name, 'text/csv;charset=utf-8');
-  }
-  
-  const content = _storedChunks.join('');
-  const name = (_storedFileName || 'data').replace(/\.[^.]+$/, '') + '_cleaned.csv';
-  return triggerBlobDownload(content, name, 'text/csv;charset=utf-8');
-}
-
-export function downloadSQL(selectedColumns?: string[]): boolean {
-  if (!_storedCreateSQL || !_storedLoadSQL) {
-    alert('No SQL available. Please clean a file first.');
-    return false;
-  }
-  try {
-    let createSQL = _storedCreateSQL;
-    let loadSQL = _storedLoadSQL;
-    
-    // If specific columns are selected, regenerate SQL for those columns only
-    if (selectedColumns && selectedColumns.length > 0) {
-      const validColumns = selectedColumns.filter(col => _storedHeaders.includes(col));
-      if (validColumns.length === 0) {
-        alert('No valid columns selected.');
-        return false;
-      }
-      
-      // This is a simplified version - removes columns from CREATE and LOAD statements
-      // For production, you might want more sophisticated SQL generation
-      const columnsClause = validColumns.join(', ');
-      createSQL = createSQL.replace(/\([^)]+\)/, `(\n  ${validColumns.map(col => col + ' TEXT').join(',\n  ')}\n)`);
-      loadSQL = loadSQL.replace(/LOAD DATA[^(]*\(/, `LOAD DATA ... (${columnsClause}`) + ' ...';
-    }
-    
-    const content = createSQL + '\n\n' + loadSQL;
-    const fileName = (_storedFileName || 'data').replace(/\.[^.]+$/, '') + (selectedColumns && selectedColumns.length > 0 ? '_selected' : '') + '_import.sql';
-    return triggerBlobDownload(content, fileName, 'text/plain;charset=utf-8');
-  } catch (err) {
-    console.error('SQL download error:', err);
-    return false;
-  }
-}
-
-export async function downloadJSON(selectedColumns?: string[]): Promise<boolean> {
-  if (!_storedChunks || _storedChunks.length === 0) {
-    console.error('No chunks stored');
-    alert('No data available. Please clean a file first.');
-    return false;
-  }
-  if (!_storedHeaders || _storedHeaders.length === 0) {
-    console.error('No headers stored');
-    alert('No headers available. Please clean a file first.');
-    return false;
-  }
-  try {
-    await new Promise(resolve => setTimeout(resolve, 100));
-    const allRows = getAllDataRows(_storedChunks, undefined, _storedSeparator);
-    console.log('Retrieved rows for JSON:', allRows.length);
-    if (!allRows || allRows.length === 0) {
-      console.error('No rows found');
-      alert('No data rows found.');
-      return false;
-    }
-    
-    // Determine which columns to include
-    const headersToUse = selectedColumns && selectedColumns.length > 0 
-      ? selectedColumns.filter(col => _storedHeaders.includes(col))
-      : _storedHeaders;
-    
-    if (headersToUse.length === 0) {
-      alert('No valid columns selected.');
-      return false;
-    }
-    
-    const jsonData: Record<string, string>[] = [];
-    const chunkSize = 5000;
-    for (let i = 0; i < allRows.length; i += chunkSize) {
-      const endIdx = Math.min(i + chunkSize, allRows.length);
-      for (let j = i; j < endIdx; j++) {
-        const cells = allRows[j];
-        if (!cells || cells.length === 0) continue; // Skip empty rows
-        const row: Record<string, string> = {};
-        // Ensure we have the correct number of cells, pad if needed
-        const paddedCells = [...cells];
-        while (paddedCells.length < _storedHeaders.length) {
-          paddedCells.push('');
-        }
-        // Map each cell to its corresponding header
-        for (const header of headersToUse) {
-          const headerIdx = _storedHeaders.indexOf(header);
-          if (headerIdx !== -1) {
-            const value = paddedCells[headerIdx] ? String(paddedCells[headerIdx]).trim() : '';
-            row[header] = value;
-          }
-        }
-        jsonData.push(row);
-      }
-      if (endIdx < allRows.length) {
-        await new Promise(resolve => setTimeout(resolve, 5));
-      }
-    }
-    if (jsonData.length === 0) {
-      alert('Failed to create JSON data.');
-      return false;
-    }
-    const jsonContent = JSON.stringify(jsonData, null, 2);
-    const fileName = (_storedFileName || 'data').replace(/\.[^\.]+$/, '') + (selectedColumns && selectedColumns.length > 0 ? '_selected' : '') + '_cleaned.json';
-    const success = triggerBlobDownload(jsonContent, fileName, 'application/json;charset=utf-8');
-    console.log('JSON download triggered:', success);
-    return success;
-  } catch (err) {
-    console.error('JSON download error:', err);
-    alert('Error: ' + (err instanceof Error ? err.message : 'Failed to download JSON'));
-    return false;
-  }
-}
-
 // ── CSV PARSER ──────────────────────────────────────────────────────────
 
 export function parseCSVLine(line: string, sep: string): string[] {
@@ -306,10 +258,14 @@ export function detectSeparator(line: string): string {
   return Object.entries(counts).sort((a, b) => b[1] - a[1])[0][0];
 }
 
+// Any line break a chosen EOL might use is quoted, so outside quotes the
+// output's terminator is the only line break
+const NEEDS_QUOTES = /[,"\n\r\u0085\u2028\u2029]/;
+
 export function quoteCell(value: string | null | undefined): string {
   if (value === null || value === undefined) return '';
   const str = String(value);
-  if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
+  if (NEEDS_QUOTES.test(str)) {
     return '"' + str.replace(/"/g, '""') + '"';
   }
   return str;
@@ -325,6 +281,19 @@ export function sanitizeColumnName(name: string): string {
     .toLowerCase() || 'col_' + Math.random().toString(36).substring(2, 7);
 }
 
+// Sanitized, de-duplicated column names exactly as processFile will output them
+export function sanitizeHeaders(cells: string[]): string[] {
+  const nameCount: Record<string, number> = {};
+  return cells.map(h => sanitizeColumnName(h)).map(h => {
+    if (nameCount[h] !== undefined) { nameCount[h]++; return `${h}_${nameCount[h]}`; }
+    nameCount[h] = 0; return h;
+  });
+}
+
+export function parseHeaderRow(line: string, sep: string): string[] {
+  return sanitizeHeaders(parseCSVLine(line.replace(/^\uFEFF/, ''), sep));
+}
+
 // ── ADVANCED CLEANING ─────────────────────────────────────────────────────
 
 export function looksLikeEmail(str: string): boolean {
@@ -354,7 +323,7 @@ export function fixEmail(email: string): string {
 
 export function looksLikePhone(str: string): boolean {
   if (!str) return false;
-  const trimmed = str.trim();
+  const trimmed = splitExtension(str.trim()).number;
   // ── FIX: Must look *exclusively* like a phone number.
   // The old regex matched any string with 7-15 digits + separators, which
   // caught sentences, IDs, descriptions, season counts, etc.
@@ -373,19 +342,6 @@ export function isPhoneColumnName(colName: string): boolean {
   return /phone|mobile|cell|fax|tel|contact_no|contact_num|whatsapp/i.test(colName);
 }
 
-export function standardizePhoneFn(phone: string): string {
-  if (!phone) return phone;
-  const digits = phone.replace(/\D/g, '');
-  if (digits.length === 10) return `(${digits.substring(0,3)}) ${digits.substring(3,6)}-${digits.substring(6)}`;
-  if (digits.length === 11 && digits[0] === '1') return `+1 (${digits.substring(1,4)}) ${digits.substring(4,7)}-${digits.substring(7)}`;
-  if (digits.length >= 11) {
-    const cc = digits.substring(0, digits.length - 10);
-    const rest = digits.substring(digits.length - 10);
-    return `+${cc} (${rest.substring(0,3)}) ${rest.substring(3,6)}-${rest.substring(6)}`;
-  }
-  return phone;
-}
-
 export function isValidDate(str: string): boolean {
   if (!str || str.length < 6 || str.length > 30) return false;
   if (/^\d+$/.test(str) && str.length > 8) return false;
@@ -444,6 +400,24 @@ export function normalizeCaseFn(str: string, columnName: string): string {
   return str;
 }
 
+// Explicit per-column case style from a ColumnRule
+export function applyCaseStyle(str: string, style: CaseStyle): string {
+  if (!str) return str;
+  switch (style) {
+    case 'upper': return str.toUpperCase();
+    case 'lower': return str.toLowerCase();
+    case 'sentence': {
+      const lower = str.toLowerCase();
+      return lower.replace(/[a-zÀ-ɏ]/i, c => c.toUpperCase());
+    }
+    case 'title':
+      return str.split(/(\s+)/).map(word => {
+        if (word.trim() === '') return word;
+        return word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+      }).join('');
+  }
+}
+
 export function removeSpecialCharsFn(str: string): string {
   if (!str) return str;
   return str.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
@@ -497,6 +471,13 @@ export function detectColumnTypes(headers: string[], sampleRows: string[][]): Co
 
     if (values.length === 0) { types[header] = 'varchar'; return; }
 
+    // Leading zeros (ZIP codes, account numbers) would be lost in a numeric column
+    if (values.some(v => /^-?0\d/.test(v))) {
+      const maxLen = Math.max(...values.map(v => v.length));
+      types[header] = values.every(v => v.length === maxLen) ? `char(${maxLen})` : 'varchar';
+      return;
+    }
+
     if (values.every(v => /^-?\d+$/.test(v))) {
       const maxVal = Math.max(...values.map(v => Math.abs(parseInt(v, 10))));
       if (maxVal < 128) types[header] = 'tinyint';
@@ -529,61 +510,163 @@ export function detectColumnTypes(headers: string[], sampleRows: string[][]): Co
 
 // ── SQL GENERATION ────────────────────────────────────────────────────────
 
-export function generateCreateTable(tableName: string, headers: string[], types: ColumnTypes, pkColumn: string): string {
-  const typeMap: Record<string, string> = {
-    tinyint: 'TINYINT', smallint: 'SMALLINT', int: 'INT', bigint: 'BIGINT',
-    decimal: 'DECIMAL(15,4)', decimal_money: 'DECIMAL(10,2)',
-    bool: 'TINYINT(1)', date: 'DATE', text: 'TEXT', longtext: 'LONGTEXT',
-    varchar: 'VARCHAR(255)', varchar_long: 'VARCHAR(500)', email: 'VARCHAR(320)',
-  };
-  let sql = `-- Generated by DataScrub Pro\n-- Date: ${new Date().toISOString()}\n\n`;
-  sql += `CREATE DATABASE IF NOT EXISTS mydb\n  CHARACTER SET utf8mb4\n  COLLATE utf8mb4_unicode_ci;\nUSE mydb;\n\n`;
-  sql += `DROP TABLE IF EXISTS \`${tableName}\`;\n\n`;
-  sql += `CREATE TABLE \`${tableName}\` (\n`;
+export function generateCreateTable(
+  tableName: string, headers: string[], types: ColumnTypes, pkColumn: string,
+  options: SqlExportOptions = defaultSqlOptions()
+): string {
+  const { dialect, charset, collation } = options;
+  const database = options.database.trim() || 'mydb';
+  const q = (name: string) => quoteIdent(name, dialect);
+  const table = q(tableName);
+
+  let sql = `-- Generated by DataScrub Pro\n-- Dialect: ${dialectLabel(dialect)}\n-- Date: ${new Date().toISOString()}\n\n`;
+  switch (dialect) {
+    case 'mysql':
+      sql += `CREATE DATABASE IF NOT EXISTS ${q(database)}\n  CHARACTER SET ${charset}\n  COLLATE ${collation};\nUSE ${q(database)};\n\n`;
+      sql += `DROP TABLE IF EXISTS ${table};\n\n`;
+      break;
+    case 'postgres':
+      // CREATE DATABASE has no IF NOT EXISTS and can't run inside a transaction
+      sql += `-- Run once if the database doesn't exist yet, then connect to it:\n`;
+      sql += `-- CREATE DATABASE ${q(database)} ENCODING '${charset}' LC_COLLATE '${collation}' LC_CTYPE '${collation}' TEMPLATE template0;\n\n`;
+      sql += `DROP TABLE IF EXISTS ${table};\n\n`;
+      break;
+    case 'sqlite':
+      sql += `-- Run with: sqlite3 ${database}.db < this_file.sql\nPRAGMA encoding = 'UTF-8';\n\n`;
+      sql += `DROP TABLE IF EXISTS ${table};\n\n`;
+      break;
+    case 'sqlserver':
+      sql += `IF DB_ID(N'${database.replace(/'/g, "''")}') IS NULL\n  CREATE DATABASE ${q(database)}${collation ? ` COLLATE ${collation}` : ''};\nGO\nUSE ${q(database)};\nGO\n\n`;
+      sql += `DROP TABLE IF EXISTS ${table};\n\n`;
+      break;
+    case 'oracle':
+      // Oracle has one database per instance; the import goes into a schema
+      sql += `-- Database character set should be ${charset}\nALTER SESSION SET CURRENT_SCHEMA = ${q(database.toUpperCase())};\n\n`;
+      sql += `BEGIN\n  EXECUTE IMMEDIATE 'DROP TABLE ${table.replace(/'/g, "''")}';\nEXCEPTION\n  WHEN OTHERS THEN IF SQLCODE != -942 THEN RAISE; END IF;\nEND;\n/\n\n`;
+      break;
+  }
+
+  sql += `CREATE TABLE ${table} (\n`;
   const defs = headers.map(h => {
-    const sqlType = typeMap[types[h]] || 'TEXT';
-    const isPK = h === pkColumn;
-    const pk = isPK ? ' NOT NULL AUTO_INCREMENT PRIMARY KEY' : '';
+    const sqlType = h === pkColumn ? primaryKeyType(types[h], dialect, false) : dialectType(types[h], dialect);
     const pad = ' '.repeat(Math.max(1, 30 - h.length));
-    return `    \`${h}\`${pad}${sqlType}${pk}`;
+    return `    ${q(h)}${pad}${sqlType}`;
   });
   if (pkColumn && !headers.includes(pkColumn)) {
     const pad = ' '.repeat(Math.max(1, 30 - pkColumn.length));
-    defs.unshift(`    \`${pkColumn}\`${pad}BIGINT NOT NULL AUTO_INCREMENT PRIMARY KEY`);
+    defs.unshift(`    ${q(pkColumn)}${pad}${primaryKeyType('bigint', dialect, true)}`);
   }
   sql += defs.join(',\n');
-  sql += '\n) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;';
+  sql += dialect === 'mysql' ? `\n) ENGINE=InnoDB DEFAULT CHARSET=${charset} COLLATE=${collation};` : '\n);';
   return sql;
 }
 
-export function generateLoadData(tableName: string, cleanedFileName: string, headers: string[]): string {
+// encoding = how the CSV was exported. UTF-16 files load into SQL Server
+// and Oracle; the other loaders only read single-byte encodings and UTF-8.
+export function generateLoadData(
+  tableName: string, cleanedFileName: string, headers: string[],
+  options: SqlExportOptions = defaultSqlOptions(), types: ColumnTypes = {}, encoding: OutputEncoding = 'UTF-8'
+): string {
+  const { dialect, charset } = options;
+  const q = (name: string) => quoteIdent(name, dialect);
+  const table = q(tableName);
+  const columns = headers.map(q).join(', ');
+  const utf16 = encoding === 'UTF-16LE';
   let sql = `-- Import cleaned CSV data\n\n`;
-  sql += `LOAD DATA LOCAL INFILE '${cleanedFileName}'\n`;
-  sql += `INTO TABLE \`${tableName}\`\n`;
-  sql += `CHARACTER SET utf8mb4\n`;
-  sql += `FIELDS TERMINATED BY ','\n`;
-  sql += `OPTIONALLY ENCLOSED BY '"'\n`;
-  sql += `LINES TERMINATED BY '\\n'\n`;
-  sql += `IGNORE 1 ROWS\n`;
-  sql += `(${headers.map(h => '`' + h + '`').join(', ')});\n\n`;
-  sql += `-- Verify\nSELECT COUNT(*) AS total_rows FROM \`${tableName}\`;\nSELECT * FROM \`${tableName}\` LIMIT 10;`;
+  if (utf16 && dialect !== 'sqlserver' && dialect !== 'oracle') {
+    sql += `-- ${dialectLabel(dialect)} can't load UTF-16 files: export the CSV as UTF-8 for this statement.\n\n`;
+  }
+
+  switch (dialect) {
+    case 'mysql':
+      sql += `LOAD DATA LOCAL INFILE '${cleanedFileName}'\n`;
+      sql += `INTO TABLE ${table}\n`;
+      sql += `CHARACTER SET ${charset}\n`;
+      sql += `FIELDS TERMINATED BY ','\n`;
+      sql += `OPTIONALLY ENCLOSED BY '"'\n`;
+      sql += `LINES TERMINATED BY '\\n'\n`;
+      sql += `IGNORE 1 ROWS\n`;
+      sql += `(${columns});\n\n`;
+      break;
+    case 'postgres':
+      sql += `-- COPY reads the file on the database server. From psql on your own\n-- machine, run the same statement as \\copy instead.\n`;
+      sql += `COPY ${table} (${columns})\n`;
+      sql += `FROM '${cleanedFileName}'\n`;
+      sql += `WITH (FORMAT csv, HEADER true, ENCODING '${charset}');\n\n`;
+      break;
+    case 'sqlite': {
+      // .import into a scratch table named by the CSV header, then copy across so
+      // a generated key column or type affinity can't shift the fields
+      const scratch = q(`${tableName}_import`);
+      sql += `DROP TABLE IF EXISTS ${scratch};\n`;
+      sql += `.import --csv '${cleanedFileName}' ${scratch}\n`;
+      sql += `INSERT INTO ${table} (${columns}) SELECT ${columns} FROM ${scratch};\n`;
+      sql += `DROP TABLE ${scratch};\n\n`;
+      break;
+    }
+    case 'sqlserver': {
+      // BULK INSERT maps fields by position, so load through a view that lists
+      // exactly the CSV columns
+      const view = q(`${tableName}_import`);
+      sql += `GO\nCREATE OR ALTER VIEW ${view} AS SELECT ${columns} FROM ${table};\nGO\n`;
+      sql += `BULK INSERT ${view}\n`;
+      sql += `FROM '${cleanedFileName}'\n`;
+      sql += `WITH (FORMAT = 'CSV', FIRSTROW = 2, FIELDQUOTE = '"', FIELDTERMINATOR = ',', ROWTERMINATOR = '0x0a', ${utf16 ? "DATAFILETYPE = 'widechar'" : `CODEPAGE = '${charset}'`}, TABLOCK);\n`;
+      sql += `DROP VIEW ${view};\n\n`;
+      break;
+    }
+    case 'oracle': {
+      const fields = headers.map(h => {
+        const spec = parseColumnType(types[h]);
+        if (spec.base === 'date') return `${q(h)} DATE "YYYY-MM-DD"`;
+        if (spec.base === 'text' || spec.base === 'longtext') return `${q(h)} CHAR(1000000)`;
+        if (spec.length && spec.length > 255) return `${q(h)} CHAR(${spec.length})`;
+        return q(h);
+      });
+      sql += `-- Oracle loads CSV files with SQL*Loader. Save the control file below\n`;
+      sql += `-- (without the leading "-- ") as ${tableName}.ctl and run:\n`;
+      sql += `--   sqlldr userid=USER/PASSWORD control=${tableName}.ctl\n--\n`;
+      sql += `-- OPTIONS (SKIP=1)\n-- LOAD DATA\n-- CHARACTERSET ${utf16 ? 'UTF16\n-- BYTEORDER LITTLE' : charset}\n-- INFILE '${cleanedFileName}'\n`;
+      sql += `-- APPEND INTO TABLE ${table}\n-- FIELDS TERMINATED BY ',' OPTIONALLY ENCLOSED BY '"'\n-- TRAILING NULLCOLS\n`;
+      sql += `-- (${fields.join(', ')})\n\n`;
+      break;
+    }
+  }
+
+  sql += `-- Verify\nSELECT COUNT(*) AS total_rows FROM ${table};\n`;
+  switch (dialect) {
+    case 'sqlserver': sql += `SELECT TOP 10 * FROM ${table};`; break;
+    case 'oracle': sql += `SELECT * FROM ${table} FETCH FIRST 10 ROWS ONLY;`; break;
+    default: sql += `SELECT * FROM ${table} LIMIT 10;`;
+  }
   return sql;
 }
 
 // ── EOL ──
 
+// Line endings for the output; 'Auto' writes LF
+export const EOL_FORMATS: { value: string; label: string; char: string }[] = [
+  { value: 'Auto', label: 'Auto Detect', char: '\n' },
+  { value: 'LF', label: 'LF (Unix/Linux/macOS)', char: '\n' },
+  { value: 'CRLF', label: 'CRLF (Windows)', char: '\r\n' },
+  { value: 'CR', label: 'CR (Classic Mac)', char: '\r' },
+  { value: 'LFCR', label: 'LFCR (Acorn / RISC OS)', char: '\n\r' },
+  { value: 'NEL', label: 'NEL (EBCDIC Next Line)', char: '\u0085' },
+  { value: 'LS', label: 'LS (Unicode Line Separator)', char: '\u2028' },
+  { value: 'PS', label: 'PS (Unicode Paragraph Separator)', char: '\u2029' },
+];
+
 export function getEolChar(eol: string): string {
-  switch (eol) {
-    case 'CRLF': return '\r\n';
-    case 'CR': return '\r';
-    case 'LFCR': return '\n\r';
-    case 'NEL': return '\u0085';
-    case 'LS': return '\u2028';
-    case 'PS': return '\u2029';
-    default: return '\n';
-  }
+  return EOL_FORMATS.find(f => f.value === eol)?.char || '\n';
 }
 
+// How every pass reads the output back: whichever EOL it was written with,
+// the single-character ones besides CR and LF (NEL, LS, PS) end records too
+const OUTPUT_DIALECT: CSVDialect = {
+  ...DEFAULT_DIALECT,
+  lineBreaks: EOL_FORMATS.map(f => f.char).filter(c => c.length === 1 && c !== '\n' && c !== '\r').join(''),
+};
+
 // ── UTILITIES ─────────────────────────────────────────────────────────────
 
 export function formatBytes(bytes: number): string {
@@ -594,23 +677,62 @@ export function formatBytes(bytes: number): string {
   return bytes + ' B';
 }
 
-export function fuzzyNormalize(str: string): string {
-  return str.toLowerCase().replace(/\s+/g, '').replace(/[^a-z0-9]/g, '');
-}
-
 // ── COLLECT ALL ROWS ──────────────────────────────────────────────────────
 
-export function getAllDataRows(chunks: string[], maxRows?: number, separator: string = ','): string[][] {
+// Parses stored output chunks back into rows (header record skipped). Uses the
+// streaming tokenizer so quoted fields spanning lines survive the round trip.
+export function* iterateDataRows(chunks: Iterable<string>, separator: string = ','): Generator<string[]> {
+  const tokenizer = createCSVTokenizer({ ...OUTPUT_DIALECT, separator });
+  let skippedHeader = false;
+  const skipHeader = function* (records: CSVRecord[]) {
+    for (const record of records) {
+      if (!skippedHeader) { skippedHeader = true; continue; }
+      yield record.cells;
+    }
+  };
+  for (const chunk of chunks) yield* skipHeader(tokenizer.push(chunk));
+  yield* skipHeader(tokenizer.end());
+}
+
+export function getAllDataRows(chunks: Iterable<string>, maxRows?: number, separator: string = ','): string[][] {
   const rows: string[][] = [];
-  for (let c = 0; c < chunks.length; c++) {
-    const lines = chunks[c].split(/\r?\n|\r/);
-    const startLine = c === 0 ? 1 : 0;
-    for (let i = startLine; i < lines.length; i++) {
-      const line = lines[i];
-      if (!line.trim()) continue;
-      rows.push(parseCSVLine(line, separator));
-      if (maxRows && rows.length >= maxRows) return rows;
+  for (const cells of iterateDataRows(chunks, separator)) {
+    rows.push(cells);
+    if (maxRows && rows.length >= maxRows) break;
+  }
+  return rows;
+}
+
+// The same for a finished output Blob, read 1 MB at a time so an output kept
+// on disk is never loaded whole
+export async function* readDataRows(output: Blob, separator: string = ','): AsyncGenerator<string[]> {
+  const tokenizer = createCSVTokenizer({ ...OUTPUT_DIALECT, separator });
+  let skippedHeader = false;
+  const skipHeader = function* (records: CSVRecord[]) {
+    for (const record of records) {
+      if (!skippedHeader) { skippedHeader = true; continue; }
+      yield record.cells;
     }
+  };
+  for await (const text of readOutputText(output)) yield* skipHeader(tokenizer.push(text));
+  yield* skipHeader(tokenizer.end());
+}
+
+// Decoded 1 MB slices of an output Blob
+export async function* readOutputText(output: Blob): AsyncGenerator<string> {
+  const CHUNK_SIZE = 1024 * 1024;
+  const decoder = new TextDecoder();
+  for (let offset = 0; offset < output.size; offset += CHUNK_SIZE) {
+    const bytes = await readChunkAsBytes(output.slice(offset, offset + CHUNK_SIZE));
+    yield decoder.decode(bytes, { stream: offset + CHUNK_SIZE < output.size });
+  }
+}
+
+export async function getOutputRows(output: Blob, maxRows?: number, separator: string = ','): Promise<string[][]> {
+  const rows: string[][] = [];
+  for await (const cells of readDataRows(output, separator)) {
+    rows.push(cells);
+    if (maxRows && rows.length >= maxRows) break;
   }
   return rows;
 }
@@ -618,23 +740,215 @@ export function getAllDataRows(chunks: string[], maxRows?: number, separator: st
 // ── MAIN PROCESSOR ────────────────────────────────────────────────────────
 
 export interface ProcessResult {
-  cleanedChunks: string[];
+  output: Blob;  // the cleaned CSV; disk-backed when the run spilled to storage
+  storage: OutputStorage | null;
   headers: string[];
   columnTypes: ColumnTypes;
   stats: CleaningStats;
   separator: string;
+  eol: string;  // line break written between records
+  cancelled: boolean;  // true when the run was stopped early; the result holds every row merged so far
+  rejects: RejectLog;
+  changes: ChangeLog;
+  fuzzy: FuzzyReview | null;  // clusters awaiting review; nothing was removed for them yet
+}
+
+// ── RUN CONTROL ───────────────────────────────────────────────────────────
+// processFile checks these between 1 MB chunks. Pausing just holds the read
+// loop, so resuming carries on from the same byte offset; cancelling stops
+// reading and finishes with the rows cleaned so far.
+
+export interface PauseController {
+  readonly paused: boolean;
+  pause(): void;
+  resume(): void;
+  wait(signal?: AbortSignal): Promise<void>;  // settles on resume (or abort); immediately if not paused
+}
+
+export function createPauseController(): PauseController {
+  let paused = false;
+  let waiters: (() => void)[] = [];
+  const release = () => {
+    const ready = waiters;
+    waiters = [];
+    for (const w of ready) w();
+  };
+  return {
+    get paused() { return paused; },
+    pause() { paused = true; },
+    resume() { paused = false; release(); },
+    wait(signal) {
+      if (!paused || signal?.aborted) return Promise.resolve();
+      return new Promise(resolve => {
+        waiters.push(resolve);
+        signal?.addEventListener('abort', release, { once: true });
+      });
+    },
+  };
+}
+
+export interface ProcessOptions {
+  signal?: AbortSignal;
+  pause?: PauseController;
+  // Supplied by the cleaning worker; without it row transforms run inline
+  createPool?: (config: CleaningConfig, ctx: RowTransformContext) => TransformPool;
+  // Where the cleaned chunks go (OPFS in the worker, a temp file in the CLI);
+  // without it they stay in memory
+  createStore?: () => Promise<ChunkStore>;
+}
+
+// ── ROW TRANSFORMS ────────────────────────────────────────────────────────
+// Everything that depends on one row alone. Safe to run on any worker in any
+// order; processFile merges the results back in file order.
+
+export interface RowTransformContext {
+  rawHeaders: string[];
+  sourceIdColIndex: number;
+  addressRoles: (AddressComponent | null)[];
+  countryColIndex: number;
+  phoneCountryColIndex: number;
+  columnRules: (ColumnRule | null)[];
+  dedupKeyColumns: number[];  // rawHeaders indexes; empty = every column but the source id
+}
+
+export interface TransformedRow {
+  cells: string[];
+  fixed: number;
+  changes: RowCellChange[];  // empty unless config.trackChanges
+  hits: number[];  // (TRANSFORM_RULES index, rawHeaders index) pairs, one per fixed cell
+  invalidPostal: { column: string; value: string }[];
+  invalidPhone: { column: string; value: string }[];
+  dedupKey: Fingerprint | null;  // null = no dedup key (dedup off, or every key cell empty)
+}
+
+export function transformRow(cells: string[], config: CleaningConfig, ctx: RowTransformContext): TransformedRow {
+  const { rawHeaders, sourceIdColIndex, addressRoles, countryColIndex, phoneCountryColIndex, columnRules } = ctx;
+  let rawCells = cells;
+  let cellsFixed = 0;
+  const changes: RowCellChange[] = [];
+  const invalidPostal: { column: string; value: string }[] = [];
+  const invalidPhone: { column: string; value: string }[] = [];
+  const hits: number[] = [];
+  const note = (col: number, before: string, after: string, rule: string) => {
+    if (config.trackChanges) changes.push({ col, before, after, rule });
+  };
+  const fix = (col: number, before: string, after: string, rule: TransformRule, variant = '') => {
+    cellsFixed++;
+    hits.push(TRANSFORM_RULE_INDEX[rule], col);
+    note(col, before, after, variant ? `${rule}:${variant}` : rule);
+  };
+
+  // Apply cleaning transforms on rawCells (aligned to rawHeaders). The source
+  // id column is left alone here too: the generated id replaces it.
+  if (config.fixEncoding) {
+    rawCells = rawCells.map((c, i) => { if (i === sourceIdColIndex) return c; const f = fixEncodingIssues(c); if (f !== c) fix(i, c, f, 'fixEncodingIssues'); return f; });
+  }
+  if (config.trimWhitespace) {
+    rawCells = rawCells.map((c, i) => { if (i === sourceIdColIndex) return c; const o = c; const t = (c || '').replace(/\s+/g, ' ').trim(); if (o !== t) fix(i, o, t, 'trimWhitespace'); return t; });
+  }
+  if (config.normalizeValues) {
+    rawCells = rawCells.map((c, i) => {
+      if (i === sourceIdColIndex) return c;
+      const val = (c || '').trim();
+      if (/^(null|NULL|Null|N\/A|n\/a|NA|na|none|None|NONE|undefined|Undefined|nil|NIL|\?|#N\/A|#VALUE!|#REF!|#NAME\?|#DIV\/0!|-|—|\.{2,})$/.test(val)) {
+        fix(i, c, '', 'normalizeValues'); return '';
+      }
+      if (val !== c) note(i, c, val, 'normalizeValues');
+      return val;
+    });
+  }
+
+  if (config.mode === 'advanced') {
+    // Never write into the caller's array — processFile keeps it for the rejects file
+    if (rawCells === cells) rawCells = [...cells];
+    const apply = (i: number, f: string, rule: TransformRule, variant = '') => {
+      if (f === rawCells[i]) return;
+      fix(i, rawCells[i], f, rule, variant);
+      rawCells[i] = f;
+    };
+    for (let i = 0; i < rawCells.length; i++) {
+      // ── FIX: Never apply data transforms to the source id column.
+      // That slot is always replaced by a fresh sequential id in outputCells,
+      // so cleaning its old value (or using it for outlier / normalizeCase
+      // column-name lookups) would corrupt data and misname columns.
+      if (i === sourceIdColIndex) continue;
+
+      const colName = rawHeaders[i]; // rawHeaders always aligns 1-to-1 with rawCells
+      const rule = columnRules[i];
+      if (config.removeHtmlTags && (rule ? rule.html : true) && rawCells[i] && /<[^>]+>/.test(rawCells[i])) {
+        apply(i, removeHtmlTagsFn(rawCells[i]), 'removeHtmlTagsFn');
+      }
+      if (config.validateEmail && (rule ? rule.email : true) && looksLikeEmail(rawCells[i])) {
+        apply(i, fixEmail(rawCells[i]), 'fixEmail');
+      }
+      if (config.standardizePhone && (rule ? rule.phone : isPhoneColumnName(colName)) && looksLikePhone(rawCells[i])) {
+        const country = (phoneCountryColIndex !== -1 && toPhoneCountry(rawCells[phoneCountryColIndex])) || config.phoneCountry;
+        const result = standardizePhoneNumber(rawCells[i], country, config.phoneFormat);
+        if (result.valid) apply(i, result.value, 'standardizePhoneFn', config.phoneFormat);
+        else invalidPhone.push({ column: colName, value: rawCells[i] });
+      }
+      if (config.standardizeDate && (rule ? rule.date : true) && isValidDate(rawCells[i])) {
+        apply(i, standardizeDateFn(rawCells[i]), 'standardizeDateFn');
+      }
+      const addressRole = config.standardizeAddress ? addressRoles[i] : null;
+      if (addressRole && rawCells[i]) {
+        if (addressRole === 'street') apply(i, standardizeStreet(rawCells[i]), 'standardizeStreet');
+        else if (addressRole === 'city') apply(i, standardizeCity(rawCells[i]), 'standardizeCity');
+        else if (addressRole === 'state') apply(i, standardizeState(rawCells[i]), 'standardizeState');
+        else if (addressRole === 'postal') {
+          const country = countryColIndex !== -1 ? toCountryCode(rawCells[countryColIndex]) : '';
+          const result = standardizePostalCode(rawCells[i], country);
+          if (!result.valid) invalidPostal.push({ column: colName, value: rawCells[i] });
+          apply(i, result.value, 'standardizePostalCode');
+        }
+      }
+      // Standardized address parts already have their case (St, NE, PO Box, GB)
+      if (config.normalizeCase && (rule ? rule.case : true) && rawCells[i] && !addressRole) {
+        if (rule) apply(i, applyCaseStyle(rawCells[i], rule.caseStyle), 'applyCaseStyle', rule.caseStyle);
+        else apply(i, normalizeCaseFn(rawCells[i], colName), 'normalizeCaseFn');
+      }
+      if (config.removeSpecialChars && rawCells[i]) {
+        apply(i, removeSpecialCharsFn(rawCells[i]), 'removeSpecialCharsFn');
+      }
+      if (config.fixNumberFormats && (rule ? rule.number : true) && rawCells[i]) {
+        apply(i, fixNumberFormat(rawCells[i]), 'fixNumberFormat');
+      }
+    }
+  }
+
+  // A key made of chosen columns that are all empty identifies nothing
+  let dedupKey: Fingerprint | null = null;
+  if (config.removeDuplicates) {
+    const keyCells = ctx.dedupKeyColumns.length > 0
+      ? ctx.dedupKeyColumns.map(i => rawCells[i])
+      : rawCells.filter((_, i) => i !== sourceIdColIndex);
+    if (ctx.dedupKeyColumns.length === 0 || keyCells.some(c => c)) dedupKey = fingerprint(keyCells.join('\x00'), fingerprintWords(config.dedupIndex));
+  }
+  return {
+    cells: rawCells,
+    fixed: cellsFixed,
+    changes,
+    hits,
+    invalidPostal,
+    invalidPhone,
+    dedupKey,
+  };
 }
 
 export async function processFile(
   file: File,
   config: CleaningConfig,
   onProgress: (percent: number, label: string) => void,
-  onLog: (entry: LogEntry) => void
+  onLog: (entry: LogEntry) => void,
+  options: ProcessOptions = {}
 ): Promise<ProcessResult> {
+  const { signal, pause, createPool, createStore } = options;
   const CHUNK_SIZE = 1024 * 1024;
   let offset = 0;
-  let leftover = '';
-  const cleanedDataChunks: string[] = [];
+  let cancelled = false;
+  const cleanedDataChunks = createStore ? await createStore() : createMemoryChunkStore();
+  // Rejected rows are written out as they come, like the cleaned ones
+  const rejectChunks = createStore ? await createStore() : createMemoryChunkStore();
   let rowBuffer: string[] = [];
   let separator = '';
   let isFirstChunk = true;
@@ -650,333 +964,1087 @@ export async function processFile(
   let sourceIdColIndex = -1;   // index of 'id' in rawHeaders (-1 = not present)
   let hasGeneratedId = false;  // true when we are injecting a sequential id column
 
-  const seenHashes = new Set<string>();
-  const fuzzyHashes = new Set<string>();
+  // Dedup key fingerprint → the row currently holding it in the output; rows
+  // it lost to later in the stream are removed once the whole file has merged.
+  // Keys past the memory budget go to dedupSpill and are settled at the end;
+  // until then their rows count towards fill and outlier statistics, as
+  // replaced rows already do.
+  let seenKeys: DedupIndex | null = null;
+  let seenBloom: BloomFilter | null = null;
+  let dedupSpill = null as DedupSpill | null;
+  const dedupBudget = Math.max(1, config.dedupMemoryMB) * 1024 * 1024;
+  // Rows that lost their key, sharing the budget with the seen keys
+  const superseded = createSupersededRows(dedupBudget, () => (seenKeys?.bytes ?? 0) + (seenBloom?.bytes ?? 0),
+    () => (createStore ? createStore() : Promise.resolve(createMemoryChunkStore())));
+  let dedupPolicy = config.dedupPolicy;
+  let dedupOrderCol = -1;
   let totalOriginalRows = 0;
   let totalCleanedRows = 0;
   let totalFixedCells = 0;
-  let fuzzyDupCount = 0;
   let columnMismatchCount = 0;
+  let malformedCount = 0;
   let idCounter = 1;
 
+  // Created once the first line is known and the separator can be detected
+  let tokenizer: CSVTokenizer | null = null;
+  let headerText = '';
+
+  let crossFieldChecks: CrossFieldCheck[] = [];
+  const crossFieldCounts: Record<string, number> = {};
+  let crossFieldViolations = 0;
+  let crossFieldDropped = 0;
+  let schemaValidator: SchemaValidator | null = null;
+  let schema: ValidationSchema = {};  // config.validationSchema keyed by sanitized column name
+  let flagSchema = false;
+  const schemaCounts: Record<string, Record<string, number>> = {};
+  let schemaViolations = 0;
+  let schemaRejected = 0;
+  const flagCrossField = config.crossFieldValidation && config.crossFieldAction === 'flag';
+  let fillStats: ColumnFillStats[] = [];
+
+  // Address role per rawHeaders index (null = not an address column)
+  let addressRoles: (AddressComponent | null)[] = [];
+  let countryColIndex = -1;
+  let invalidPostalCount = 0;
+  let phoneCountryColIndex = -1;
+  let invalidPhoneCount = 0;
+
   const eolChar = getEolChar(config.eol);
-  const numericColumns: Record<number, number[]> = {};
+  // Outlier statistics per rawHeaders index (null = column not checked)
+  let outlierStats: (OutlierColumnStats | null)[] = [];
+  const checkOutliers = config.mode === 'advanced' && config.detectOutliers;
+
+  const transformHits: number[][] = [];  // [TRANSFORM_RULES index][rawHeaders index]
+  const removals: Partial<Record<RejectReason, number>> = {};
+  const rejects = emptyRejectLog();
+  const changes = createChangeLog();
+  // Source row per output row, for change-log fill entries and dropped-outlier rejects
+  const outputSourceRows: number[] = [];
+  const trackSourceRows = config.trackChanges || config.fuzzyDuplicates || (checkOutliers && config.outlierAction === 'drop');
+  let rejectBuffer: string[] = [];
+  const reject = (entry: RejectEntry) => {
+    rejects.count++;
+    rejects.counts[entry.reason] = (rejects.counts[entry.reason] || 0) + 1;
+    if (entry.action === 'removed') removals[entry.reason] = (removals[entry.reason] || 0) + 1;
+    rejectBuffer.push(rejectRowCells(entry, rawHeaders.length).map(c => quoteCell(c)).join(','));
+    // Each batch starts with the line break that ends the one before
+    if (rejectBuffer.length >= 1000) {
+      rejectChunks.push(eolChar + rejectBuffer.join(eolChar));
+      rejectBuffer = [];
+    }
+  };
 
   const addLog = (icon: string, message: string, type: '' | 'success' | 'warn' | 'error' = '') => {
     onLog({ icon, message, type });
   };
 
-  addLog('📂', `Mode: ${config.mode.toUpperCase()} | File: ${file.name} (${formatBytes(file.size)})`);
-  addLog('⚙️', `EOL: ${config.eol} | Encoding: ${config.encoding}`);
+  // ── ORDERED MERGE ───────────────────────────────────────────────────────
+  // Everything order- or state-dependent happens here, one batch at a time in
+  // file order: dedup sets, cross-field checks, id numbering, fill stats and
+  // the output buffer. This keeps results identical to a sequential run.
+  const BATCH_SIZE = 2000;
+  let batchRows: string[][] = [];
+  const rejectEntry = (meta: RowMeta, reason: RejectReason, action: RejectAction, detail: string): RejectEntry =>
+    ({ row: meta.row, line: meta.line, reason, action, detail, cells: meta.source });
+
+  // source = the cells as read, kept for the rejects file; shape = problems
+  // found while reading, written out at merge time so the file stays in row order
+  type RowMeta = { row: number; line: number; source: string[]; shape: RejectEntry[] };
+  let batchMeta: RowMeta[] = [];
+  const inflight: { meta: RowMeta[]; results: Promise<(TransformedRow | null)[]> }[] = [];
+  let pool = null as TransformPool | null;
+  let rowCtx: RowTransformContext = { rawHeaders: [], sourceIdColIndex: -1, addressRoles: [], countryColIndex: -1, phoneCountryColIndex: -1, columnRules: [], dedupKeyColumns: [] };
+
+  const runBatch = (rows: string[][]): Promise<(TransformedRow | null)[]> => {
+    if (pool) return pool.run(rows);
+    return Promise.resolve(rows.map(cells => {
+      try { return transformRow(cells, config, rowCtx); } catch { return null; }
+    }));
+  };
 
-  while (offset < file.size) {
-    const chunk = file.slice(offset, offset + CHUNK_SIZE);
-    const text = await readChunkAsText(chunk);
-    offset += CHUNK_SIZE;
+  const mergeNextBatch = async () => {
+    const batch = inflight.shift()!;
+    const results = await batch.results;
+    for (let k = 0; k < results.length; k++) {
+      const result = results[k];
+      const meta = batch.meta[k];
+      for (const entry of meta.shape) reject(entry);
+      if (!result) {
+        addLog('⚠️', `Row ${meta.row} (line ${meta.line}) could not be transformed — skipped`, 'warn');
+        reject(rejectEntry(meta, 'parse-error', 'removed', 'could not be transformed'));
+        continue;
+      }
+      let rawCells = result.cells;
+      totalFixedCells += result.fixed;
+      for (let h = 0; h < result.hits.length; h += 2) {
+        const perColumn = transformHits[result.hits[h]] || (transformHits[result.hits[h]] = []);
+        perColumn[result.hits[h + 1]] = (perColumn[result.hits[h + 1]] || 0) + 1;
+      }
 
-    const readProgress = Math.min(50, (offset / file.size) * 50);
-    onProgress(readProgress, `Reading... ${formatBytes(Math.min(offset, file.size))} / ${formatBytes(file.size)}`);
+      for (const bad of result.invalidPostal) {
+        invalidPostalCount++;
+        if (invalidPostalCount <= 5) addLog('🏠', `Invalid postal code "${bad.value}" in "${bad.column}" at row ${meta.row}`, 'warn');
+      }
+      for (const bad of result.invalidPhone) {
+        invalidPhoneCount++;
+        if (invalidPhoneCount <= 5) addLog('📞', `Invalid phone number "${bad.value}" in "${bad.column}" at row ${meta.row}`, 'warn');
+      }
 
-    const fullText = leftover + text;
-    const lines = fullText.split(/\r?\n|\r/);
-    leftover = offset < file.size ? (lines.pop() || '') : '';
+      // Skip empty rows (entirely empty)
+      if (config.removeEmpty && rawCells.every(c => !c.trim())) {
+        reject(rejectEntry(meta, 'empty', 'removed', 'every cell is empty'));
+        continue;
+      }
 
-    // ── HEADER PROCESSING (first line of first chunk only) ─────────────────
-    if (isFirstChunk && lines.length > 0) {
-      if (lines[0].charCodeAt(0) === 0xFEFF) lines[0] = lines[0].substring(1);
+      // Skip rows with any empty values (if user enabled this feature)
+      if (config.removeRowsWithEmptyValues && rawCells.some(c => !c.trim())) {
+        const empty = rawHeaders.filter((_, i) => i !== sourceIdColIndex && !rawCells[i].trim());
+        reject(rejectEntry(meta, 'empty-values', 'removed', `empty: ${empty.join(', ')}`));
+        continue;
+      }
 
-      separator = detectSeparator(lines[0]);
-      const sepName = separator === ',' ? 'Comma' : separator === '\t' ? 'Tab' : separator === ';' ? 'Semicolon' : separator === '|' ? 'Pipe' : 'Unknown';
-      addLog('🔍', `Separator: ${sepName} detected`);
+      // Duplicate detection — exclude source id column so dedup compares actual
+      // data values, not old (soon-to-be-replaced) id numbers.
+      // (keys are computed by transformRow; the map lives here so dedup
+      // stays global across every batch and worker)
+      let dedupScore: SurvivorScore = null;
+      let displaced: DedupWinner | undefined;
+      if (result.dedupKey !== null) {
+        if (seenBloom?.has(result.dedupKey)) {
+          reject(rejectEntry(meta, 'duplicate', 'removed', 'probable duplicate of an earlier row (Bloom filter)'));
+          continue;
+        }
+        dedupScore = survivorScore(rawCells, dedupPolicy, dedupOrderCol, sourceIdColIndex, meta.row);
+        displaced = seenKeys?.get(result.dedupKey);
+        if (displaced && !outranks(dedupScore, displaced.score, dedupPolicy)) {
+          reject(rejectEntry(meta, 'duplicate', 'removed', `duplicate of row ${displaced.row}`));
+          continue;
+        }
+      }
 
-      // Parse raw headers from the source file
-      rawHeaders = parseCSVLine(lines[0], separator).map(h => sanitizeColumnName(h));
+      // Schema rules judge the cleaned values of surviving rows
+      const schemaIssues: string[] = [];
+      if (schemaValidator) {
+        const violations = schemaValidator.validate(rawCells);
+        for (const v of violations) {
+          const perColumn = schemaCounts[v.rule] || (schemaCounts[v.rule] = {});
+          perColumn[v.column] = (perColumn[v.column] || 0) + 1;
+          if (++schemaViolations <= 5) addLog('📐', `Row ${meta.row}: ${v.message}`, 'warn');
+        }
+        const rejected = violations.filter(v => v.action === 'reject');
+        if (rejected.length > 0) {
+          schemaRejected++;
+          reject(rejectEntry(meta, 'schema', 'removed', rejected.map(v => v.message).join('; ')));
+          continue;
+        }
+        for (const v of violations) {
+          if (v.action === 'flag') {
+            schemaIssues.push(v.message);
+          } else if (rawCells[v.col]) {
+            // transformRow may have handed back the source cells the rejects file keeps
+            if (rawCells === meta.source) rawCells = [...rawCells];
+            if (config.trackChanges) result.changes.push({ col: v.col, before: rawCells[v.col], after: '', rule: `schema:${v.rule}` });
+            rawCells[v.col] = '';
+          }
+        }
+      }
 
-      // De-duplicate column names
-      const nameCount: Record<string, number> = {};
-      rawHeaders = rawHeaders.map(h => {
-        if (nameCount[h] !== undefined) { nameCount[h]++; return `${h}_${nameCount[h]}`; }
-        nameCount[h] = 0; return h;
-      });
+      // Cross-field validation runs on surviving rows only, so duplicates
+      // that were just dropped don't inflate the violation counts.
+      const crossFieldIssues: string[] = [];
+      for (const check of crossFieldChecks) {
+        const issue = check.validate(rawCells);
+        if (!issue) continue;
+        crossFieldIssues.push(issue);
+        crossFieldCounts[check.name] = (crossFieldCounts[check.name] || 0) + 1;
+      }
+      if (crossFieldIssues.length > 0) {
+        crossFieldViolations += crossFieldIssues.length;
+        if (crossFieldViolations <= 5) addLog('🔗', `Row ${meta.row}: ${crossFieldIssues.join('; ')}`, 'warn');
+        if (config.crossFieldAction === 'drop') {
+          crossFieldDropped++;
+          reject(rejectEntry(meta, 'cross-field', 'removed', crossFieldIssues.join('; ')));
+          continue;
+        }
+      }
 
-      addLog('📊', `Found ${rawHeaders.length} columns: ${rawHeaders.slice(0, 5).join(', ')}${rawHeaders.length > 5 ? '...' : ''}`);
+      // Numbers that can't be valid stay as written; the rejects file lists them
+      if (result.invalidPhone.length > 0) {
+        reject(rejectEntry(meta, 'invalid-phone', 'kept', result.invalidPhone.map(bad => `"${bad.value}" in ${bad.column}`).join('; ')));
+      }
 
-      // ── FIX: Build fileHeaders and track source id column cleanly ─────────
-      if (config.generateId) {
-        sourceIdColIndex = rawHeaders.findIndex(h => h.toLowerCase() === 'id');
+      // ── FIX: Assemble outputCells for fileHeaders with zero ambiguity ──
+      let outputCells: string[];
 
-        if (sourceIdColIndex === -1) {
-          // No id in source → prepend 'id' to output headers, keep all raw columns
-          fileHeaders = ['id', ...rawHeaders];
-          hasGeneratedId = true;
-          addLog('🆔', `No ID column found — adding new "id" column as first column`);
-        } else {
-          // Source already has 'id' → move it to front in output, regenerate values
-          // Remove it from its current position, then put it at index 0
-          const withoutId = rawHeaders.filter((_, i) => i !== sourceIdColIndex);
-          fileHeaders = ['id', ...withoutId];
-          hasGeneratedId = true;
-          addLog('🆔', `Existing "id" column found at source index ${sourceIdColIndex} — moving to first position and regenerating IDs`);
+      if (hasGeneratedId) {
+        // fileHeaders = ['id', col_a, col_b, ...]  (id-from-source removed from its old slot)
+        // rawCells    = [col_a, col_b, ..., (maybe id at sourceIdColIndex)]
+        //
+        // Build the data columns (everything except the source id column)
+        const dataCells: string[] = [];
+        for (let i = 0; i < rawHeaders.length; i++) {
+          if (i === sourceIdColIndex) continue; // skip the original id value
+          dataCells.push(rawCells[i]);
         }
+        // outputCells = sequential id + data columns
+        outputCells = [String(idCounter), ...dataCells];
+        idCounter++;
       } else {
-        // No id generation — output headers == raw headers exactly
-        fileHeaders = [...rawHeaders];
-        hasGeneratedId = false;
-        sourceIdColIndex = -1;
-      }
-
-      // Write header row — always done AFTER fileHeaders is finalised
-      cleanedDataChunks.push(fileHeaders.map(h => quoteCell(h)).join(',') + eolChar);
-      lines.shift();
-      isFirstChunk = false;
-    }
-
-    // ── ROW PROCESSING ─────────────────────────────────────────────────────
-    for (let li = 0; li < lines.length; li++) {
-      let line = lines[li];
-      if (!line.trim()) continue;
-      totalOriginalRows++;
-
-      try {
-        // Merge lines with unbalanced quotes (multi-line fields)
-        const countQuotes = (s: string) => (s.match(/"/g) || []).length;
-        if (countQuotes(line) % 2 === 1) {
-          let merges = 0;
-          while (li + 1 < lines.length && countQuotes(line) % 2 === 1 && merges < 50) {
-            li++;
-            merges++;
-            line += '\n' + lines[li];
-          }
-        }
+        outputCells = rawCells;
+      }
+      if (flagCrossField) outputCells = [...outputCells, crossFieldIssues.join('; ')];
+      if (flagSchema) outputCells = [...outputCells, schemaIssues.join('; ')];
 
-        // Parse the row — result always maps to rawHeaders
-        let rawCells = parseCSVLine(line, separator);
+      // Final safety clamp — should never be needed but guards against edge cases
+      if (outputCells.length < fileHeaders.length) {
+        while (outputCells.length < fileHeaders.length) outputCells.push('');
+      }
+      if (outputCells.length > fileHeaders.length) {
+        outputCells = outputCells.slice(0, fileHeaders.length);
+      }
 
-        // Normalise rawCells length to match rawHeaders (never fileHeaders)
-        if (rawCells.length !== rawHeaders.length) {
-          let merged = false;
-          let attempt = line;
-          for (let m = 1; m <= 10 && li + m < lines.length; m++) {
-            attempt += '\n' + lines[li + m];
-            const attemptCells = parseCSVLine(attempt, separator);
-            if (attemptCells.length === rawHeaders.length) {
-              rawCells = attemptCells;
-              li += m;
-              merged = true;
-              break;
-            }
-          }
+      if (config.fillMissing) recordFillStats(fillStats, outputCells);
+      // Fences come from the rows that made it into the output
+      for (let i = 0; i < outlierStats.length; i++) {
+        if (outlierStats[i] && isNumericValue(rawCells[i])) recordOutlierValue(outlierStats[i]!, parseFloat(rawCells[i]));
+      }
 
-          if (!merged) {
-            columnMismatchCount++;
-            const originalCount = rawCells.length;
-            if (rawCells.length < rawHeaders.length) {
-              while (rawCells.length < rawHeaders.length) rawCells.push('');
-            } else {
-              rawCells = rawCells.slice(0, rawHeaders.length);
-            }
-            if (columnMismatchCount <= 5) {
-              addLog('⚠️', `Column mismatch at row ${totalOriginalRows}: expected ${rawHeaders.length}, got ${originalCount}, normalized`, 'warn');
-            }
+      rowBuffer.push(outputCells.map(c => quoteCell(c)).join(','));
+      totalCleanedRows++;
+      if (trackSourceRows) outputSourceRows.push(meta.row);
+      // The key only changes hands once the row is surely in the output
+      if (result.dedupKey !== null) {
+        const winner: DedupWinner = { row: meta.row, line: meta.line, outputRow: totalCleanedRows, score: dedupScore };
+        if (displaced) await superseded.add(displaced, meta.row, true);
+        if (seenBloom) {
+          seenBloom.add(result.dedupKey);
+        } else if (seenKeys && !seenKeys.set(result.dedupKey, winner)) {
+          if (!dedupSpill) {
+            addLog('🔑', `Dedup memory budget of ${formatBytes(dedupBudget)} reached at row ${meta.row.toLocaleString()} (${seenKeys.size.toLocaleString()} keys) — new keys spill to disk`, 'warn');
+            dedupSpill = createDedupSpill(createStore ? await createStore() : createMemoryChunkStore(), fingerprintWords(config.dedupIndex), dedupBudget);
           }
+          dedupSpill.push(result.dedupKey, winner);
         }
+      }
+      for (const c of result.changes) {
+        recordChange(changes, { row: meta.row, outputRow: totalCleanedRows, column: rawHeaders[c.col], before: c.before, after: c.after, rule: c.rule });
+      }
 
-        // ── FIX: Build outputCells mapped to fileHeaders ──────────────────
-        // rawCells always aligns with rawHeaders.
-        // fileHeaders = ['id', ...rawHeaders_without_original_id]   (when hasGeneratedId)
-        //             = [...rawHeaders]                              (otherwise)
-        //
-        // We apply cleaning transforms to rawCells first (indexed by rawHeaders),
-        // then assemble outputCells for fileHeaders.
+      if (rowBuffer.length >= 1000) {
+        cleanedDataChunks.push(rowBuffer.join(eolChar) + eolChar);
+        rowBuffer = [];
+        await new Promise(r => setTimeout(r, 0));
+      }
+    }
+  };
 
-        let cellsFixed = 0;
+  const dispatchBatch = async () => {
+    if (batchRows.length > 0) {
+      inflight.push({ meta: batchMeta, results: runBatch(batchRows) });
+      batchRows = [];
+      batchMeta = [];
+    }
+    // Bound the number of batches in flight so memory stays flat
+    while (inflight.length > (pool ? pool.size * 2 : 0)) await mergeNextBatch();
+  };
 
-        // Apply cleaning transforms on rawCells (aligned to rawHeaders)
-        if (config.fixEncoding) {
-          rawCells = rawCells.map(c => { const f = fixEncodingIssues(c); if (f !== c) cellsFixed++; return f; });
-        }
-        if (config.trimWhitespace) {
-          rawCells = rawCells.map(c => { const o = c; const t = (c || '').replace(/\s+/g, ' ').trim(); if (o !== t) cellsFixed++; return t; });
-        }
-        if (config.normalizeValues) {
-          rawCells = rawCells.map(c => {
-            const val = (c || '').trim();
-            if (/^(null|NULL|Null|N\/A|n\/a|NA|na|none|None|NONE|undefined|Undefined|nil|NIL|\?|#N\/A|#VALUE!|#REF!|#NAME\?|#DIV\/0!|-|—|\.{2,})$/.test(val)) {
-              cellsFixed++; return '';
-            }
-            return val;
-          });
+  addLog('📂', `Mode: ${config.mode.toUpperCase()} | File: ${file.name} (${formatBytes(file.size)})`);
+
+  // Resolve the input charset from the first 64 KB (BOM / sniffing for 'Auto')
+  const sample = await readChunkAsBytes(file.slice(0, 64 * 1024));
+  const decoderLabel = resolveEncoding(config.encoding, sample);
+  const decoder = createStreamDecoder(decoderLabel);
+  const encodingName = encodingDisplayName(decoderLabel);
+  addLog('⚙️', `EOL: ${config.eol} | Encoding: ${config.encoding === 'Auto' ? `Auto → ${encodingName} detected` : encodingName}`);
+
+  try {
+    while (offset < file.size) {
+      if (pause?.paused && !signal?.aborted) {
+        onProgress(Math.min(50, (offset / file.size) * 50), `Paused at ${formatBytes(offset)} / ${formatBytes(file.size)}`);
+        addLog('⏸️', `Paused at ${formatBytes(offset)} (${totalOriginalRows.toLocaleString()} rows read)`);
+        await pause.wait(signal);
+        if (!signal?.aborted) addLog('▶️', `Resumed from ${formatBytes(offset)}`);
+      }
+      if (signal?.aborted) {
+        // Whatever the tokenizer still holds is an incomplete record — drop it
+        cancelled = true;
+        addLog('⏹️', `Cancelled at ${formatBytes(offset)} / ${formatBytes(file.size)} — keeping rows cleaned so far`, 'warn');
+        break;
+      }
+
+      const chunk = file.slice(offset, offset + CHUNK_SIZE);
+      offset += CHUNK_SIZE;
+      const text = decoder.decode(await readChunkAsBytes(chunk), offset >= file.size);
+
+      const readProgress = Math.min(50, (offset / file.size) * 50);
+      onProgress(readProgress, `Reading... ${formatBytes(Math.min(offset, file.size))} / ${formatBytes(file.size)}`);
+
+      let records: CSVRecord[];
+      if (!tokenizer) {
+        // Buffer until the first line is complete so the separator can be detected
+        headerText += text;
+        const firstEol = headerText.search(/[\r\n]/);
+        if (firstEol === -1 && offset < file.size) continue;
+        headerText = headerText.replace(/^\uFEFF/, '');
+        separator = detectSeparator(firstEol === -1 ? headerText : headerText.substring(0, firstEol));
+        const sepName = separator === ',' ? 'Comma' : separator === '\t' ? 'Tab' : separator === ';' ? 'Semicolon' : separator === '|' ? 'Pipe' : 'Unknown';
+        addLog('🔍', `Separator: ${sepName} detected`);
+        tokenizer = createCSVTokenizer({ separator, quote: config.quoteChar, escape: config.escapeChar });
+        records = tokenizer.push(headerText);
+        headerText = '';
+      } else {
+        records = tokenizer.push(text);
+      }
+      if (offset >= file.size) records.push(...tokenizer.end());
+
+      // ── HEADER PROCESSING (first record of the file only) ──────────────────
+      if (isFirstChunk && records.length > 0) {
+        // Parse raw headers from the source file
+        rawHeaders = sanitizeHeaders(records.shift()!.cells);
+
+        addLog('📊', `Found ${rawHeaders.length} columns: ${rawHeaders.slice(0, 5).join(', ')}${rawHeaders.length > 5 ? '...' : ''}`);
+
+        // ── FIX: Build fileHeaders and track source id column cleanly ─────────
+        if (config.generateId) {
+          sourceIdColIndex = rawHeaders.findIndex(h => h.toLowerCase() === 'id');
+
+          if (sourceIdColIndex === -1) {
+            // No id in source → prepend 'id' to output headers, keep all raw columns
+            fileHeaders = ['id', ...rawHeaders];
+            hasGeneratedId = true;
+            addLog('🆔', `No ID column found — adding new "id" column as first column`);
+          } else {
+            // Source already has 'id' → move it to front in output, regenerate values
+            // Remove it from its current position, then put it at index 0
+            const withoutId = rawHeaders.filter((_, i) => i !== sourceIdColIndex);
+            fileHeaders = ['id', ...withoutId];
+            hasGeneratedId = true;
+            addLog('🆔', `Existing "id" column found at source index ${sourceIdColIndex} — moving to first position and regenerating IDs`);
+          }
+        } else {
+          // No id generation — output headers == raw headers exactly
+          fileHeaders = [...rawHeaders];
+          hasGeneratedId = false;
+          sourceIdColIndex = -1;
         }
 
-        if (config.mode === 'advanced') {
-          for (let i = 0; i < rawCells.length; i++) {
-            // ── FIX: Never apply data transforms to the source id column.
-            // That slot is always replaced by a fresh sequential id in outputCells,
-            // so cleaning its old value (or using it for outlier / normalizeCase
-            // column-name lookups) would corrupt data and misname columns.
-            if (i === sourceIdColIndex) continue;
-
-            const colName = rawHeaders[i]; // rawHeaders always aligns 1-to-1 with rawCells
-            if (config.removeHtmlTags && rawCells[i] && /<[^>]+>/.test(rawCells[i])) {
-              const f = removeHtmlTagsFn(rawCells[i]); if (f !== rawCells[i]) { rawCells[i] = f; cellsFixed++; }
-            }
-            if (config.validateEmail && looksLikeEmail(rawCells[i])) {
-              const f = fixEmail(rawCells[i]); if (f !== rawCells[i]) { rawCells[i] = f; cellsFixed++; }
-            }
-            if (config.standardizePhone && isPhoneColumnName(colName) && looksLikePhone(rawCells[i])) {
-              const f = standardizePhoneFn(rawCells[i]); if (f !== rawCells[i]) { rawCells[i] = f; cellsFixed++; }
-            }
-            if (config.standardizeDate && isValidDate(rawCells[i])) {
-              const f = standardizeDateFn(rawCells[i]); if (f !== rawCells[i]) { rawCells[i] = f; cellsFixed++; }
-            }
-            if (config.normalizeCase && rawCells[i]) {
-              const f = normalizeCaseFn(rawCells[i], colName); if (f !== rawCells[i]) { rawCells[i] = f; cellsFixed++; }
-            }
-            if (config.removeSpecialChars && rawCells[i]) {
-              const f = removeSpecialCharsFn(rawCells[i]); if (f !== rawCells[i]) { rawCells[i] = f; cellsFixed++; }
-            }
-            if (config.fixNumberFormats && rawCells[i]) {
-              const f = fixNumberFormat(rawCells[i]); if (f !== rawCells[i]) { rawCells[i] = f; cellsFixed++; }
-            }
-            if (config.detectOutliers && rawCells[i]) {
-              const num = parseFloat(rawCells[i]);
-              if (!isNaN(num)) {
-                // ── FIX: Key numericColumns by rawHeaders index so the outlier
-                // report later can always resolve the name via rawHeaders[colIdx],
-                // regardless of whether an id column shifted fileHeaders by 1.
-                if (!numericColumns[i]) numericColumns[i] = [];
-                numericColumns[i].push(num);
-              }
-            }
+        if (config.crossFieldValidation) {
+          const rules = config.crossFieldRules.map(r => ({ ...r, left: sanitizeColumnName(r.left), right: sanitizeColumnName(r.right) }));
+          const built = buildCrossFieldChecks(rawHeaders, rules);
+          crossFieldChecks = built.checks;
+          for (const r of built.skipped) {
+            addLog('⚠️', `Cross-field rule "${r.left} ${r.op} ${r.right}" skipped: column not found`, 'warn');
           }
+          addLog('🔗', crossFieldChecks.length > 0
+            ? `Cross-field checks: ${crossFieldChecks.map(c => c.name).join(', ')}`
+            : 'Cross-field validation: no applicable column pairs found');
+          if (flagCrossField) fileHeaders.push(CROSS_FIELD_FLAG_COLUMN);
         }
 
-        totalFixedCells += cellsFixed;
+        if (Object.keys(config.validationSchema).length > 0) {
+          schema = Object.fromEntries(Object.entries(config.validationSchema).map(([c, r]) => [sanitizeColumnName(c), r]));
+          schemaValidator = createSchemaValidator(schema, rawHeaders);
+          for (const c of schemaValidator.skipped) addLog('⚠️', `Schema column "${c}" not found`, 'warn');
+          addLog('📐', schemaValidator.columns.length > 0
+            ? `Schema: checking ${schemaValidator.columns.join(', ')}`
+            : 'Schema: no rules apply to these columns');
+          flagSchema = schemaValidator.usesFlag;
+          if (flagSchema) fileHeaders.push(SCHEMA_FLAG_COLUMN);
+        }
 
-        // Skip empty rows (entirely empty)
-        if (config.removeEmpty && rawCells.every(c => !c.trim())) continue;
+        if (config.fillMissing) fillStats = createFillStats(fileHeaders.length);
 
-        // Skip rows with any empty values (if user enabled this feature)
-        if (config.removeRowsWithEmptyValues && rawCells.some(c => !c.trim())) {
-          continue;
+        if (config.standardizeAddress) {
+          addressRoles = rawHeaders.map(h => {
+            const override = config.addressColumns[h];
+            if (override === 'none') return null;
+            return override || detectAddressComponent(h);
+          });
+          countryColIndex = addressRoles.indexOf('country');
+          const found = rawHeaders.map((h, i) => (addressRoles[i] ? `${h} (${addressRoles[i]})` : '')).filter(Boolean);
+          addLog('🏠', found.length > 0 ? `Address columns: ${found.join(', ')}` : 'Standardize addresses: no address columns detected');
         }
 
-        // Duplicate detection — exclude source id column so dedup compares actual
-        // data values, not old (soon-to-be-replaced) id numbers.
-        const dedupeKey = rawCells.filter((_, i) => i !== sourceIdColIndex).join('\x00');
-        if (config.removeDuplicates) {
-          if (seenHashes.has(dedupeKey)) continue;
-          seenHashes.add(dedupeKey);
+        if (checkOutliers) {
+          const chosen = new Set(config.outlierColumns.map(sanitizeColumnName));
+          outlierStats = rawHeaders.map((h, i) => (i !== sourceIdColIndex && (chosen.size === 0 || chosen.has(h)) ? createOutlierStats() : null));
+          for (const c of chosen) if (!rawHeaders.includes(c)) addLog('⚠️', `Outlier column "${c}" not found`, 'warn');
         }
-        if (config.fuzzyDuplicates) {
-          const fuzzyKey = rawCells.filter((_, i) => i !== sourceIdColIndex).map(c => fuzzyNormalize(c)).join('\x00');
-          if (fuzzyHashes.has(fuzzyKey)) {
-            fuzzyDupCount++;
-            if (fuzzyDupCount <= 5) addLog('🔍', `Fuzzy duplicate removed at row ${totalOriginalRows}`, 'warn');
-            continue;
-          }
-          fuzzyHashes.add(fuzzyKey);
+
+        const columnRules = rawHeaders.map(h => config.columnRules[h] || null);
+        if (config.mode === 'advanced' && columnRules.some(Boolean)) {
+          addLog('🎛️', `Column rules: ${columnRules.filter(Boolean).length} of ${rawHeaders.length} columns configured`);
         }
 
-        // ── FIX: Assemble outputCells for fileHeaders with zero ambiguity ──
-        let outputCells: string[];
-
-        if (hasGeneratedId) {
-          // fileHeaders = ['id', col_a, col_b, ...]  (id-from-source removed from its old slot)
-          // rawCells    = [col_a, col_b, ..., (maybe id at sourceIdColIndex)]
-          //
-          // Build the data columns (everything except the source id column)
-          const dataCells: string[] = [];
-          for (let i = 0; i < rawHeaders.length; i++) {
-            if (i === sourceIdColIndex) continue; // skip the original id value
-            dataCells.push(rawCells[i]);
+        let dedupKeyColumns: number[] = [];
+        if (config.removeDuplicates) {
+          const wanted = config.dedupColumns.map(sanitizeColumnName);
+          for (const c of wanted) if (!rawHeaders.includes(c)) addLog('⚠️', `Dedup key column "${c}" not found`, 'warn');
+          dedupKeyColumns = rawHeaders.flatMap((h, i) => (wanted.includes(h) ? [i] : []));
+          if (wanted.length > 0 && dedupKeyColumns.length === 0) addLog('⚠️', 'No dedup key column found — comparing whole rows', 'warn');
+          const orderColumn = sanitizeColumnName(config.dedupOrderColumn);
+          dedupOrderCol = rawHeaders.indexOf(orderColumn);
+          if ((dedupPolicy === 'max' || dedupPolicy === 'min') && dedupOrderCol === -1) {
+            addLog('⚠️', `Dedup column "${orderColumn}" not found — keeping the first row`, 'warn');
+            dedupPolicy = 'first';
           }
-          // outputCells = sequential id + data columns
-          outputCells = [String(idCounter), ...dataCells];
-          idCounter++;
-        } else {
-          outputCells = rawCells;
+          if (config.dedupIndex === 'bloom') {
+            if (dedupPolicy !== 'first') {
+              addLog('⚠️', `The Bloom filter can only keep the first row — "${describePolicy(dedupPolicy, orderColumn)}" not applied`, 'warn');
+              dedupPolicy = 'first';
+            }
+            // Sized from the rows in the first chunk
+            const expected = records.length > 0 ? Math.ceil((records.length * file.size) / Math.min(offset, file.size)) : Math.ceil(file.size / 100);
+            seenBloom = createBloomFilter(expected, config.dedupFalsePositiveRate, dedupBudget);
+            addLog('🔑', `Probabilistic dedup: Bloom filter of ${formatBytes(seenBloom.bytes)} for ~${expected.toLocaleString()} rows, target false-positive rate ${formatRate(config.dedupFalsePositiveRate)}`);
+          } else {
+            seenKeys = createDedupIndex(fingerprintWords(config.dedupIndex), dedupPolicy, dedupBudget);
+          }
+          addLog('🔑', `Dedup key: ${dedupKeyColumns.length > 0 ? dedupKeyColumns.map(i => rawHeaders[i]).join(', ') : 'whole row'} · ${describePolicy(dedupPolicy, orderColumn)}`);
         }
 
-        // Final safety clamp — should never be needed but guards against edge cases
-        if (outputCells.length < fileHeaders.length) {
-          while (outputCells.length < fileHeaders.length) outputCells.push('');
+        if (config.standardizePhone) {
+          const column = config.phoneCountryColumn ? sanitizeColumnName(config.phoneCountryColumn) : '';
+          phoneCountryColIndex = column ? rawHeaders.indexOf(column) : -1;
+          if (column && phoneCountryColIndex === -1) addLog('⚠️', `Phone country column "${column}" not found`, 'warn');
+          const format = PHONE_FORMATS.find(f => f.value === config.phoneFormat)?.label || config.phoneFormat;
+          addLog('📞', `Phones: ${format} format, country ${phoneCountryColIndex !== -1 ? `from "${column}", else ` : ''}${config.phoneCountry}`);
         }
-        if (outputCells.length > fileHeaders.length) {
-          outputCells = outputCells.slice(0, fileHeaders.length);
+
+        rowCtx = { rawHeaders, sourceIdColIndex, addressRoles, countryColIndex, phoneCountryColIndex, columnRules, dedupKeyColumns };
+        if (createPool) {
+          pool = createPool(config, rowCtx);
+          addLog('⚡', `Transforming rows on ${pool.size} worker thread${pool.size === 1 ? '' : 's'}`);
         }
 
-        rowBuffer.push(outputCells.map(c => quoteCell(c)).join(','));
-        totalCleanedRows++;
+        // Write header row — always done AFTER fileHeaders is finalised
+        cleanedDataChunks.push(fileHeaders.map(h => quoteCell(h)).join(',') + eolChar);
+        rejects.headers = rejectHeaders(rawHeaders);
+        rejectChunks.push(rejects.headers.map(h => quoteCell(h)).join(','));
+        isFirstChunk = false;
+      }
 
-        if (rowBuffer.length >= 1000) {
-          cleanedDataChunks.push(rowBuffer.join(eolChar) + eolChar);
-          rowBuffer = [];
-          await new Promise(r => setTimeout(r, 0));
+      // ── ROW PROCESSING ─────────────────────────────────────────────────────
+      // Shape fixes happen here (they need row numbers for the log); the
+      // per-cell transforms run in the pool and merge back in order below.
+      for (const record of records) {
+        if (record.cells.length === 1 && !record.cells[0].trim()) continue;
+        totalOriginalRows++;
+
+        // The tokenizer already joined multi-line quoted fields; rawCells maps to rawHeaders
+        let rawCells = record.cells;
+        const meta: RowMeta = { row: totalOriginalRows, line: record.line, source: record.cells, shape: [] };
+
+        if (record.malformed) {
+          malformedCount++;
+          if (malformedCount <= 5) addLog('⚠️', `Malformed row ${totalOriginalRows}: ${record.malformed}`, 'warn');
+          meta.shape.push(rejectEntry(meta, 'parse-error', 'kept', record.malformed));
+        }
+
+        // Normalise rawCells length to match rawHeaders (never fileHeaders)
+        if (rawCells.length !== rawHeaders.length) {
+          columnMismatchCount++;
+          const originalCount = rawCells.length;
+          if (rawCells.length < rawHeaders.length) {
+            rawCells = [...rawCells, ...new Array<string>(rawHeaders.length - rawCells.length).fill('')];
+          } else {
+            rawCells = rawCells.slice(0, rawHeaders.length);
+          }
+          if (columnMismatchCount <= 5) {
+            addLog('⚠️', `Column mismatch at row ${totalOriginalRows} (line ${record.line}): expected ${rawHeaders.length}, got ${originalCount}, normalized`, 'warn');
+          }
+          meta.shape.push(rejectEntry(meta, 'column-mismatch', 'normalized', `expected ${rawHeaders.length} columns, got ${originalCount}`));
         }
-      } catch {
-        addLog('⚠️', `Skipped malformed row ${totalOriginalRows}`, 'warn');
+
+        batchRows.push(rawCells);
+        batchMeta.push(meta);
+        if (batchRows.length >= BATCH_SIZE) await dispatchBatch();
       }
-    }
 
-    if (totalOriginalRows % 5000 === 0 && totalOriginalRows > 0) {
-      onProgress(50 + ((offset / file.size) * 30), `${config.mode === 'advanced' ? 'AI Processing' : 'Processing'}... ${totalCleanedRows.toLocaleString()} rows`);
-      await new Promise(r => setTimeout(r, 0));
+      if (totalOriginalRows % 5000 === 0 && totalOriginalRows > 0) {
+        onProgress(50 + ((offset / file.size) * 30), `${config.mode === 'advanced' ? 'AI Processing' : 'Processing'}... ${totalCleanedRows.toLocaleString()} rows`);
+        await new Promise(r => setTimeout(r, 0));
+      }
     }
+
+    await dispatchBatch();
+    while (inflight.length > 0) await mergeNextBatch();
+  } catch (err) {
+    await cleanedDataChunks.discard();
+    await rejectChunks.discard();
+    await superseded.discard();
+    throw err;
+  } finally {
+    pool?.terminate();
   }
 
   if (rowBuffer.length > 0) {
     cleanedDataChunks.push(rowBuffer.join(eolChar));
   }
 
-  if (fuzzyDupCount > 5) addLog('🔍', `... and ${fuzzyDupCount - 5} more fuzzy duplicates removed`, 'warn');
+  // Dropping output rows after the fact: renumber what is keyed by output row
+  const rawToOutput = rawHeaders.map(h => fileHeaders.indexOf(h));
+  const dropOutput = (dropped: number[]) => {
+    totalCleanedRows -= dropped.length;
+    dropOutputRows(changes, dropped);
+    if (!trackSourceRows) return;
+    const gone = new Set(dropped);
+    const kept = outputSourceRows.filter((_, k) => !gone.has(k + 1));
+    outputSourceRows.splice(0, outputSourceRows.length, ...kept);
+  };
+
+  if (seenKeys) {
+    addLog('🔑', `Dedup memory: ${formatBytes(seenKeys.bytes)} for ${seenKeys.size.toLocaleString()} keys (${fingerprintWords(config.dedupIndex) * 32}-bit fingerprints)`);
+  }
+  if (seenBloom) {
+    const rate = seenBloom.falsePositiveRate();
+    addLog('🔑', `Dedup memory: ${formatBytes(seenBloom.bytes)} Bloom filter, ${seenBloom.hashes} hashes, ${seenBloom.size.toLocaleString()} keys — expected false-positive rate ${formatRate(rate)}`,
+      rate > config.dedupFalsePositiveRate * 1.5 ? 'warn' : '');
+  }
+  if (dedupSpill) {
+    onProgress(78, 'Resolving spilled dedup keys...');
+    const spilled = dedupSpill.count;
+    const { partitions, keys } = await dedupSpill.resolve(dedupPolicy, (loser, winner, replaced) => superseded.add(loser, winner.row, replaced));
+    await dedupSpill.discard();
+    addLog('🔑', `Dedup spill: ${spilled.toLocaleString()} rows with ${keys.toLocaleString()} keys resolved from disk in ${partitions} partition${partitions === 1 ? '' : 's'}`);
+  }
+
+  if (superseded.size > 0) {
+    onProgress(80, 'Removing superseded duplicates...');
+    const policy = describePolicy(dedupPolicy, sanitizeColumnName(config.dedupOrderColumn));
+    let replacedCount = 0;
+    const dropped = await dropRowsPass(cleanedDataChunks, superseded, eolChar, hasGeneratedId, (outputRow, cells) => {
+      const { row, line, by, replaced } = superseded.get(outputRow)!;
+      if (replaced) replacedCount++;
+      reject({
+        row, line, reason: 'duplicate', action: 'removed',
+        detail: replaced ? `duplicate of row ${by}, which replaced it (${policy})` : `duplicate of row ${by}`,
+        cells: rawToOutput.map(j => (j === -1 ? '' : cells[j])),
+      });
+    });
+    await superseded.discard();
+    dropOutput(dropped);
+    if (replacedCount > 0) addLog('🔁', `Duplicates: ${replacedCount.toLocaleString()} earlier rows replaced by a later one (${policy})`);
+    if (dropped.length > replacedCount) addLog('🔁', `Duplicates: ${(dropped.length - replacedCount).toLocaleString()} rows with spilled keys removed`);
+  }
+
+  // ── OUTLIERS ────────────────────────────────────────────────────────────
+  // Fences need every value, so acting on them is a second pass over the output
+  const outlierCounts: Record<string, number> = {};
+  if (checkOutliers && totalCleanedRows > 0) {
+    onProgress(82, 'Checking outliers...');
+    const targets: OutlierTarget[] = [];
+    outlierStats.forEach((s, i) => {
+      const fences = s ? computeFences(s, config.outlierMethod, config.outlierThreshold) : null;
+      if (fences) targets.push({ col: fileHeaders.indexOf(rawHeaders[i]), name: rawHeaders[i], fences });
+    });
+    const action = config.outlierAction;
+    if (action === 'flag') fileHeaders.push(...targets.map(t => t.name + OUTLIER_FLAG_SUFFIX));
+    if (config.fillMissing && action === 'flag') fillStats.push(...createFillStats(targets.length));
+
+    const result = await outlierPass(cleanedDataChunks, targets, action, eolChar, {
+      headerLine: fileHeaders.map(h => quoteCell(h)).join(',') + eolChar,
+      renumberId: hasGeneratedId,
+      onDrop: (outputRow, cells, detail) => reject({
+        row: outputSourceRows[outputRow - 1], line: 0, reason: 'outlier', action: 'removed', detail,
+        cells: rawToOutput.map(j => (j === -1 ? '' : cells[j])),
+      }),
+      onChange: config.trackChanges
+        ? (outputRow, col, before, after) => recordChange(changes, { row: outputSourceRows[outputRow - 1], outputRow, column: fileHeaders[col], before, after, rule: `outlier:${action}` })
+        : undefined,
+    });
+    targets.forEach((t, k) => {
+      if (result.counts[k] === 0) return;
+      outlierCounts[t.name] = result.counts[k];
+      addLog('📊', `Column "${t.name}" has ${result.counts[k].toLocaleString()} potential outliers (outside ${formatFence(t.fences.lo)} … ${formatFence(t.fences.hi)})`, 'warn');
+    });
+    const total = result.counts.reduce((a, b) => a + b, 0);
+    if (total === 0) addLog('📊', 'No outliers detected', 'success');
+    else if (action === 'flag') addLog('📊', `Outliers flagged in ${targets.length} "${OUTLIER_FLAG_SUFFIX}" column${targets.length === 1 ? '' : 's'}`);
+    else if (action === 'cap') addLog('📊', `Outliers capped to the fences: ${total.toLocaleString()} cells`);
+    else if (action === 'empty') addLog('📊', `Outliers emptied: ${total.toLocaleString()} cells`);
+    if (result.dropped.length > 0) {
+      addLog('🗑️', `Outliers: dropped ${result.dropped.length.toLocaleString()} rows`, 'warn');
+      dropOutput(result.dropped);
+    }
+  }
+  if (rejectBuffer.length > 0) rejectChunks.push(eolChar + rejectBuffer.join(eolChar));
+  if (rejects.count > 0) {
+    const stored = await rejectChunks.finish();
+    rejects.output = stored.output;
+    rejects.storage = stored.storage;
+  } else {
+    await rejectChunks.discard();
+  }
+
+  if (invalidPostalCount > 0) addLog('🏠', `Invalid postal codes: ${invalidPostalCount.toLocaleString()} cells left unchanged`, 'warn');
+  if (invalidPhoneCount > 0) addLog('📞', `Invalid phone numbers: ${invalidPhoneCount.toLocaleString()} cells left unchanged and listed in the rejects file`, 'warn');
+
+  if (crossFieldViolations > 0) {
+    for (const [name, count] of Object.entries(crossFieldCounts)) {
+      addLog('🔗', `Cross-field "${name}": ${count.toLocaleString()} violations`, 'warn');
+    }
+    if (crossFieldDropped > 0) addLog('🗑️', `Cross-field: dropped ${crossFieldDropped.toLocaleString()} rows`, 'warn');
+  } else if (config.crossFieldValidation && crossFieldChecks.length > 0) {
+    addLog('🔗', 'Cross-field validation passed', 'success');
+  }
+
+  if (schemaViolations > 0) {
+    for (const [rule, perColumn] of Object.entries(schemaCounts)) {
+      for (const [column, count] of Object.entries(perColumn)) {
+        addLog('📐', `Schema "${column}" ${rule}: ${count.toLocaleString()} violations (${schema[column].actions[rule as SchemaRuleKind]})`, 'warn');
+      }
+    }
+    if (schemaRejected > 0) addLog('🗑️', `Schema: rejected ${schemaRejected.toLocaleString()} rows`, 'warn');
+  } else if (schemaValidator && schemaValidator.columns.length > 0) {
+    addLog('📐', 'Schema validation passed', 'success');
+  }
 
   const stats: CleaningStats = {
     original: totalOriginalRows, cleaned: totalCleanedRows,
     removed: totalOriginalRows - totalCleanedRows, cols: fileHeaders.length, fixed: totalFixedCells,
+    crossFieldViolations, imputed: {}, removals, outliers: outlierCounts, schema: schemaCounts,
+    transforms: Object.fromEntries(transformHits.flatMap((perColumn, r) => perColumn
+      ? [[TRANSFORM_RULES[r].key, Object.fromEntries(perColumn.flatMap((n, c) => (n ? [[rawHeaders[c], n]] : [])))]]
+      : [])),
   };
 
   addLog('✓', `Processed: ${stats.original.toLocaleString()} → ${stats.cleaned.toLocaleString()} rows`);
   if (stats.removed > 0) addLog('🗑️', `Removed: ${stats.removed.toLocaleString()} rows`, 'warn');
   if (config.mode === 'advanced' && stats.fixed > 0) addLog('🤖', `AI Fixed: ${stats.fixed.toLocaleString()} cells`, 'success');
+  if (malformedCount > 0) addLog('⚠️', `Malformed rows: ${malformedCount.toLocaleString()} did not follow the quoting rules and were kept as parsed`, 'warn');
   if (columnMismatchCount > 0) addLog('⚠️', `Column mismatches: ${columnMismatchCount.toLocaleString()} rows had incorrect column counts`, 'warn');
+  if (config.trackChanges) {
+    addLog('📝', changes.total > changes.limit
+      ? `Change log: ${changes.total.toLocaleString()} cell changes, first ${changes.limit.toLocaleString()} kept`
+      : `Change log: ${changes.total.toLocaleString()} cell changes recorded`);
+  }
+  if (rejects.count > 0) addLog('🚫', `Rejects file: ${rejects.count.toLocaleString()} rows with their reasons`);
 
   onProgress(85, 'Detecting column types...');
-  const sampleData = getAllDataRows(cleanedDataChunks, 500, separator);
+  const sampleData = getAllDataRows(cleanedDataChunks, 500);
   const columnTypes = detectColumnTypes(fileHeaders, sampleData);
   addLog('✓', 'Column types detected');
 
-  if (config.detectOutliers && Object.keys(numericColumns).length > 0) {
-    let outlierCount = 0;
-    for (const [colIdx, values] of Object.entries(numericColumns)) {
-      if (values.length < 10) continue;
-      const sorted = [...values].sort((a, b) => a - b);
-      const q1 = sorted[Math.floor(sorted.length * 0.25)];
-      const q3 = sorted[Math.floor(sorted.length * 0.75)];
-      const iqr = q3 - q1;
-      const outliers = values.filter(v => v < q1 - 1.5 * iqr || v > q3 + 1.5 * iqr).length;
-      if (outliers > 0) {
-        outlierCount += outliers;
-        // ── FIX: numericColumns is keyed by rawHeaders index, so always look up
-        // the column name via rawHeaders — fileHeaders may be offset by 1 when an
-        // id column was prepended, which would name the wrong column.
-        addLog('📊', `Column "${rawHeaders[parseInt(colIdx)]}" has ${outliers} potential outliers`, 'warn');
+  if (config.fillMissing && totalCleanedRows > 0) {
+    onProgress(90, 'Filling missing values...');
+    // Flag columns are empty for rows that passed — that's not "missing"
+    const settings = {
+      ...config.fillSettings,
+      ...(flagCrossField ? { [CROSS_FIELD_FLAG_COLUMN]: { strategy: 'none' as const } } : {}),
+      ...(flagSchema ? { [SCHEMA_FLAG_COLUMN]: { strategy: 'none' as const } } : {}),
+    };
+    const plan = resolveFillPlan(fileHeaders, columnTypes, settings, fillStats);
+    const { filled, unfilled } = await fillMissingPass(cleanedDataChunks, plan, eolChar, config.trackChanges
+      ? (outputRow, col, value) => recordChange(changes, { row: outputSourceRows[outputRow - 1], outputRow, column: fileHeaders[col], before: '', after: value, rule: `fillMissing:${plan[col].strategy}` })
+      : undefined);
+    let totalFilled = 0;
+    fileHeaders.forEach((h, i) => {
+      if (filled[i] === 0) return;
+      stats.imputed[h] = filled[i];
+      totalFilled += filled[i];
+      addLog('🩹', `Filled ${filled[i].toLocaleString()} empty cells in "${h}" (${describeFillPlan(plan[i])})`);
+    });
+    fileHeaders.forEach((h, i) => {
+      if (unfilled[i] > 0) addLog('⚠️', `Left ${unfilled[i].toLocaleString()} cells in "${h}" empty: no value to back-fill from within ${MAX_BFILL_HELD_ROWS.toLocaleString()} rows`, 'warn');
+    });
+    addLog('🩹', totalFilled > 0 ? `Imputed ${totalFilled.toLocaleString()} cells in total` : 'No missing values to fill', totalFilled > 0 ? 'success' : '');
+    // Fill entries were appended after every transform entry; put them back in row order
+    if (config.trackChanges) changes.entries.sort((a, b) => a.outputRow - b.outputRow);
+  }
+
+  let fuzzy: FuzzyReview | null = null;
+  if (config.fuzzyDuplicates && totalCleanedRows > 1) {
+    onProgress(95, 'Matching fuzzy duplicates...');
+    const wanted = config.fuzzyMatch.columns.map(sanitizeColumnName);
+    for (const c of wanted) if (!fileHeaders.includes(c)) addLog('⚠️', `Fuzzy key column "${c}" not found`, 'warn');
+    // Generated ids and flag columns never make two rows alike
+    const keyColumns = fileHeaders.flatMap((h, i) => (wanted.length > 0
+      ? wanted.includes(h)
+      : !(hasGeneratedId && i === 0) && !(flagCrossField && h === CROSS_FIELD_FLAG_COLUMN) && !(flagSchema && h === SCHEMA_FLAG_COLUMN) && !h.endsWith(OUTLIER_FLAG_SUFFIX)) ? [i] : []);
+    const clusters = await findFuzzyClusters(cleanedDataChunks, keyColumns, config.fuzzyMatch, outputSourceRows, addLog);
+    fuzzy = { clusters, generatedId: hasGeneratedId, trackChanges: config.trackChanges, eol: eolChar };
+  }
+
+  if (cancelled) {
+    onProgress(100, 'Cancelled — partial results');
+    addLog('⏹️', `Partial results ready: ${totalCleanedRows.toLocaleString()} rows`, 'warn');
+  } else {
+    onProgress(100, 'Complete!');
+    addLog('🎉', `${config.mode === 'advanced' ? 'Advanced AI' : 'Standard'} cleaning complete!`, 'success');
+  }
+
+  // Output is always comma-separated, whatever separator the input used
+  const { output, storage } = await cleanedDataChunks.finish();
+  return { output, storage, headers: fileHeaders, columnTypes, stats, separator: ',', eol: eolChar, cancelled, rejects, changes, fuzzy };
+}
+
+// Second pass for fillMissing: re-reads the stored output chunks (chunk 0 is
+// the header line) and rewrites them in place with imputed values. Returns
+// the number of cells filled per column, and of back-fill gaps given up on.
+async function fillMissingPass(
+  chunks: ChunkStore,
+  plan: ColumnFillPlan[],
+  eolChar: string,
+  onFill?: (outputRow: number, col: number, value: string) => void
+): Promise<{ filled: number[]; unfilled: number[] }> {
+  const filler = createFiller(plan);
+  const rewritten = chunks.rewrite();
+  rewritten.push(chunks.at(0));
+  let pending: string[] = [];
+  // The filler hands rows back in input order, so a FIFO of the inputs lines
+  // them up again to report which cells were filled
+  const inputs: string[][] = [];
+  let outputRow = 0;
+  const emit = (rows: string[][]) => {
+    for (const row of rows) {
+      if (onFill) {
+        const input = inputs.shift()!;
+        outputRow++;
+        row.forEach((c, i) => { if (c && !input[i]) onFill(outputRow, i, c); });
       }
+      pending.push(row.map(c => quoteCell(c)).join(','));
+    }
+    if (pending.length >= 1000) {
+      rewritten.push(pending.join(eolChar) + eolChar);
+      pending = [];
+    }
+  };
+  const tokenizer = createCSVTokenizer(OUTPUT_DIALECT);
+  for (let c = 1; c <= chunks.length; c++) {
+    const records = c < chunks.length ? tokenizer.push(chunks.at(c)) : tokenizer.end();
+    for (const record of records) {
+      if (onFill) inputs.push(record.cells);
+      emit(filler.push(record.cells));
     }
-    if (outlierCount === 0) addLog('📊', 'No outliers detected', 'success');
+    await new Promise(r => setTimeout(r, 0));
+  }
+  emit(filler.flush());
+  if (pending.length > 0) rewritten.push(pending.join(eolChar));
+  rewritten.commit();
+  return { filled: filler.filled, unfilled: filler.unfilled };
+}
+
+// ── FUZZY DUPLICATES ──────────────────────────────────────────────────────
+
+// Scores the finished output for fuzzy duplicates, then collects the cells of
+// every clustered row in a second read so the review can show them.
+async function findFuzzyClusters(
+  chunks: ChunkStore,
+  keyColumns: number[],
+  config: FuzzyMatchConfig,
+  sourceRows: number[],
+  addLog: (icon: string, msg: string, type?: LogEntry['type']) => void
+): Promise<FuzzyCluster[]> {
+  const matcher = createFuzzyMatcher(config, keyColumns);
+  let n = 0;
+  for (const cells of iterateDataRows(chunks)) {
+    matcher.push(cells);
+    if (++n % 5000 === 0) await new Promise(r => setTimeout(r, 0));
+  }
+  const { clusters: groups, comparisons } = matcher.finish();
+  const clusters: FuzzyCluster[] = groups.map((g, id) => ({ id, score: g.score, rows: g.rows, sourceRows: g.rows.map(r => sourceRows[r - 1]), cells: [] }));
+  const memberOf = new Map<number, FuzzyCluster>();
+  for (const c of clusters) for (const r of c.rows) memberOf.set(r, c);
+  n = 0;
+  for (const cells of iterateDataRows(chunks)) {
+    memberOf.get(++n)?.cells.push(cells);
   }
 
-  onProgress(100, 'Complete!');
-  addLog('🎉', `${config.mode === 'advanced' ? 'Advanced AI' : 'Standard'} cleaning complete!`, 'success');
+  const rows = clusters.reduce((s, c) => s + c.rows.length, 0);
+  addLog('🔍', `Fuzzy matching: ${comparisons.toLocaleString()} pairs compared on ${keyColumns.length} key column${keyColumns.length === 1 ? '' : 's'}`);
+  if (clusters.length > 0) addLog('🔍', `${clusters.length.toLocaleString()} fuzzy duplicate clusters (${rows.toLocaleString()} rows) awaiting review`, 'warn');
+  else addLog('🔍', 'No fuzzy duplicates found', 'success');
+  return clusters;
+}
+
+// Applies the reviewed clusters to a run's output: non-survivors move to the
+// rejects file, chosen field values are merged into each survivor, and
+// generated ids are renumbered. Clusters without a resolution keep their first
+// row. The given result is left as it was; the reviewed one is returned,
+// its output written to storage of its own.
+export async function applyFuzzyReview(
+  result: CleaningResult,
+  review: FuzzyReview,
+  resolutions: Record<number, FuzzyResolution>
+): Promise<{ result: CleaningResult; removed: number; merged: number }> {
+  if (result.output.size === 0) return { result, removed: 0, merged: 0 };
+  const { headers } = result;
+  const rejects: RejectLog = { ...result.rejects, counts: { ...result.rejects.counts } };
+  const changes: ChangeLog = { ...result.changes, entries: result.changes.entries.map(e => ({ ...e })) };
+  const drop = new Map<number, { cluster: FuzzyCluster; survivor: number }>();
+  const merges = new Map<number, { cluster: FuzzyCluster; merged: Record<number, string> }>();
+  for (const cluster of review.clusters) {
+    const resolution = resolutions[cluster.id] || defaultResolution(cluster);
+    if (resolution.survivor === null) continue;
+    for (const r of cluster.rows) if (r !== resolution.survivor) drop.set(r, { cluster, survivor: resolution.survivor });
+    merges.set(resolution.survivor, { cluster, merged: resolution.merged });
+  }
 
-  return { cleanedChunks: cleanedDataChunks, headers: fileHeaders, columnTypes, stats, separator };
+  const eol = review.eol;
+  const writer = await createOutputWriter('output.csv', 'text/csv');
+  await writer.write(headers.map(h => quoteCell(h)).join(',') + eol);
+  let pending: string[] = [];
+  const rejectLines: string[] = [];
+  const rejectWidth = rejects.headers.length - REJECT_META_COLUMNS.length - 1;
+  const rejectColumns = rejects.headers.slice(REJECT_META_COLUMNS.length, -1).map(h => headers.indexOf(h));
+  const dropped: number[] = [];
+  let outputRow = 0;
+  let kept = 0;
+  let merged = 0;
+  for await (const cells of readDataRows(result.output)) {
+    outputRow++;
+    const gone = drop.get(outputRow);
+    if (gone) {
+      dropped.push(outputRow);
+      const { cluster, survivor } = gone;
+      const similarity = cluster.score.toFixed(2);
+      const entry: RejectEntry = {
+        row: cluster.sourceRows[cluster.rows.indexOf(outputRow)], line: 0, reason: 'fuzzy-duplicate', action: 'removed',
+        detail: `fuzzy duplicate of row ${cluster.sourceRows[cluster.rows.indexOf(survivor)]} (similarity ≥ ${similarity})`,
+        cells: rejectColumns.map(j => (j === -1 ? '' : cells[j])),
+      };
+      if (rejectWidth >= 0) rejectLines.push(rejectRowCells(entry, rejectWidth).map(c => quoteCell(c)).join(','));
+      continue;
+    }
+    const merge = merges.get(outputRow);
+    if (merge) {
+      for (const [col, value] of Object.entries(merge.merged)) {
+        const i = Number(col);
+        if (cells[i] === value) continue;
+        if (review.trackChanges) {
+          recordChange(changes, {
+            row: merge.cluster.sourceRows[merge.cluster.rows.indexOf(outputRow)], outputRow,
+            column: headers[i], before: cells[i], after: value, rule: 'fuzzyMerge',
+          });
+        }
+        cells[i] = value;
+        merged++;
+      }
+    }
+    kept++;
+    if (review.generatedId) cells[0] = String(kept);
+    pending.push(cells.map(c => quoteCell(c)).join(','));
+    if (pending.length >= 1000) {
+      await writer.write(pending.join(eol) + eol);
+      pending = [];
+    }
+  }
+  if (pending.length > 0) await writer.write(pending.join(eol));
+  const { output, storage } = await writer.close();
+
+  // The rejects file never ends with a line break, so the new lines can follow it
+  if (rejectLines.length > 0) {
+    rejects.output = new Blob([rejects.output, eol + rejectLines.join(eol)], { type: 'text/csv' });
+    rejects.count += rejectLines.length;
+    rejects.counts['fuzzy-duplicate'] = (rejects.counts['fuzzy-duplicate'] || 0) + rejectLines.length;
+  }
+  // Merge entries went to the end of the log; restore row order before renumbering
+  if (merged > 0 && review.trackChanges) changes.entries.sort((a, b) => a.outputRow - b.outputRow);
+  dropOutputRows(changes, dropped);
+  return { result: { ...result, output, storage, rejects, changes }, removed: dropped.length, merged };
+}
+
+// ── PROFILING ─────────────────────────────────────────────────────────────
+
+// Header names and sampled column types from the first 64 KB, decoded and
+// tokenized as processFile will, for the per-column settings on the options
+// screen. The last record is cut off unless the whole file fit in the sample.
+export async function sampleFile(
+  file: File,
+  dialect: { encoding: string; quoteChar: string; escapeChar: string }
+): Promise<{ headers: string[]; types: ColumnTypes }> {
+  const SAMPLE_SIZE = 64 * 1024;
+  const whole = file.size <= SAMPLE_SIZE;
+  const sample = await readChunkAsBytes(file.slice(0, SAMPLE_SIZE));
+  // Stream mode holds back a multi-byte character cut at the sample's end
+  const text = createStreamDecoder(resolveEncoding(dialect.encoding, sample)).decode(sample, whole).replace(/^\uFEFF/, '');
+  const firstEol = text.search(/[\r\n]/);
+  const separator = detectSeparator(firstEol === -1 ? text : text.substring(0, firstEol));
+  const tokenizer = createCSVTokenizer({ separator, quote: dialect.quoteChar, escape: dialect.escapeChar });
+  const records = [...tokenizer.push(text), ...(whole ? tokenizer.end() : [])];
+  if (records.length === 0) return { headers: [], types: {} };
+  const headers = sanitizeHeaders(records[0].cells);
+  const rows = records.slice(1).filter(r => !(r.cells.length === 1 && !r.cells[0].trim())).map(r => r.cells);
+  return { headers, types: detectColumnTypes(headers, rows) };
+}
+
+// Profile of the source file, read with the same chunking, charset resolution
+// and tokenizer as processFile, so the column names match the output's.
+export async function profileFile(
+  file: File,
+  dialect: { encoding: string; quoteChar: string; escapeChar: string },
+  onProgress: (percent: number) => void = () => {},
+  signal?: AbortSignal
+): Promise<DataProfile> {
+  const CHUNK_SIZE = 1024 * 1024;
+  const sample = await readChunkAsBytes(file.slice(0, 64 * 1024));
+  const decoder = createStreamDecoder(resolveEncoding(dialect.encoding, sample));
+  let tokenizer: CSVTokenizer | null = null;
+  let headerText = '';
+  let profiler: Profiler | null = null;
+
+  for (let offset = 0; offset < file.size && !signal?.aborted;) {
+    const chunk = file.slice(offset, offset + CHUNK_SIZE);
+    offset += CHUNK_SIZE;
+    const text = decoder.decode(await readChunkAsBytes(chunk), offset >= file.size);
+
+    let records: CSVRecord[];
+    if (!tokenizer) {
+      headerText += text;
+      const firstEol = headerText.search(/[\r\n]/);
+      if (firstEol === -1 && offset < file.size) continue;
+      headerText = headerText.replace(/^\uFEFF/, '');
+      const separator = detectSeparator(firstEol === -1 ? headerText : headerText.substring(0, firstEol));
+      tokenizer = createCSVTokenizer({ separator, quote: dialect.quoteChar, escape: dialect.escapeChar });
+      records = tokenizer.push(headerText);
+      headerText = '';
+    } else {
+      records = tokenizer.push(text);
+    }
+    if (offset >= file.size) records.push(...tokenizer.end());
+
+    for (const record of records) {
+      if (!profiler) { profiler = createProfiler(sanitizeHeaders(record.cells)); continue; }
+      if (record.cells.length === 1 && !record.cells[0].trim()) continue;
+      profiler.push(record.cells);
+    }
+    onProgress(Math.min(100, (offset / file.size) * 100));
+    await new Promise(r => setTimeout(r, 0));
+  }
+  return (profiler || createProfiler([])).finish('Input', file.name);
+}
+
+// Profile of a run's cleaned output
+export async function profileOutput(result: CleaningResult): Promise<DataProfile | null> {
+  if (result.output.size === 0) return null;
+  const profiler = createProfiler(result.headers);
+  for await (const cells of readDataRows(result.output, result.separator)) profiler.push(cells);
+  return profiler.finish('Output', (result.fileName || 'data').replace(/\.[^.]+$/, '') + '_cleaned.csv');
+}
+
+// Removes the given output rows from the cleaned chunks, renumbering a
+// generated id column. Returns the dropped (1-based) output rows in order.
+async function dropRowsPass(
+  chunks: ChunkStore,
+  drop: { has(outputRow: number): boolean },
+  eolChar: string,
+  renumberId: boolean,
+  onDrop: (outputRow: number, cells: string[]) => void
+): Promise<number[]> {
+  const rewritten = chunks.rewrite();
+  rewritten.push(chunks.at(0));
+  let pending: string[] = [];
+  const dropped: number[] = [];
+  let outputRow = 0;
+  const tokenizer = createCSVTokenizer(OUTPUT_DIALECT);
+  for (let c = 1; c <= chunks.length; c++) {
+    const records = c < chunks.length ? tokenizer.push(chunks.at(c)) : tokenizer.end();
+    for (const record of records) {
+      outputRow++;
+      if (drop.has(outputRow)) {
+        dropped.push(outputRow);
+        onDrop(outputRow, record.cells);
+        continue;
+      }
+      if (renumberId) record.cells[0] = String(outputRow - dropped.length);
+      pending.push(record.cells.map(cell => quoteCell(cell)).join(','));
+      if (pending.length >= 1000) {
+        rewritten.push(pending.join(eolChar) + eolChar);
+        pending = [];
+      }
+    }
+    await new Promise(r => setTimeout(r, 0));
+  }
+  if (pending.length > 0) rewritten.push(pending.join(eolChar));
+  rewritten.commit();
+  return dropped;
+}
+
+interface OutlierTarget {
+  col: number;  // fileHeaders index
+  name: string;
+  fences: OutlierFences;
+}
+
+// Second pass for outliers: counts values outside each target's fences and,
+// unless the action is 'log', rewrites the stored output chunks in place.
+// Returns per-target counts and the (1-based) output rows that were dropped.
+async function outlierPass(
+  chunks: ChunkStore,
+  targets: OutlierTarget[],
+  action: OutlierAction,
+  eolChar: string,
+  hooks: {
+    headerLine: string;
+    renumberId: boolean;
+    onDrop: (outputRow: number, cells: string[], detail: string) => void;
+    onChange?: (outputRow: number, col: number, before: string, after: string) => void;
+  }
+): Promise<{ counts: number[]; dropped: number[] }> {
+  const counts = targets.map(() => 0);
+  const dropped: number[] = [];
+  const rewrite = action !== 'log';
+  const rewritten = chunks.rewrite();
+  rewritten.push(hooks.headerLine);
+  let pending: string[] = [];
+  let outputRow = 0;
+  let kept = 0;
+  const tokenizer = createCSVTokenizer(OUTPUT_DIALECT);
+  for (let c = 1; c <= chunks.length; c++) {
+    const records = c < chunks.length ? tokenizer.push(chunks.at(c)) : tokenizer.end();
+    for (const record of records) {
+      outputRow++;
+      let cells = record.cells;
+      const flags: string[] = [];
+      const hits: string[] = [];
+      targets.forEach((t, k) => {
+        const v = cells[t.col] || '';
+        const num = isNumericValue(v) ? parseFloat(v) : NaN;
+        const out = num < t.fences.lo || num > t.fences.hi;
+        flags.push(out ? 'true' : 'false');
+        if (!out) return;
+        counts[k]++;
+        hits.push(`${t.name}=${v} outside ${formatFence(t.fences.lo)} … ${formatFence(t.fences.hi)}`);
+        if (action === 'cap' || action === 'empty') {
+          const after = action === 'empty' ? '' : formatFence(num < t.fences.lo ? t.fences.lo : t.fences.hi);
+          hooks.onChange?.(outputRow, t.col, v, after);
+          cells[t.col] = after;
+        }
+      });
+      if (!rewrite) continue;
+      if (action === 'drop' && hits.length > 0) {
+        dropped.push(outputRow);
+        hooks.onDrop(outputRow, cells, hits.join('; '));
+        continue;
+      }
+      kept++;
+      if (action === 'drop' && hooks.renumberId) cells[0] = String(kept);
+      if (action === 'flag') cells = [...cells, ...flags];
+      pending.push(cells.map(cell => quoteCell(cell)).join(','));
+      if (pending.length >= 1000) {
+        rewritten.push(pending.join(eolChar) + eolChar);
+        pending = [];
+      }
+    }
+    await new Promise(r => setTimeout(r, 0));
+  }
+  if (rewrite) {
+    if (pending.length > 0) rewritten.push(pending.join(eolChar));
+    rewritten.commit();
+  }
+  return { counts, dropped };
 }
 
-function readChunkAsText(blob: Blob): Promise<string> {
+// Raw bytes are decoded by the caller's stream decoder, so a multi-byte
+// character split across two 1 MB chunks is reassembled instead of mangled.
+// Node (the CLI) has no FileReader, only Blob.arrayBuffer.
+async function readChunkAsBytes(blob: Blob): Promise<Uint8Array> {
+  if (typeof FileReader === 'undefined') return new Uint8Array(await blob.arrayBuffer());
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onload = (e) => resolve(new Uint8Array(e.target?.result as ArrayBuffer));
     reader.onerror = () => reject(new Error('Failed to read chunk'));
-    reader.readAsText(blob, 'UTF-8');
+    reader.readAsArrayBuffer(blob);
   });
 }
\ No newline at end of file
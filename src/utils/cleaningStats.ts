@@ -0,0 +1,32 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - CLEANING STATISTICS
+// Names for the cell transforms that CleaningStats.transforms counts per
+// column. transformRow reports hits by index into TRANSFORM_RULES so a row's
+// tally stays a flat number array on its way back from a worker.
+// ══════════════════════════════════════════════════════════════════════════
+
+export const TRANSFORM_RULES = [
+  { key: 'fixEncodingIssues', label: 'Encoding repaired' },
+  { key: 'trimWhitespace', label: 'Whitespace trimmed' },
+  { key: 'normalizeValues', label: 'Nulls normalized' },
+  { key: 'removeHtmlTagsFn', label: 'HTML stripped' },
+  { key: 'fixEmail', label: 'Emails fixed' },
+  { key: 'standardizePhoneFn', label: 'Phones standardized' },
+  { key: 'standardizeDateFn', label: 'Dates normalized' },
+  { key: 'standardizeStreet', label: 'Streets standardized' },
+  { key: 'standardizeCity', label: 'Cities standardized' },
+  { key: 'standardizeState', label: 'States standardized' },
+  { key: 'standardizePostalCode', label: 'Postal codes standardized' },
+  { key: 'normalizeCaseFn', label: 'Case normalized' },
+  { key: 'applyCaseStyle', label: 'Case style applied' },
+  { key: 'removeSpecialCharsFn', label: 'Control chars removed' },
+  { key: 'fixNumberFormat', label: 'Numbers reformatted' },
+] as const;
+
+export type TransformRule = typeof TRANSFORM_RULES[number]['key'];
+
+export const TRANSFORM_RULE_INDEX = Object.fromEntries(TRANSFORM_RULES.map((r, i) => [r.key, i])) as Record<TransformRule, number>;
+
+export function transformRuleLabel(key: string): string {
+  return TRANSFORM_RULES.find(r => r.key === key)?.label || key;
+}
@@ -0,0 +1,58 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - PER-COLUMN RULES
+// Which advanced transforms run on which column, and the case style each
+// column gets. When a column has a rule the engine follows it exactly instead
+// of guessing from the header name or the cell contents.
+// ══════════════════════════════════════════════════════════════════════════
+
+import { isPhoneColumnName } from './cleaningEngine';
+
+export type CaseStyle = 'title' | 'upper' | 'lower' | 'sentence';
+
+export interface ColumnRule {
+  email: boolean;
+  phone: boolean;
+  date: boolean;
+  case: boolean;
+  number: boolean;
+  html: boolean;
+  caseStyle: CaseStyle;
+}
+
+export type ColumnRuleTransform = Exclude<keyof ColumnRule, 'caseStyle'>;
+
+export const COLUMN_RULE_TRANSFORMS: { key: ColumnRuleTransform; label: string }[] = [
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'date', label: 'Date' },
+  { key: 'case', label: 'Case' },
+  { key: 'number', label: 'Number' },
+  { key: 'html', label: 'HTML' },
+];
+
+export const CASE_STYLES: { value: CaseStyle; label: string }[] = [
+  { value: 'title', label: 'Title Case' },
+  { value: 'upper', label: 'UPPER' },
+  { value: 'lower', label: 'lower' },
+  { value: 'sentence', label: 'Sentence case' },
+];
+
+// Starting point for the rules panel, built from the same signals the engine
+// used to guess with — but the detected type now decides email and date, so a
+// free-text column that happens to contain "@" is left alone.
+export function suggestColumnRule(colName: string, type: string): ColumnRule {
+  const lower = colName.toLowerCase();
+  const isEmail = type === 'email' || /email|e_mail/.test(lower);
+  const isUrl = /url|website|href|link/.test(lower);
+  const isName = /^(first|last|middle|full)?_?name$|^city$|^country$|^state$|^street$|^address$/.test(lower);
+  const isText = type === 'text' || type === 'longtext';
+  return {
+    email: isEmail,
+    phone: isPhoneColumnName(colName),
+    date: type === 'date',
+    case: isEmail || isUrl || isName,
+    number: !isEmail && !isText,
+    html: true,
+    caseStyle: isEmail || isUrl ? 'lower' : 'title',
+  };
+}
@@ -0,0 +1,75 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - COLUMN TYPES
+// ColumnTypes values are either a detected type key ("smallint", "email",
+// "varchar_long", ...) or a user override written with its size, like
+// "varchar(40)", "char(5)" or "decimal(12,3)". Everything that turns a column
+// type into SQL starts from parseColumnType (see sqlDialects.ts).
+// ══════════════════════════════════════════════════════════════════════════
+
+export type SqlBaseType =
+  | 'tinyint' | 'smallint' | 'int' | 'bigint' | 'decimal' | 'bool'
+  | 'date' | 'datetime' | 'char' | 'varchar' | 'text' | 'longtext';
+
+export interface ColumnTypeSpec {
+  base: SqlBaseType;
+  length?: number;     // char / varchar
+  precision?: number;  // decimal
+  scale?: number;      // decimal
+}
+
+export const SQL_BASE_TYPES: { value: SqlBaseType; label: string }[] = [
+  { value: 'tinyint', label: 'TINYINT' },
+  { value: 'smallint', label: 'SMALLINT' },
+  { value: 'int', label: 'INT' },
+  { value: 'bigint', label: 'BIGINT' },
+  { value: 'decimal', label: 'DECIMAL(p,s)' },
+  { value: 'bool', label: 'BOOLEAN' },
+  { value: 'date', label: 'DATE' },
+  { value: 'datetime', label: 'DATETIME' },
+  { value: 'char', label: 'CHAR(n)' },
+  { value: 'varchar', label: 'VARCHAR(n)' },
+  { value: 'text', label: 'TEXT' },
+  { value: 'longtext', label: 'LONGTEXT' },
+];
+
+// Detected keys that carry an implied size
+const DETECTED_SPECS: Record<string, ColumnTypeSpec> = {
+  decimal: { base: 'decimal', precision: 15, scale: 4 },
+  decimal_money: { base: 'decimal', precision: 10, scale: 2 },
+  varchar: { base: 'varchar', length: 255 },
+  varchar_long: { base: 'varchar', length: 500 },
+  email: { base: 'varchar', length: 320 },
+};
+
+const DEFAULT_LENGTH: Partial<Record<SqlBaseType, number>> = { char: 10, varchar: 255 };
+
+export function parseColumnType(type: string): ColumnTypeSpec {
+  const key = (type || '').trim().toLowerCase();
+  if (DETECTED_SPECS[key]) return { ...DETECTED_SPECS[key] };
+  const sized = key.match(/^(char|varchar)\((\d+)\)$/);
+  if (sized) return { base: sized[1] as SqlBaseType, length: parseInt(sized[2], 10) };
+  const dec = key.match(/^decimal\((\d+),\s*(\d+)\)$/);
+  if (dec) return { base: 'decimal', precision: parseInt(dec[1], 10), scale: parseInt(dec[2], 10) };
+  if (SQL_BASE_TYPES.some(t => t.value === key)) {
+    const base = key as SqlBaseType;
+    return DEFAULT_LENGTH[base] ? { base, length: DEFAULT_LENGTH[base] } : { base };
+  }
+  return { base: 'text' };
+}
+
+// Inverse of parseColumnType. Sizes are clamped to what MySQL accepts, so a
+// half-typed length in the UI can never produce an invalid statement.
+export function formatColumnType(spec: ColumnTypeSpec): string {
+  const clamp = (n: number | undefined, min: number, max: number, fallback: number) =>
+    Number.isFinite(n) ? Math.min(max, Math.max(min, Math.round(n!))) : fallback;
+  switch (spec.base) {
+    case 'char': return `char(${clamp(spec.length, 1, 255, 10)})`;
+    case 'varchar': return `varchar(${clamp(spec.length, 1, 65535, 255)})`;
+    case 'decimal': {
+      const precision = clamp(spec.precision, 1, 65, 15);
+      const scale = clamp(spec.scale, 0, Math.min(30, precision), Math.min(4, precision));
+      return `decimal(${precision},${scale})`;
+    }
+    default: return spec.base;
+  }
+}
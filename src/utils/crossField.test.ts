@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { type CrossFieldRule, buildCrossFieldChecks, parseDate, parseNumber } from './crossField';
+
+// Every violation for each row, in check order
+function violations(headers: string[], rows: string[][], rules: CrossFieldRule[] = []): (string | null)[][] {
+  const { checks } = buildCrossFieldChecks(headers, rules);
+  return rows.map(cells => checks.map(c => c.validate(cells)).filter(v => v !== null));
+}
+
+describe('value parsing', () => {
+  it('reads numbers with currency symbols and thousands separators', () => {
+    expect(['$1,200.50', '€ 3', '-0.5', '.5', '12abc', ''].map(parseNumber)).toEqual([1200.5, 3, -0.5, 0.5, null, null]);
+  });
+
+  it('reads day-first dates when the first part cannot be a month', () => {
+    expect(parseDate('25/12/2024')).toBe(Date.UTC(2024, 11, 25));
+    expect(parseDate('2024-12-25')).toBe(Date.UTC(2024, 11, 25));
+    expect(parseDate('20241225')).toBeNull();
+    expect(parseDate('soon')).toBeNull();
+  });
+});
+
+describe('built-in checks', () => {
+  it('finds start/end pairs and flags ranges that run backwards', () => {
+    const headers = ['id', 'start_date', 'end_date', 'check_in', 'check_out'];
+    expect(buildCrossFieldChecks(headers, []).checks.map(c => c.name)).toEqual(['start_date ≤ end_date', 'check_in ≤ check_out']);
+    expect(violations(headers, [
+      ['1', '2024-01-01', '2024-02-01', '2024-03-02', '2024-03-01'],
+      ['2', '2024-05-01', '', '', ''],
+    ])).toEqual([['check_in (2024-03-02) is after check_out (2024-03-01)'], []]);
+  });
+
+  it('compares an age with the birth date, allowing a year of slack', () => {
+    const year = new Date().getFullYear();
+    const rows = [['31', `${year - 30}-01-01`], ['40', `${year - 30}-01-01`]];
+    expect(violations(['age', 'birth_date'], rows)).toEqual([[], [`age 40 but birth_date implies 30`]]);
+  });
+
+  it('checks a ZIP against its state and the city first seen with it', () => {
+    const rows = [
+      ['springfield', 'IL', '62704'],
+      ['Springfield', 'illinois', '62704-1234'],
+      ['Chicago', 'IL', '62704'],
+      ['Albany', 'CA', '12207'],
+    ];
+    expect(violations(['city', 'state', 'zip'], rows)).toEqual([
+      [],
+      [],
+      ['zip 62704 was "springfield" earlier, now "Chicago"'],
+      ['zip 12207 belongs to NY, not CA'],
+    ]);
+  });
+
+  it('adds up the parts of a total, subtracting discounts', () => {
+    const headers = ['subtotal', 'tax', 'discount', 'total'];
+    expect(violations(headers, [['100', '8.25', '10', '98.25'], ['100', '8', '', '100']])).toEqual([[], ['total 100 ≠ parts 108.00']]);
+  });
+
+  it('adds no checks for columns that only look alike', () => {
+    expect(buildCrossFieldChecks(['starter', 'endpoint', 'total'], []).checks).toEqual([]);
+  });
+});
+
+describe('user rules', () => {
+  it('compares numbers as numbers and text exactly, passing when either side is empty', () => {
+    const rules: CrossFieldRule[] = [{ left: 'min', op: '<=', right: 'max' }, { left: 'a', op: '!=', right: 'b' }];
+    const rows = [['9', '10', 'x', 'y'], ['10', '9', 'Same', 'same'], ['', '1', '', 'y']];
+    expect(violations(['min', 'max', 'a', 'b'], rows, rules)).toEqual([
+      [],
+      ['min (10) <= max (9) failed', 'a (Same) != b (same) failed'],
+      [],
+    ]);
+  });
+
+  it('requires the right column whenever the left one has a value', () => {
+    const rules: CrossFieldRule[] = [{ left: 'shipped', op: 'requires', right: 'tracking' }];
+    expect(violations(['shipped', 'tracking'], [['yes', ''], ['', ''], ['yes', 'Z1']], rules)).toEqual([
+      ['shipped is set but tracking is empty'], [], [],
+    ]);
+  });
+
+  it('returns rules naming a missing column as skipped', () => {
+    const rule: CrossFieldRule = { left: 'a', op: '<', right: 'gone' };
+    expect(buildCrossFieldChecks(['a', 'b'], [rule])).toEqual({ checks: [], skipped: [rule] });
+  });
+});
@@ -0,0 +1,218 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - CROSS-FIELD VALIDATION
+// Built-in checks (date ranges, age vs birth date, city/state/zip, totals)
+// plus user-defined comparisons between two columns.
+// ══════════════════════════════════════════════════════════════════════════
+
+import { toStateCode, stateForZip } from './geo';
+
+export type CompareOp = '<' | '<=' | '=' | '!=' | '>' | '>=' | 'requires';
+
+export interface CrossFieldRule {
+  left: string;
+  op: CompareOp;
+  right: string;
+}
+
+export type CrossFieldAction = 'log' | 'flag' | 'drop';
+
+// One check bound to concrete column indices. validate() returns a short
+// description of the violation, or null when the row passes.
+export interface CrossFieldCheck {
+  name: string;
+  validate: (cells: string[]) => string | null;
+}
+
+export const COMPARE_OPS: { value: CompareOp; label: string }[] = [
+  { value: '<', label: '<' },
+  { value: '<=', label: '≤' },
+  { value: '=', label: '=' },
+  { value: '!=', label: '≠' },
+  { value: '>=', label: '≥' },
+  { value: '>', label: '>' },
+  { value: 'requires', label: 'requires' },
+];
+
+export const CROSS_FIELD_FLAG_COLUMN = 'cross_field_issues';
+
+// ── VALUE PARSING ─────────────────────────────────────────────────────────
+
+export function parseNumber(v: string): number | null {
+  const cleaned = v.replace(/[$€£¥₹,\s]/g, '');
+  if (!/^-?\d*\.?\d+$/.test(cleaned)) return null;
+  return parseFloat(cleaned);
+}
+
+export function parseDate(v: string): number | null {
+  if (!v || /^-?\d*\.?\d+$/.test(v)) return null;
+  const dmy = v.match(/^(\d{1,2})[\/\-\.](\d{1,2})[\/\-\.](\d{4})$/);
+  if (dmy && parseInt(dmy[1], 10) > 12) {
+    return Date.UTC(parseInt(dmy[3], 10), parseInt(dmy[2], 10) - 1, parseInt(dmy[1], 10));
+  }
+  const t = Date.parse(v);
+  return isNaN(t) ? null : t;
+}
+
+// Compares as numbers, then dates, then case-insensitive text
+function compareValues(a: string, b: string): number {
+  const na = parseNumber(a);
+  const nb = parseNumber(b);
+  if (na !== null && nb !== null) return na - nb;
+  const da = parseDate(a);
+  const db = parseDate(b);
+  if (da !== null && db !== null) return da - db;
+  return a.toLowerCase().localeCompare(b.toLowerCase());
+}
+
+function holds(op: CompareOp, left: string, right: string): boolean {
+  if (op === 'requires') return !left || !!right;
+  // Comparisons only apply when both sides have a value
+  if (!left || !right) return true;
+  const c = compareValues(left, right);
+  switch (op) {
+    case '<': return c < 0;
+    case '<=': return c <= 0;
+    case '=': return c === 0;
+    case '!=': return c !== 0;
+    case '>': return c > 0;
+    case '>=': return c >= 0;
+  }
+}
+
+// ── BUILT-IN CHECKS ───────────────────────────────────────────────────────
+
+const RANGE_PAIRS: [string, string][] = [
+  ['start', 'end'], ['begin', 'end'], ['from', 'to'],
+  ['check_in', 'check_out'], ['opened', 'closed'], ['hired', 'terminated'],
+];
+
+function dateRangeChecks(headers: string[]): CrossFieldCheck[] {
+  const checks: CrossFieldCheck[] = [];
+  headers.forEach((h, li) => {
+    for (const [a, b] of RANGE_PAIRS) {
+      const re = new RegExp(`(^|_)${a}(_|$)`);
+      if (!re.test(h)) continue;
+      const counterpart = h.replace(re, `$1${b}$2`);
+      const ri = headers.indexOf(counterpart);
+      if (ri === -1) continue;
+      checks.push({
+        name: `${h} ≤ ${counterpart}`,
+        validate: cells => {
+          const l = cells[li], r = cells[ri];
+          if (!l || !r) return null;
+          return compareValues(l, r) > 0 ? `${h} (${l}) is after ${counterpart} (${r})` : null;
+        },
+      });
+    }
+  });
+  return checks;
+}
+
+function ageCheck(headers: string[]): CrossFieldCheck[] {
+  const ai = headers.findIndex(h => /^(age|.*_age)$/.test(h));
+  const bi = headers.findIndex(h => /birth|^dob$|_dob$/.test(h));
+  if (ai === -1 || bi === -1) return [];
+  const now = new Date();
+  return [{
+    name: `${headers[ai]} matches ${headers[bi]}`,
+    validate: cells => {
+      const age = parseNumber(cells[ai] || '');
+      const born = parseDate(cells[bi] || '');
+      if (age === null || born === null) return null;
+      const b = new Date(born);
+      let expected = now.getFullYear() - b.getFullYear();
+      if (now.getMonth() < b.getMonth() || (now.getMonth() === b.getMonth() && now.getDate() < b.getDate())) expected--;
+      // Allow one year of slack for exports taken a while ago
+      return Math.abs(age - expected) > 1 ? `${headers[ai]} ${age} but ${headers[bi]} implies ${expected}` : null;
+    },
+  }];
+}
+
+function addressChecks(headers: string[]): CrossFieldCheck[] {
+  const zi = headers.findIndex(h => /zip|postal|postcode/.test(h));
+  if (zi === -1) return [];
+  const si = headers.findIndex(h => /^(state|.*_state)$/.test(h));
+  const ci = headers.findIndex(h => /^(city|.*_city|town)$/.test(h));
+  const checks: CrossFieldCheck[] = [];
+
+  if (si !== -1) {
+    checks.push({
+      name: `${headers[zi]} in ${headers[si]}`,
+      validate: cells => {
+        const expected = stateForZip(cells[zi] || '');
+        const actual = toStateCode(cells[si] || '');
+        if (!expected || !actual) return null;
+        return expected !== actual ? `${headers[zi]} ${cells[zi]} belongs to ${expected}, not ${cells[si]}` : null;
+      },
+    });
+  }
+
+  if (ci !== -1) {
+    // No city database ships with the app, so a ZIP's city is learned from
+    // the first row that uses it and later rows must agree.
+    const cityByZip = new Map<string, string>();
+    checks.push({
+      name: `${headers[zi]} ↔ ${headers[ci]}`,
+      validate: cells => {
+        const zip = (cells[zi] || '').trim().substring(0, 5);
+        const city = (cells[ci] || '').trim().toLowerCase();
+        if (!/^\d{5}$/.test(zip) || !city) return null;
+        const known = cityByZip.get(zip);
+        if (known === undefined) { cityByZip.set(zip, city); return null; }
+        return known !== city ? `${headers[zi]} ${zip} was "${known}" earlier, now "${cells[ci]}"` : null;
+      },
+    });
+  }
+  return checks;
+}
+
+const TOTAL_RE = /^(total|grand_total|order_total|total_amount|amount_total)$/;
+const ADD_PART_RE = /^(subtotal|sub_total|tax|tax_amount|shipping|shipping_cost|shipping_fee|fee|fees|handling|tip)$/;
+const SUB_PART_RE = /^(discount|discount_amount)$/;
+
+function totalCheck(headers: string[]): CrossFieldCheck[] {
+  const ti = headers.findIndex(h => TOTAL_RE.test(h));
+  if (ti === -1) return [];
+  const parts = headers
+    .map((h, i) => ({ i, sign: ADD_PART_RE.test(h) ? 1 : SUB_PART_RE.test(h) ? -1 : 0 }))
+    .filter(p => p.sign !== 0);
+  if (parts.length < 2) return [];
+  return [{
+    name: `${headers[ti]} = sum of parts`,
+    validate: cells => {
+      const total = parseNumber(cells[ti] || '');
+      if (total === null) return null;
+      let sum = 0;
+      for (const p of parts) sum += p.sign * (parseNumber(cells[p.i] || '') ?? 0);
+      return Math.abs(total - sum) > 0.01 ? `${headers[ti]} ${total} ≠ parts ${sum.toFixed(2)}` : null;
+    },
+  }];
+}
+
+// ── FACTORY ───────────────────────────────────────────────────────────────
+
+// Builds the active checks for a header row. Rule column names are expected
+// already sanitized; rules naming a missing column are returned in `skipped`.
+export function buildCrossFieldChecks(headers: string[], rules: CrossFieldRule[]): { checks: CrossFieldCheck[]; skipped: CrossFieldRule[] } {
+  const checks = [
+    ...dateRangeChecks(headers),
+    ...ageCheck(headers),
+    ...addressChecks(headers),
+    ...totalCheck(headers),
+  ];
+  const skipped: CrossFieldRule[] = [];
+  for (const rule of rules) {
+    const li = headers.indexOf(rule.left);
+    const ri = headers.indexOf(rule.right);
+    if (li === -1 || ri === -1) { skipped.push(rule); continue; }
+    checks.push({
+      name: `${rule.left} ${rule.op} ${rule.right}`,
+      validate: cells => holds(rule.op, cells[li] || '', cells[ri] || '')
+        ? null
+        : rule.op === 'requires'
+          ? `${rule.left} is set but ${rule.right} is empty`
+          : `${rule.left} (${cells[li]}) ${rule.op} ${rule.right} (${cells[ri]}) failed`,
+    });
+  }
+  return { checks, skipped };
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { type CSVDialect, type CSVRecord, DEFAULT_DIALECT, createCSVTokenizer, parseCSVText } from './csvTokenizer';
+
+// Feeds the chunks one at a time, as the file reader does
+function tokenize(chunks: string[], dialect?: CSVDialect): CSVRecord[] {
+  const tokenizer = createCSVTokenizer(dialect);
+  return [...chunks.flatMap(c => tokenizer.push(c)), ...tokenizer.end()];
+}
+
+const cells = (records: CSVRecord[]) => records.map(r => r.cells);
+
+describe('createCSVTokenizer', () => {
+  it('keeps separators, quotes and line breaks inside quoted fields', () => {
+    const records = parseCSVText('id,note\n1,"a, b"\n2,"say ""hi"""\n3,"two\nlines"\n');
+    expect(cells(records)).toEqual([['id', 'note'], ['1', 'a, b'], ['2', 'say "hi"'], ['3', 'two\nlines']]);
+    expect(records.map(r => r.line)).toEqual([1, 2, 3, 4]);
+    expect(records.every(r => !r.malformed)).toBe(true);
+  });
+
+  it('carries quote state across chunk boundaries', () => {
+    const whole = parseCSVText('a,"b ""c"", d"\ne,f\n');
+    // Split after the opening quote, inside a doubled quote and before the closing one
+    expect(tokenize(['a,"', 'b "', '"c"', '", d', '"\ne', ',f\n'])).toEqual(whole);
+  });
+
+  it('treats a CRLF split across chunks as one line break', () => {
+    const records = tokenize(['a,b\r', '\nc,d\r', '\n']);
+    expect(cells(records)).toEqual([['a', 'b'], ['c', 'd']]);
+    expect(records.map(r => r.line)).toEqual([1, 2]);
+  });
+
+  it('accepts a bare CR as a line break', () => {
+    expect(cells(tokenize(['a,b\rc', ',d']))).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('counts line breaks inside quoted fields towards later line numbers', () => {
+    const records = tokenize(['h\n"x\r', '\ny"\nz\n']);
+    expect(cells(records)).toEqual([['h'], ['x\r\ny'], ['z']]);
+    expect(records.map(r => r.line)).toEqual([1, 2, 4]);
+    expect(parseCSVText('h\n"x\r\ny"\nz\n')).toEqual(records);
+    expect(parseCSVText('h\n"x\ry\n"\nz\n').map(r => r.line)).toEqual([1, 2, 5]);
+  });
+
+  it('skips blank lines and emits a last record without a trailing newline', () => {
+    expect(cells(tokenize(['a\n\n\r\nb']))).toEqual([['a'], ['b']]);
+  });
+
+  it('drops whitespace around quoted fields', () => {
+    expect(cells(parseCSVText('1,  "x" ,y\n'))).toEqual([['1', 'x', 'y']]);
+  });
+
+  it('reads backslash escapes when the dialect asks for them', () => {
+    const dialect: CSVDialect = { separator: ',', quote: '"', escape: '\\' };
+    expect(cells(tokenize(['a,"b\\', '"c",d\n'], dialect))).toEqual([['a', 'b"c', 'd']]);
+    expect(cells(tokenize(['"x\\\\y"\n'], dialect))).toEqual([['x\\y']]);
+  });
+
+  it('honours other separators and quote characters', () => {
+    const dialect: CSVDialect = { separator: ';', quote: "'", escape: "'" };
+    expect(cells(parseCSVText("a;'b;c';'it''s'\n", dialect))).toEqual([['a', 'b;c', "it's"]]);
+  });
+
+  it('keeps quote characters as data when quoting is off', () => {
+    const dialect: CSVDialect = { separator: ',', quote: '', escape: '' };
+    expect(cells(parseCSVText('"a",b"\n', dialect))).toEqual([['"a"', 'b"']]);
+  });
+
+  it('ends records at the extra line breaks a dialect names', () => {
+    const dialect: CSVDialect = { ...DEFAULT_DIALECT, lineBreaks: '\u0085\u2028' };
+    const records = tokenize(['a,b\u0085c,"d\u2028', 'e"\u2028f\n'], dialect);
+    expect(cells(records)).toEqual([['a', 'b'], ['c', 'd\u2028e'], ['f']]);
+    expect(records.map(r => r.line)).toEqual([1, 2, 4]);
+    expect(cells(parseCSVText('a\u0085b\n'))).toEqual([['a\u0085b']]);
+  });
+
+  it('marks a quoted field left open at the end of the input as malformed', () => {
+    const records = tokenize(['a,"b\n', 'c']);
+    expect(records).toHaveLength(1);
+    expect(records[0].cells).toEqual(['a', 'b\nc']);
+    expect(records[0].malformed).toBeTruthy();
+  });
+});
@@ -0,0 +1,186 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - STREAMING CSV TOKENIZER
+// RFC 4180 state machine fed one decoded chunk at a time. Quote state, a
+// half-read field and a trailing CR all carry over to the next chunk, so
+// quoted fields may contain separators and line breaks anywhere in the file.
+// ══════════════════════════════════════════════════════════════════════════
+
+export interface CSVDialect {
+  separator: string;
+  quote: string;   // '' disables quoting entirely
+  escape: string;  // '\\' → backslash escapes; anything else → doubled quotes ("")
+  lineBreaks?: string;  // characters that also end a record, besides CR and LF
+}
+
+export const DEFAULT_DIALECT: CSVDialect = { separator: ',', quote: '"', escape: '"' };
+
+export interface CSVRecord {
+  cells: string[];
+  line: number;        // 1-based physical line the record starts on
+  malformed?: string;  // why the record doesn't follow the dialect, if it doesn't
+}
+
+type State = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted' | 'afterQuoted' | 'escape';
+
+export interface CSVTokenizer {
+  push(text: string): CSVRecord[];
+  end(): CSVRecord[];
+}
+
+// Blank lines produce no record. Whitespace before an opening quote and
+// between a closing quote and the separator is tolerated and dropped.
+export function createCSVTokenizer(dialect: CSVDialect = DEFAULT_DIALECT): CSVTokenizer {
+  const { separator, quote } = dialect;
+  const backslash = dialect.escape === '\\';
+  const lineBreaks = dialect.lineBreaks || '';
+  const isBreak = (c: string) => c === '\n' || c === '\r' || (lineBreaks !== '' && lineBreaks.includes(c));
+
+  let state: State = 'fieldStart';
+  let escapeReturn: State = 'unquoted';
+  let field = '';
+  let pendingSpace = '';
+  let cells: string[] = [];
+  let line = 1;
+  let recordLine = 1;
+  let malformed: string | undefined;
+  let pendingCR = false;
+  let out: CSVRecord[] = [];
+
+  const markMalformed = (reason: string) => {
+    if (!malformed) malformed = `${reason} (line ${line}, column ${cells.length + 1})`;
+  };
+
+  const endField = () => {
+    cells.push(field);
+    field = '';
+    pendingSpace = '';
+    state = 'fieldStart';
+  };
+
+  const endRecord = () => {
+    const blank = cells.length === 0 && field === '' && pendingSpace === '' && state === 'fieldStart';
+    if (!blank) {
+      if (state === 'fieldStart') field = pendingSpace;
+      endField();
+      out.push(malformed ? { cells, line: recordLine, malformed } : { cells, line: recordLine });
+    }
+    cells = [];
+    field = '';
+    pendingSpace = '';
+    malformed = undefined;
+    state = 'fieldStart';
+    recordLine = line;
+  };
+
+  const push = (text: string): CSVRecord[] => {
+    out = [];
+    let i = 0;
+    const n = text.length;
+
+    while (i < n) {
+      const ch = text[i];
+
+      // A CR already ended the record; swallow the LF of a CRLF pair
+      if (pendingCR) {
+        pendingCR = false;
+        if (ch === '\n') { i++; continue; }
+      }
+
+      switch (state) {
+        case 'fieldStart':
+          if (ch === separator) { field = pendingSpace; endField(); i++; continue; }
+          if (isBreak(ch)) {
+            line++;
+            endRecord();
+            pendingCR = ch === '\r';
+            i++;
+            continue;
+          }
+          if (quote && ch === quote) { pendingSpace = ''; state = 'quoted'; i++; continue; }
+          if (ch === ' ' || ch === '\t') { pendingSpace += ch; i++; continue; }
+          field = pendingSpace;
+          pendingSpace = '';
+          state = 'unquoted';
+          continue;
+
+        case 'unquoted': {
+          // Fast path: copy the run of ordinary characters in one slice
+          let j = i;
+          while (j < n) {
+            const c = text[j];
+            if (c === separator || isBreak(c) || (quote && c === quote) || (backslash && c === '\\')) break;
+            j++;
+          }
+          field += text.substring(i, j);
+          i = j;
+          if (i >= n) continue;
+          const c = text[i];
+          if (c === separator) { endField(); i++; continue; }
+          if (isBreak(c)) { line++; endRecord(); pendingCR = c === '\r'; i++; continue; }
+          if (backslash && c === '\\') { escapeReturn = 'unquoted'; state = 'escape'; i++; continue; }
+          // Quote in the middle of an unquoted field: keep it literally
+          markMalformed('Stray quote in unquoted field');
+          field += c;
+          i++;
+          continue;
+        }
+
+        case 'quoted': {
+          let j = i;
+          while (j < n) {
+            const c = text[j];
+            if (c === quote || (backslash && c === '\\')) break;
+            // CRLF counts once, even when the chunk ends between the two
+            if (c === '\n' ? (j > i ? text[j - 1] : field[field.length - 1]) !== '\r' : isBreak(c)) line++;
+            j++;
+          }
+          field += text.substring(i, j);
+          i = j;
+          if (i >= n) continue;
+          if (backslash && text[i] === '\\') { escapeReturn = 'quoted'; state = 'escape'; i++; continue; }
+          state = 'quoteInQuoted';
+          i++;
+          continue;
+        }
+
+        case 'quoteInQuoted':
+          if (ch === quote) { field += quote; state = 'quoted'; i++; continue; }
+          state = 'afterQuoted';
+          continue;
+
+        case 'afterQuoted':
+          if (ch === separator) { endField(); i++; continue; }
+          if (isBreak(ch)) { line++; endRecord(); pendingCR = ch === '\r'; i++; continue; }
+          if (ch === ' ' || ch === '\t') { i++; continue; }
+          // Text after the closing quote: keep it so no data is lost
+          markMalformed('Unexpected text after closing quote');
+          state = 'unquoted';
+          continue;
+
+        case 'escape':
+          if (ch === '\n') line++;
+          field += ch;
+          state = escapeReturn;
+          i++;
+          continue;
+      }
+    }
+    return out;
+  };
+
+  const end = (): CSVRecord[] => {
+    out = [];
+    if (state === 'quoted' || state === 'escape') markMalformed('Unterminated quoted field at end of file');
+    pendingCR = false;
+    endRecord();
+    return out;
+  };
+
+  return { push, end };
+}
+
+// Convenience for text that is already fully in memory
+export function parseCSVText(text: string, dialect: CSVDialect = DEFAULT_DIALECT): CSVRecord[] {
+  const tokenizer = createCSVTokenizer(dialect);
+  return [...tokenizer.push(text), ...tokenizer.end()];
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { type DedupPolicy, type SurvivorScore, outranks, survivorScore } from './dedup';
+
+// Which of the rows survives, merging them in order as the engine does
+function survivor(rows: string[][], policy: DedupPolicy, orderCol = 0, skipCol = -1): number {
+  let best = 0;
+  let bestScore: SurvivorScore = survivorScore(rows[0], policy, orderCol, skipCol, 0);
+  for (let i = 1; i < rows.length; i++) {
+    const score = survivorScore(rows[i], policy, orderCol, skipCol, i);
+    if (outranks(score, bestScore, policy)) { best = i; bestScore = score; }
+  }
+  return best;
+}
+
+describe('survivorship', () => {
+  const rows = [['5', 'a', ''], ['12', 'b', 'x'], ['7', '', ''], ['12', 'c', 'y']];
+
+  it('keeps the first or the last row', () => {
+    expect(survivor(rows, 'first')).toBe(0);
+    expect(survivor(rows, 'last')).toBe(3);
+  });
+
+  it('keeps the most complete row, the earlier one on a tie', () => {
+    expect(survivor(rows, 'most-complete')).toBe(1);
+  });
+
+  it('does not count the source id column towards completeness', () => {
+    const withId = [['1', 'a', ''], ['', 'b', 'x'], ['3', '', 'y']];
+    expect(survivor(withId, 'most-complete')).toBe(0);
+    expect(survivor(withId, 'most-complete', 0, 0)).toBe(1);
+  });
+
+  it('keeps the highest or lowest value, the earlier row on a tie', () => {
+    expect(survivor(rows, 'max')).toBe(1);
+    expect(survivor(rows, 'min')).toBe(0);
+  });
+
+  it('compares numbers by value rather than as text', () => {
+    expect(survivor([['9'], ['10'], ['-3.5'], ['1e1']], 'max')).toBe(1);
+    expect(survivor([['9'], ['10'], ['-3.5'], ['1e1']], 'min')).toBe(2);
+  });
+
+  it('compares dates by time', () => {
+    const dates = [['2024-03-01'], ['2023-12-31'], ['2024-11-05 08:00'], ['2024-02-29']];
+    expect(survivor(dates, 'max')).toBe(2);
+    expect(survivor(dates, 'min')).toBe(1);
+  });
+
+  it('compares other text naturally', () => {
+    expect(survivor([['item 9'], ['item 10'], ['Item 2']], 'max')).toBe(1);
+  });
+
+  it('never lets an empty value win', () => {
+    expect(survivor([[''], ['3'], ['  ']], 'max')).toBe(1);
+    expect(survivor([[''], ['3'], ['']], 'min')).toBe(1);
+    expect(survivor([[''], ['']], 'max')).toBe(0);
+  });
+});
@@ -0,0 +1,72 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - KEY-BASED DEDUPLICATION
+// Rows sharing a dedup key compete under a survivorship policy. Rows stream
+// out as they merge, so the current winner of each key is written straight
+// away; when a later row outranks it, the earlier row is marked superseded and
+// taken out of the output in one pass at the end.
+// ══════════════════════════════════════════════════════════════════════════
+
+export type DedupPolicy = 'first' | 'last' | 'most-complete' | 'max' | 'min';
+
+export const DEDUP_POLICIES: { value: DedupPolicy; label: string; needsColumn: boolean }[] = [
+  { value: 'first', label: 'Keep first', needsColumn: false },
+  { value: 'last', label: 'Keep last', needsColumn: false },
+  { value: 'most-complete', label: 'Keep most complete (fewest empty cells)', needsColumn: false },
+  { value: 'max', label: 'Keep highest value of…', needsColumn: true },
+  { value: 'min', label: 'Keep lowest value of…', needsColumn: true },
+];
+
+// Numbers and dates compare by value, anything else as text; null = empty
+export type SurvivorScore = number | string | null;
+
+export interface DedupWinner {
+  row: number;        // source data row
+  line: number;
+  outputRow: number;
+  score: SurvivorScore;
+}
+
+// Orders values of the max / min column: numbers, then dates, then text
+function orderValue(value: string): SurvivorScore {
+  const v = value.trim();
+  if (!v) return null;
+  if (/^-?\d*\.?\d+([eE][+-]?\d+)?$/.test(v)) return parseFloat(v);
+  if (/\d/.test(v) && /[-/:]/.test(v)) {
+    const t = Date.parse(v);
+    if (!isNaN(t)) return t;
+  }
+  return v;
+}
+
+// `orderCol` is only read by max / min; `skipCol` (the source id) never counts
+// towards completeness
+export function survivorScore(cells: string[], policy: DedupPolicy, orderCol: number, skipCol: number, seq: number): SurvivorScore {
+  switch (policy) {
+    case 'first': return null;
+    case 'last': return seq;
+    case 'most-complete': return cells.reduce((n, c, i) => (i !== skipCol && c.trim() ? n + 1 : n), 0);
+    case 'max':
+    case 'min': return orderValue(cells[orderCol] || '');
+  }
+}
+
+// Ties keep the earlier row
+export function outranks(challenger: SurvivorScore, incumbent: SurvivorScore, policy: DedupPolicy): boolean {
+  if (policy === 'first' || challenger === null) return false;
+  if (policy === 'last') return true;
+  if (incumbent === null) return true;
+  const cmp = typeof challenger === 'number' && typeof incumbent === 'number'
+    ? challenger - incumbent
+    : String(challenger).localeCompare(String(incumbent), undefined, { numeric: true });
+  return policy === 'min' ? cmp < 0 : cmp > 0;
+}
+
+export function describePolicy(policy: DedupPolicy, orderColumn: string): string {
+  switch (policy) {
+    case 'first': return 'keep first';
+    case 'last': return 'keep last';
+    case 'most-complete': return 'keep most complete';
+    case 'max': return `keep highest ${orderColumn}`;
+    case 'min': return `keep lowest ${orderColumn}`;
+  }
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import type { DedupWinner } from './dedup';
+import {
+  createBloomFilter, createDedupIndex, createDedupSpill, createSupersededRows, fingerprint, fingerprintWords,
+} from './dedupIndex';
+import { createMemoryChunkStore } from './outputStore';
+
+const winner = (row: number, score: DedupWinner['score'] = null): DedupWinner => ({ row, line: row + 1, outputRow: row, score });
+
+describe('fingerprint', () => {
+  it('is stable and sized by the index kind', () => {
+    expect(fingerprint('alice@example.com', 4)).toEqual(fingerprint('alice@example.com', 4));
+    expect(fingerprint('alice@example.com', fingerprintWords('fp128'))).toHaveLength(4);
+    expect(fingerprint('alice@example.com', fingerprintWords('fp64'))).toEqual(fingerprint('alice@example.com', 4).slice(0, 2));
+  });
+
+  it('separates keys that differ by one character or only in length', () => {
+    const keys = ['', 'a', 'a\u0000', 'ab', 'ba', 'abcdefgh', 'abcdefgi', 'abcdefghi'];
+    const seen = new Set(keys.map(k => fingerprint(k, 4).join(',')));
+    expect(seen.size).toBe(keys.length);
+  });
+});
+
+describe('createDedupIndex', () => {
+  it('grows past its initial capacity without losing keys', () => {
+    const index = createDedupIndex(2, 'first', Infinity);
+    const before = index.bytes;
+    for (let i = 0; i < 5000; i++) expect(index.set(fingerprint(`key-${i}`, 2), winner(i))).toBe(true);
+    expect(index.size).toBe(5000);
+    expect(index.bytes).toBeGreaterThan(before);
+    for (let i = 0; i < 5000; i++) expect(index.get(fingerprint(`key-${i}`, 2))?.row).toBe(i);
+    expect(index.get(fingerprint('key-5000', 2))).toBeUndefined();
+  });
+
+  it('refuses new keys past the budget but still updates known ones', () => {
+    const index = createDedupIndex(4, 'first', 40 * 1024);
+    let stored = 0;
+    while (index.set(fingerprint(`key-${stored}`, 4), winner(stored))) stored++;
+    expect(stored).toBeGreaterThan(0);
+    expect(index.size).toBe(stored);
+    expect(index.bytes).toBeLessThanOrEqual(40 * 1024);
+    expect(index.set(fingerprint('key-0', 4), winner(99))).toBe(true);
+    expect(index.get(fingerprint('key-0', 4))?.row).toBe(99);
+    expect(index.size).toBe(stored);
+  });
+
+  it('keeps the survivor scores the policy compares', () => {
+    const index = createDedupIndex(2, 'max', Infinity);
+    index.set(fingerprint('a', 2), winner(0, 12.5));
+    index.set(fingerprint('b', 2), winner(1, 'zeta'));
+    index.set(fingerprint('c', 2), winner(2, null));
+    expect(index.get(fingerprint('a', 2))?.score).toBe(12.5);
+    expect(index.get(fingerprint('b', 2))?.score).toBe('zeta');
+    expect(index.get(fingerprint('c', 2))?.score).toBeNull();
+    // 'last' reads the row back as its score
+    const last = createDedupIndex(2, 'last', Infinity);
+    last.set(fingerprint('a', 2), winner(7, 7));
+    expect(last.get(fingerprint('a', 2))?.score).toBe(7);
+  });
+});
+
+describe('createDedupSpill', () => {
+  // Three rows per key, keys interleaved: row r belongs to key r % 50
+  async function spill(budgetBytes: number) {
+    const store = createMemoryChunkStore();
+    const spilled = createDedupSpill(store, 2, budgetBytes);
+    for (let row = 0; row < 150; row++) spilled.push(fingerprint(`key-${row % 50}`, 2), winner(row, row % 7));
+    const losers: number[] = [];
+    const winners = new Map<number, number>();
+    const result = await spilled.resolve('max', (loser, won) => {
+      losers.push(loser.row);
+      winners.set(won.row % 50, won.row);
+    });
+    return { result, losers: losers.sort((a, b) => a - b), winners, count: spilled.count };
+  }
+
+  it('resolves every key as the in-memory merge would', async () => {
+    const { result, losers, count } = await spill(1 << 20);
+    expect(count).toBe(150);
+    expect(result).toEqual({ partitions: 1, keys: 50 });
+    expect(losers).toHaveLength(100);
+    // Each key keeps its highest row % 7, ties going to the earlier row
+    for (let key = 0; key < 50; key++) {
+      const rows = [key, key + 50, key + 100];
+      const best = rows.reduce((a, b) => (b % 7 > a % 7 ? b : a));
+      expect(losers).not.toContain(best);
+    }
+  });
+
+  it('gives the same result when the budget forces several partitions', async () => {
+    const whole = await spill(1 << 20);
+    const split = await spill(1024);
+    expect(split.result.partitions).toBeGreaterThan(1);
+    expect(split.result.keys).toBe(50);
+    expect(split.losers).toEqual(whole.losers);
+  });
+});
+
+describe('createSupersededRows', () => {
+  // Losers arrive out of output order, as displaced rows and spilled keys do
+  async function supersede(budgetBytes: number, used = 0) {
+    const stores: ReturnType<typeof createMemoryChunkStore>[] = [];
+    const rows = createSupersededRows(budgetBytes, () => used, async () => {
+      stores.push(createMemoryChunkStore());
+      return stores[stores.length - 1];
+    });
+    for (let i = 0; i < 5000; i++) await rows.add(winner((i * 7919) % 10000), i, i % 2 === 0);
+    return { rows, stores };
+  }
+
+  it('looks rows up in output order, whether they stayed in memory or spilled', async () => {
+    const kept = await supersede(1 << 20);
+    const spilled = await supersede(64 * 1024);
+    expect(kept.stores).toHaveLength(0);
+    expect(spilled.stores).toHaveLength(1);
+    expect(spilled.stores[0].length).toBeGreaterThan(1);
+    expect(spilled.rows.bytes).toBeLessThanOrEqual(64 * 1024);
+    for (const { rows } of [kept, spilled]) {
+      expect(rows.size).toBe(5000);
+      const found = [];
+      for (let r = 0; r < 10000; r++) if (rows.has(r)) found.push(rows.get(r)!);
+      expect(found).toHaveLength(5000);
+      expect(found[0]).toEqual({ row: 0, line: 1, outputRow: 0, by: 0, replaced: true });
+      expect(found.every(e => (e.by * 7919) % 10000 === e.outputRow && e.replaced === (e.by % 2 === 0))).toBe(true);
+    }
+  });
+
+  it('gives way to the rest of the dedup bookkeeping', async () => {
+    const { stores } = await supersede(1 << 20, 1 << 20);
+    expect(stores).toHaveLength(1);
+  });
+});
+
+describe('createBloomFilter', () => {
+  it('never forgets a key it was given', () => {
+    const bloom = createBloomFilter(10000, 0.01, Infinity);
+    for (let i = 0; i < 10000; i++) bloom.add(fingerprint(`in-${i}`, 2));
+    expect(bloom.size).toBe(10000);
+    for (let i = 0; i < 10000; i++) expect(bloom.has(fingerprint(`in-${i}`, 2))).toBe(true);
+  });
+
+  it('keeps false positives near the requested rate', () => {
+    const rate = 0.01;
+    const bloom = createBloomFilter(20000, rate, Infinity);
+    for (let i = 0; i < 20000; i++) bloom.add(fingerprint(`in-${i}`, 2));
+    let falsePositives = 0;
+    for (let i = 0; i < 20000; i++) if (bloom.has(fingerprint(`out-${i}`, 2))) falsePositives++;
+    expect(falsePositives / 20000).toBeLessThan(rate * 2);
+    expect(bloom.falsePositiveRate()).toBeLessThan(rate * 1.5);
+  });
+
+  it('stays within the budget and reports the higher rate that costs', () => {
+    const budget = 4096;
+    const bloom = createBloomFilter(20000, 0.001, budget);
+    expect(bloom.bytes).toBeLessThanOrEqual(budget);
+    for (let i = 0; i < 20000; i++) bloom.add(fingerprint(`in-${i}`, 2));
+    expect(bloom.falsePositiveRate()).toBeGreaterThan(0.001);
+  });
+});
@@ -0,0 +1,442 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - DEDUP INDEX
+// Memory-bounded bookkeeping for key-based dedup. Keys are reduced to 64- or
+// 128-bit fingerprints where rows are transformed, and the merge keeps one
+// fixed-size entry per distinct key in typed arrays instead of the key text.
+// Keys first seen after the memory budget is used up are spilled to storage
+// and resolved partition by partition once the file has been read. A Bloom
+// filter offers a probabilistic 'keep first' at a stated false-positive rate.
+// ══════════════════════════════════════════════════════════════════════════
+
+import type { ChunkStore } from './outputStore';
+import { type DedupPolicy, type DedupWinner, type SurvivorScore, outranks } from './dedup';
+
+export type DedupIndexKind = 'fp128' | 'fp64' | 'bloom';
+
+export const DEDUP_INDEXES: { value: DedupIndexKind; label: string }[] = [
+  { value: 'fp128', label: '128-bit fingerprints' },
+  { value: 'fp64', label: '64-bit fingerprints (smaller, collisions unlikely below ~100M keys)' },
+  { value: 'bloom', label: 'Bloom filter (probabilistic, keep first only)' },
+];
+
+export const DEFAULT_DEDUP_MEMORY_MB = 256;
+export const DEFAULT_FALSE_POSITIVE_RATE = 0.001;
+
+export type Fingerprint = number[];  // 2 or 4 unsigned 32-bit words
+
+export function fingerprintWords(kind: DedupIndexKind): number {
+  return kind === 'fp128' ? 4 : 2;
+}
+
+export function formatRate(rate: number): string {
+  return parseFloat((rate * 100).toPrecision(2)) + '%';
+}
+
+// ── FINGERPRINTS ──────────────────────────────────────────────────────────
+// MurmurHash3 x86 128-bit mixing over the key's UTF-16 code units, two per
+// 32-bit word. 64-bit fingerprints are the first two words.
+
+const C1 = 0x239b961b;
+const C2 = 0xab0e9789;
+const C3 = 0x38b34ae5;
+const C4 = 0xa1e38b93;
+
+const rotl = (x: number, r: number) => (x << r) | (x >>> (32 - r));
+
+function fmix(h: number): number {
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  return h ^ (h >>> 16);
+}
+
+export function fingerprint(text: string, words: number): Fingerprint {
+  const n = Math.ceil(text.length / 2);
+  const word = (i: number) => (text.charCodeAt(2 * i) | ((text.charCodeAt(2 * i + 1) || 0) << 16));
+  let h1 = 0x9747b28c, h2 = 0x9747b28c, h3 = 0x9747b28c, h4 = 0x9747b28c;
+  const blocks = n >> 2;
+  for (let b = 0; b < blocks; b++) {
+    const k1 = Math.imul(rotl(Math.imul(word(4 * b), C1), 15), C2);
+    h1 = Math.imul(rotl(h1 ^ k1, 19) + h2, 5) + 0x561ccd1b;
+    const k2 = Math.imul(rotl(Math.imul(word(4 * b + 1), C2), 16), C3);
+    h2 = Math.imul(rotl(h2 ^ k2, 17) + h3, 5) + 0x0bcaa747;
+    const k3 = Math.imul(rotl(Math.imul(word(4 * b + 2), C3), 17), C4);
+    h3 = Math.imul(rotl(h3 ^ k3, 15) + h4, 5) + 0x96cd1c35;
+    const k4 = Math.imul(rotl(Math.imul(word(4 * b + 3), C4), 18), C1);
+    h4 = Math.imul(rotl(h4 ^ k4, 13) + h1, 5) + 0x32ac3b17;
+  }
+  const tail = n - 4 * blocks;
+  if (tail >= 3) h3 ^= Math.imul(rotl(Math.imul(word(4 * blocks + 2), C3), 17), C4);
+  if (tail >= 2) h2 ^= Math.imul(rotl(Math.imul(word(4 * blocks + 1), C2), 16), C3);
+  if (tail >= 1) h1 ^= Math.imul(rotl(Math.imul(word(4 * blocks), C1), 15), C2);
+
+  const len = text.length * 2;
+  h1 ^= len; h2 ^= len; h3 ^= len; h4 ^= len;
+  h1 = (h1 + h2 + h3 + h4) | 0; h2 = (h2 + h1) | 0; h3 = (h3 + h1) | 0; h4 = (h4 + h1) | 0;
+  h1 = fmix(h1); h2 = fmix(h2); h3 = fmix(h3); h4 = fmix(h4);
+  h1 = (h1 + h2 + h3 + h4) | 0; h2 = (h2 + h1) | 0; h3 = (h3 + h1) | 0; h4 = (h4 + h1) | 0;
+  return words === 4 ? [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0] : [h1 >>> 0, h2 >>> 0];
+}
+
+// ── FINGERPRINT TABLE ─────────────────────────────────────────────────────
+// Open addressing over typed arrays, at most half full. Entry columns hold
+// the current winner of each key; survivor scores are only kept for the
+// policies that compare them.
+
+export interface DedupIndex {
+  readonly size: number;
+  readonly bytes: number;  // memory held by the table
+  get(fp: Fingerprint): DedupWinner | undefined;
+  // Replaces the winner of a known key, or adds a new key. Returns false,
+  // storing nothing, when a new key would take the table past its budget.
+  set(fp: Fingerprint, winner: DedupWinner): boolean;
+}
+
+export function createDedupIndex(words: number, policy: DedupPolicy, budgetBytes: number): DedupIndex {
+  const scored = policy !== 'first' && policy !== 'last';
+  let capacity = 1024;  // slots; entries can grow to half of it
+  let slots = new Int32Array(capacity);  // entry + 1, 0 = empty
+  let keys = new Uint32Array((capacity / 2) * words);
+  let rows = new Uint32Array(capacity / 2);
+  let lines = new Uint32Array(capacity / 2);
+  let outputRows = new Uint32Array(capacity / 2);
+  let scores = new Float64Array(scored ? capacity / 2 : 0);  // NaN = text (see texts) or empty
+  const texts: (string | undefined)[] = [];
+  let textBytes = 0;
+  let size = 0;
+
+  const arrayBytes = () => slots.byteLength + keys.byteLength + rows.byteLength + lines.byteLength + outputRows.byteLength + scores.byteLength;
+
+  const find = (fp: Fingerprint): number => {
+    const mask = capacity - 1;
+    for (let s = fp[0] & mask; ; s = (s + 1) & mask) {
+      const e = slots[s] - 1;
+      if (e === -1) return -1 - s;  // free slot, encoded
+      let same = true;
+      for (let w = 0; w < words && same; w++) same = keys[e * words + w] === fp[w];
+      if (same) return e;
+    }
+  };
+
+  const grow = () => {
+    const next = capacity * 2;
+    const widen = <T extends Uint32Array | Float64Array>(a: T, len: number): T => {
+      const b = new (a.constructor as new (n: number) => T)(len);
+      b.set(a);
+      return b;
+    };
+    keys = widen(keys, (next / 2) * words);
+    rows = widen(rows, next / 2);
+    lines = widen(lines, next / 2);
+    outputRows = widen(outputRows, next / 2);
+    if (scored) scores = widen(scores, next / 2);
+    capacity = next;
+    slots = new Int32Array(capacity);
+    const mask = capacity - 1;
+    for (let e = 0; e < size; e++) {
+      let s = keys[e * words] & mask;
+      while (slots[s] !== 0) s = (s + 1) & mask;
+      slots[s] = e + 1;
+    }
+  };
+
+  const write = (e: number, winner: DedupWinner) => {
+    rows[e] = winner.row;
+    lines[e] = winner.line;
+    outputRows[e] = winner.outputRow;
+    if (!scored) return;
+    const score = winner.score;
+    if (texts[e] !== undefined) textBytes -= texts[e]!.length * 2;
+    texts[e] = typeof score === 'string' ? score : undefined;
+    if (typeof score === 'string') textBytes += score.length * 2;
+    scores[e] = typeof score === 'number' ? score : NaN;
+  };
+
+  return {
+    get size() { return size; },
+    get bytes() { return arrayBytes() + textBytes; },
+    get(fp) {
+      const e = find(fp);
+      if (e < 0) return undefined;
+      const score: SurvivorScore = !scored ? (policy === 'last' ? rows[e] : null)
+        : texts[e] !== undefined ? texts[e]! : isNaN(scores[e]) ? null : scores[e];
+      return { row: rows[e], line: lines[e], outputRow: outputRows[e], score };
+    },
+    set(fp, winner) {
+      let e = find(fp);
+      if (e < 0) {
+        if (size + 1 > capacity / 2) {
+          // Growing doubles every array
+          if (arrayBytes() * 2 + textBytes > budgetBytes) return false;
+          grow();
+          e = find(fp);
+        }
+        slots[-1 - e] = size + 1;
+        e = size++;
+        for (let w = 0; w < words; w++) keys[e * words + w] = fp[w];
+      }
+      write(e, winner);
+      return true;
+    },
+  };
+}
+
+// ── SPILL ─────────────────────────────────────────────────────────────────
+// Keys that didn't fit are appended to a ChunkStore, one JSON array per line,
+// in output order. Afterwards the records are read back once per partition
+// (a slice of the fingerprint space small enough for the budget) and each
+// key's winner is worked out exactly as the in-memory merge would have.
+
+export interface DedupSpill {
+  readonly count: number;
+  push(fp: Fingerprint, winner: DedupWinner): void;
+  // onLoser(loser, winner, replaced): replaced = the loser held the key first
+  resolve(
+    policy: DedupPolicy,
+    onLoser: (loser: DedupWinner, winner: DedupWinner, replaced: boolean) => void | Promise<void>
+  ): Promise<{ partitions: number; keys: number }>;
+  discard(): Promise<void>;
+}
+
+export function createDedupSpill(store: ChunkStore, words: number, budgetBytes: number): DedupSpill {
+  let pending: string[] = [];
+  let count = 0;
+  const hex = (fp: Fingerprint) => fp.map(w => w.toString(16).padStart(8, '0')).join('');
+  const flush = () => {
+    if (pending.length === 0) return;
+    store.push(pending.join('\n') + '\n');
+    pending = [];
+  };
+
+  return {
+    get count() { return count; },
+    push(fp, winner) {
+      pending.push(JSON.stringify([hex(fp), winner.outputRow, winner.row, winner.line, winner.score]));
+      count++;
+      if (pending.length >= 1000) flush();
+    },
+    async resolve(policy, onLoser) {
+      flush();
+      // Roughly what one entry costs in a table kept half full
+      const entryBytes = 2 * 4 + words * 4 + 12 + (policy === 'first' || policy === 'last' ? 0 : 8);
+      const partitions = Math.max(1, Math.ceil((count * entryBytes * 2) / budgetBytes));
+      let keys = 0;
+      for (let p = 0; p < partitions; p++) {
+        const index = createDedupIndex(words, policy, Infinity);
+        for (let c = 0; c < store.length; c++) {
+          for (const line of store.at(c).split('\n')) {
+            if (!line) continue;
+            // The key leads each line (after '["'), so other partitions' records are skipped unparsed
+            const fp: Fingerprint = [];
+            for (let w = 0; w < words; w++) fp.push(parseInt(line.slice(2 + w * 8, 10 + w * 8), 16));
+            if (fp[words - 1] % partitions !== p) continue;
+            const [, outputRow, row, lineNo, score] = JSON.parse(line) as [string, number, number, number, SurvivorScore];
+            const challenger: DedupWinner = { row, line: lineNo, outputRow, score };
+            const incumbent = index.get(fp);
+            if (!incumbent) {
+              index.set(fp, challenger);
+            } else if (outranks(score, incumbent.score, policy)) {
+              await onLoser(incumbent, challenger, true);
+              index.set(fp, challenger);
+            } else {
+              await onLoser(challenger, incumbent, false);
+            }
+          }
+          await new Promise(r => setTimeout(r, 0));
+        }
+        keys += index.size;
+      }
+      return { partitions, keys };
+    },
+    discard: () => store.discard(),
+  };
+}
+
+// ── SUPERSEDED ROWS ───────────────────────────────────────────────────────
+// Rows that lost their key, waiting for the pass that removes them. Entries
+// sit in typed arrays that count against the same budget as the index; when
+// the two together would go over, the entries are sorted by output row and
+// spilled as a run. Lookups merge the runs back, so they must come in
+// increasing output-row order, as a pass over the output makes them.
+
+export interface SupersededRow {
+  row: number;        // source data row of the loser
+  line: number;
+  outputRow: number;
+  by: number;         // source data row that holds the key now
+  replaced: boolean;  // the loser held the key first
+}
+
+export interface SupersededRows {
+  readonly size: number;
+  readonly bytes: number;  // memory held by entries not spilled yet
+  add(loser: DedupWinner, by: number, replaced: boolean): Promise<void>;
+  get(outputRow: number): SupersededRow | undefined;
+  has(outputRow: number): boolean;
+  discard(): Promise<void>;
+}
+
+const SUPERSEDED_ENTRY_BYTES = 4 * 4 + 1;
+
+// used() = what the rest of the dedup bookkeeping holds; a run is at least a
+// sixteenth of the budget so a full index doesn't spill one row at a time
+export function createSupersededRows(
+  budgetBytes: number,
+  used: () => number,
+  createStore: () => Promise<ChunkStore>
+): SupersededRows {
+  let capacity = 0;
+  let outputRows = new Uint32Array(0);
+  let rows = new Uint32Array(0);
+  let lines = new Uint32Array(0);
+  let bys = new Uint32Array(0);
+  let replacedFlags = new Uint8Array(0);
+  let held = 0;
+  let size = 0;
+  let store: ChunkStore | null = null;
+  const runs: { start: number; end: number }[] = [];  // chunk ranges in the store
+
+  const entry = (i: number): SupersededRow => ({
+    row: rows[i], line: lines[i], outputRow: outputRows[i], by: bys[i], replaced: replacedFlags[i] === 1,
+  });
+  const sortedHeld = () => Array.from({ length: held }, (_, i) => i).sort((a, b) => outputRows[a] - outputRows[b]);
+
+  const resize = (next: number) => {
+    const widen = <T extends Uint32Array | Uint8Array>(a: T): T => {
+      const b = new (a.constructor as new (n: number) => T)(next);
+      b.set(a.subarray(0, held));
+      return b;
+    };
+    outputRows = widen(outputRows);
+    rows = widen(rows);
+    lines = widen(lines);
+    bys = widen(bys);
+    replacedFlags = widen(replacedFlags);
+    capacity = next;
+  };
+
+  const spill = async () => {
+    store ??= await createStore();
+    const start = store.length;
+    const order = sortedHeld();
+    for (let k = 0; k < order.length; k += 1000) {
+      store.push(order.slice(k, k + 1000).map(i => {
+        const e = entry(i);
+        return `${e.outputRow},${e.row},${e.line},${e.by},${e.replaced ? 1 : 0}`;
+      }).join('\n'));
+    }
+    runs.push({ start, end: store.length });
+    held = 0;
+    resize(0);
+  };
+
+  // One cursor per spilled run plus one over the entries still held
+  type Cursor = { next(): SupersededRow | undefined };
+  const runCursor = (s: ChunkStore, start: number, end: number): Cursor => {
+    let c = start;
+    let lines: string[] = [];
+    let pos = 0;
+    return {
+      next() {
+        while (pos >= lines.length) {
+          if (c >= end) return undefined;
+          lines = s.at(c++).split('\n');
+          pos = 0;
+        }
+        const [outputRow, row, line, by, replaced] = lines[pos++].split(',').map(Number);
+        return { row, line, outputRow, by, replaced: replaced === 1 };
+      },
+    };
+  };
+  let heads: { cursor: Cursor; head: SupersededRow | undefined }[] | null = null;
+  let current: SupersededRow | undefined;
+
+  const seek = (outputRow: number) => {
+    if (!heads) {
+      const order = sortedHeld();
+      let k = 0;
+      const cursors: Cursor[] = runs.map(r => runCursor(store!, r.start, r.end));
+      cursors.push({ next: () => (k < order.length ? entry(order[k++]) : undefined) });
+      heads = cursors.map(cursor => ({ cursor, head: cursor.next() }));
+    }
+    while (!current || current.outputRow < outputRow) {
+      let min = -1;
+      for (let h = 0; h < heads.length; h++) {
+        const head = heads[h].head;
+        if (head && (min === -1 || head.outputRow < heads[min].head!.outputRow)) min = h;
+      }
+      if (min === -1) { current = undefined; return undefined; }
+      current = heads[min].head;
+      heads[min].head = heads[min].cursor.next();
+    }
+    return current.outputRow === outputRow ? current : undefined;
+  };
+
+  return {
+    get size() { return size; },
+    get bytes() { return capacity * SUPERSEDED_ENTRY_BYTES; },
+    async add(loser, by, replaced) {
+      if (held === capacity) {
+        const limit = Math.max(budgetBytes - used(), budgetBytes / 16);
+        const next = Math.max(1024, capacity * 2);
+        if (held > 0 && next * SUPERSEDED_ENTRY_BYTES > limit) await spill();
+        if (held === capacity) resize(Math.max(1024, capacity * 2));
+      }
+      outputRows[held] = loser.outputRow;
+      rows[held] = loser.row;
+      lines[held] = loser.line;
+      bys[held] = by;
+      replacedFlags[held] = replaced ? 1 : 0;
+      held++;
+      size++;
+    },
+    get: seek,
+    has: (outputRow) => seek(outputRow) !== undefined,
+    discard: async () => { await store?.discard(); },
+  };
+}
+
+// ── BLOOM FILTER ──────────────────────────────────────────────────────────
+// Sized for the expected number of keys at the requested false-positive rate,
+// within the budget. A false positive removes a unique row as a duplicate.
+
+export interface BloomFilter {
+  readonly bytes: number;
+  readonly hashes: number;
+  readonly size: number;  // keys added
+  has(fp: Fingerprint): boolean;  // true when the key may have been added
+  add(fp: Fingerprint): void;
+  falsePositiveRate(): number;  // expected rate at the current fill
+}
+
+export function createBloomFilter(expectedKeys: number, rate: number, budgetBytes: number): BloomFilter {
+  const n = Math.max(1000, expectedKeys);
+  const wanted = Math.ceil((-n * Math.log(rate)) / (Math.LN2 * Math.LN2));
+  const m = Math.max(1024, Math.min(wanted, Math.floor(budgetBytes * 8 / 32) * 32));
+  const bits = new Uint32Array(Math.ceil(m / 32));
+  const k = Math.max(1, Math.round((m / n) * Math.LN2));
+  let size = 0;
+  // Double hashing: bit i of a key is h1 + i·h2 mod m
+  const bit = (fp: Fingerprint, i: number) => (fp[0] + i * ((fp[1] | 1) >>> 0)) % m;
+  return {
+    bytes: bits.byteLength,
+    hashes: k,
+    get size() { return size; },
+    has(fp) {
+      for (let i = 0; i < k; i++) {
+        const b = bit(fp, i);
+        if (!(bits[b >>> 5] & (1 << (b & 31)))) return false;
+      }
+      return true;
+    },
+    add(fp) {
+      for (let i = 0; i < k; i++) {
+        const b = bit(fp, i);
+        bits[b >>> 5] |= 1 << (b & 31);
+      }
+      size++;
+    },
+    falsePositiveRate: () => Math.pow(1 - Math.exp((-k * size) / m), k),
+  };
+}
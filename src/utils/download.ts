@@ -0,0 +1,75 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - BROWSER DOWNLOAD
+// Saves an exported file: through a temporary Blob URL when it is a ready
+// Blob, or streamed to disk when it is produced as it is read. The only part
+// of the export path that needs a document.
+// ══════════════════════════════════════════════════════════════════════════
+
+import type { ExportFile } from './exporters';
+import { type OutputStorage, createOutputWriter, releaseOutput } from './outputStore';
+
+export type SaveResult = 'saved' | 'cancelled' | 'failed';
+
+// Not in TypeScript's DOM lib yet (File System Access API, Chromium only)
+type SaveFilePicker = (options: { suggestedName: string }) => Promise<FileSystemFileHandle>;
+
+function downloadBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.style.display = 'none';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 500);
+}
+
+// OPFS copies behind streamed downloads. Nothing tells the page when the
+// browser has finished reading one, so they are kept until the next run or
+// until the page goes away; the startup sweep takes any left after a crash.
+const downloadCopies: OutputStorage[] = [];
+
+export function releaseDownloads(): void {
+  for (const storage of downloadCopies.splice(0)) releaseOutput(storage);
+}
+
+// Streamed files go straight into a file the user picks where the browser
+// has a save dialog; elsewhere they are written to the OPFS first and
+// downloaded from there (see releaseDownloads). Call from the click handler:
+// the dialog needs the user's gesture.
+export async function saveFile(file: ExportFile): Promise<SaveResult> {
+  try {
+    if (file.blob) {
+      downloadBlob(file.blob, file.name);
+      return 'saved';
+    }
+    const win = window as Window & { showSaveFilePicker?: SaveFilePicker };
+    let handle: FileSystemFileHandle | null = null;
+    try {
+      handle = win.showSaveFilePicker ? await win.showSaveFilePicker({ suggestedName: file.name }) : null;
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return 'cancelled';
+      // e.g. the gesture expired while the export was prepared: download instead
+    }
+    if (handle) {
+      const writable = await handle.createWritable();
+      try {
+        for await (const bytes of file.bytes()) await writable.write(bytes as BufferSource);
+        await writable.close();
+      } catch (err) {
+        await writable.abort().catch(() => {});
+        throw err;
+      }
+      return 'saved';
+    }
+    const writer = await createOutputWriter(file.name, file.type);
+    for await (const bytes of file.bytes()) await writer.write(bytes);
+    const { output, storage } = await writer.close();
+    if (storage) downloadCopies.push(storage);
+    downloadBlob(output, file.name);
+    return 'saved';
+  } catch {
+    return 'failed';
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { type OutputEncoding, createStreamDecoder, detectEncoding, encodeOutput, resolveEncoding } from './encoding';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+// Joins the Blob parts encodeOutput returns
+async function encoded(content: string | string[], encoding: OutputEncoding): Promise<number[]> {
+  return Array.from(new Uint8Array(await new Blob(encodeOutput(content, encoding)).arrayBuffer()));
+}
+
+describe('detectEncoding', () => {
+  it('follows a byte order mark', () => {
+    expect(detectEncoding(bytes(0xEF, 0xBB, 0xBF, 0x61))).toBe('utf-8');
+    expect(detectEncoding(bytes(0xFF, 0xFE, 0x61, 0x00))).toBe('utf-16le');
+    expect(detectEncoding(bytes(0xFE, 0xFF, 0x00, 0x61))).toBe('utf-16be');
+  });
+
+  it('spots UTF-16 without a BOM by its zero bytes', () => {
+    const le = Array.from(utf8('id,name\n1,ann\n')).flatMap(b => [b, 0]);
+    expect(detectEncoding(new Uint8Array(le))).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0, ...le.slice(0, -1)]))).toBe('utf-16be');
+  });
+
+  it('takes valid UTF-8, even with a sequence cut off at the end of the sample', () => {
+    const text = utf8('name\nMünchen\n東京');
+    expect(detectEncoding(text)).toBe('utf-8');
+    expect(detectEncoding(text.slice(0, -1))).toBe('utf-8');
+  });
+
+  it('picks the legacy charset whose script the text reads as', () => {
+    // 日本語 in Shift_JIS, Привет мир in Windows-1251
+    expect(detectEncoding(bytes(0x93, 0xFA, 0x96, 0x7B, 0x8C, 0xEA))).toBe('shift_jis');
+    expect(detectEncoding(bytes(0xCF, 0xF0, 0xE8, 0xE2, 0xE5, 0xF2, 0x20, 0xEC, 0xE8, 0xF0))).toBe('windows-1251');
+  });
+
+  it('reads accented Latin text as Windows-1252', () => {
+    // München, Zoë in Windows-1252
+    expect(detectEncoding(bytes(0x4D, 0xFC, 0x6E, 0x63, 0x68, 0x65, 0x6E, 0x2C, 0x5A, 0x6F, 0xEB))).toBe('windows-1252');
+  });
+});
+
+describe('resolveEncoding', () => {
+  it('sniffs on Auto and maps dropdown names to decoder labels', () => {
+    expect(resolveEncoding('Auto', utf8('a,b'))).toBe('utf-8');
+    expect(resolveEncoding('ISO-8859-1', utf8('a,b'))).toBe('windows-1252');
+    expect(resolveEncoding('GB2312', utf8('a,b'))).toBe('gbk');
+  });
+
+  it('reads UTF-16 as little-endian unless a BOM says otherwise', () => {
+    expect(resolveEncoding('UTF-16', bytes(0x00, 0x61))).toBe('utf-16le');
+    expect(resolveEncoding('UTF-16', bytes(0xFE, 0xFF, 0x00, 0x61))).toBe('utf-16be');
+  });
+});
+
+describe('createStreamDecoder', () => {
+  it('carries a character split across chunks over to the next one', () => {
+    const decoder = createStreamDecoder('utf-8');
+    const text = utf8('ü東');
+    expect(decoder.decode(text.slice(0, 1), false) + decoder.decode(text.slice(1, 3), false) + decoder.decode(text.slice(3), true)).toBe('ü東');
+  });
+
+  it('falls back to UTF-8 for a label TextDecoder does not know', () => {
+    expect(createStreamDecoder('x-unknown').decode(utf8('é'), true)).toBe('é');
+  });
+});
+
+describe('encodeOutput', () => {
+  it('adds the BOM the encoding calls for, once', async () => {
+    expect(await encoded('a', 'UTF-8')).toEqual([0x61]);
+    expect(await encoded(['a', 'b'], 'UTF-8-BOM')).toEqual([0xEF, 0xBB, 0xBF, 0x61, 0x62]);
+    expect(await encoded(['a', 'é'], 'UTF-16LE')).toEqual([0xFF, 0xFE, 0x61, 0x00, 0xE9, 0x00]);
+  });
+
+  it('writes characters outside the BMP as surrogate pairs in UTF-16', async () => {
+    expect(await encoded('😀', 'UTF-16LE')).toEqual([0xFF, 0xFE, 0x3D, 0xD8, 0x00, 0xDE]);
+  });
+});
@@ -0,0 +1,204 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - CHARACTER ENCODING
+// Input: label → WHATWG decoder mapping, BOM sniffing and charset guessing.
+// Output: UTF-8 / UTF-8 with BOM / UTF-16 LE encoding for downloads.
+// ══════════════════════════════════════════════════════════════════════════
+
+export type OutputEncoding = 'UTF-8' | 'UTF-8-BOM' | 'UTF-16LE';
+
+export const OUTPUT_ENCODINGS: { value: OutputEncoding; label: string }[] = [
+  { value: 'UTF-8', label: 'UTF-8' },
+  { value: 'UTF-8-BOM', label: 'UTF-8 with BOM (Excel)' },
+  { value: 'UTF-16LE', label: 'UTF-16 LE' },
+];
+
+// UI labels → TextDecoder labels. WHATWG treats ASCII and ISO-8859-1 as
+// windows-1252 (a strict superset), and GB2312 as GBK.
+const DECODER_LABELS: Record<string, string> = {
+  'UTF-8': 'utf-8',
+  'UTF-8-BOM': 'utf-8',
+  'UTF-16': 'utf-16le',
+  'UTF-16LE': 'utf-16le',
+  'UTF-16BE': 'utf-16be',
+  'ASCII': 'windows-1252',
+  'ISO-8859-1': 'windows-1252',
+  'ISO-8859-15': 'iso-8859-15',
+  'Windows-1252': 'windows-1252',
+  'Windows-1251': 'windows-1251',
+  'Shift_JIS': 'shift_jis',
+  'EUC-JP': 'euc-jp',
+  'GB2312': 'gbk',
+  'Big5': 'big5',
+  'EUC-KR': 'euc-kr',
+  'KOI8-R': 'koi8-r',
+};
+
+// Reverse lookup so the log can show the same names as the Encoding dropdown
+const DISPLAY_NAMES: Record<string, string> = {
+  'utf-8': 'UTF-8', 'utf-16le': 'UTF-16LE', 'utf-16be': 'UTF-16BE',
+  'windows-1252': 'Windows-1252', 'iso-8859-15': 'ISO-8859-15',
+  'windows-1251': 'Windows-1251', 'shift_jis': 'Shift_JIS', 'euc-jp': 'EUC-JP',
+  'gbk': 'GB2312', 'big5': 'Big5', 'euc-kr': 'EUC-KR', 'koi8-r': 'KOI8-R',
+};
+
+export function encodingDisplayName(decoderLabel: string): string {
+  return DISPLAY_NAMES[decoderLabel] || decoderLabel;
+}
+
+// ── DETECTION ─────────────────────────────────────────────────────────────
+
+export function sniffBOM(bytes: Uint8Array): string | null {
+  if (bytes.length >= 3 && bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return 'utf-8';
+  if (bytes.length >= 2 && bytes[0] === 0xFF && bytes[1] === 0xFE) return 'utf-16le';
+  if (bytes.length >= 2 && bytes[0] === 0xFE && bytes[1] === 0xFF) return 'utf-16be';
+  return null;
+}
+
+// Valid UTF-8, allowing a multi-byte sequence to be cut off at the very end
+// of the sample (the sample is usually the first chunk of a larger file).
+function isValidUTF8(bytes: Uint8Array): boolean {
+  let i = 0;
+  while (i < bytes.length) {
+    const b = bytes[i];
+    let extra = 0;
+    if (b < 0x80) { i++; continue; }
+    else if (b >= 0xC2 && b <= 0xDF) extra = 1;
+    else if (b >= 0xE0 && b <= 0xEF) extra = 2;
+    else if (b >= 0xF0 && b <= 0xF4) extra = 3;
+    else return false;
+    if (i + extra >= bytes.length) return true;
+    for (let k = 1; k <= extra; k++) {
+      if ((bytes[i + k] & 0xC0) !== 0x80) return false;
+    }
+    i += extra + 1;
+  }
+  return true;
+}
+
+// UTF-16 without a BOM shows up as text where every other byte is zero
+function guessUTF16(bytes: Uint8Array): string | null {
+  const len = Math.min(bytes.length, 4096) & ~1;
+  if (len < 4) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < len; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  const pairs = len / 2;
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return 'utf-16le';
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return 'utf-16be';
+  return null;
+}
+
+// Legacy charsets tried in order. Each must decode the sample without errors
+// and the non-ASCII characters it produces must mostly belong to its script.
+const LEGACY_CANDIDATES: { label: string; script: RegExp }[] = [
+  { label: 'shift_jis', script: /[\u3040-\u30FF\u4E00-\u9FFF\uFF61-\uFF9F]/ },
+  { label: 'euc-jp', script: /[\u3040-\u30FF\u4E00-\u9FFF]/ },
+  { label: 'euc-kr', script: /[\uAC00-\uD7AF]/ },
+  { label: 'gbk', script: /[\u4E00-\u9FFF]/ },
+  { label: 'big5', script: /[\u4E00-\u9FFF]/ },
+  { label: 'windows-1251', script: /[\u0400-\u04FF]/ },
+  { label: 'koi8-r', script: /[\u0400-\u04FF]/ },
+];
+
+// A script character wedged between two ASCII letters ("München"
+// read as Cyrillic) is an accented Latin letter in disguise and doesn't count.
+function scriptScore(text: string, script: RegExp): { ratio: number; count: number } {
+  const chars = Array.from(text);
+  const isAsciiLetter = (ch: string | undefined) => !!ch && /^[A-Za-z]$/.test(ch);
+  let nonAscii = 0;
+  let inScript = 0;
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    if (ch.charCodeAt(0) < 0x80) continue;
+    nonAscii++;
+    if (script.test(ch) && !(isAsciiLetter(chars[i - 1]) && isAsciiLetter(chars[i + 1]))) inScript++;
+  }
+  return { ratio: nonAscii === 0 ? 0 : inScript / nonAscii, count: inScript };
+}
+
+// Returns a TextDecoder label for the sample. Order: BOM, UTF-16 zero pattern,
+// valid UTF-8, best-scoring legacy charset, and finally windows-1252 (every
+// byte sequence is valid there, so it never fails). On equal ratios the
+// charset yielding more script characters wins: single-byte Cyrillic read as
+// GBK also "looks" Chinese, but with half as many characters.
+export function detectEncoding(sample: Uint8Array): string {
+  const bom = sniffBOM(sample);
+  if (bom) return bom;
+  const utf16 = guessUTF16(sample);
+  if (utf16) return utf16;
+  if (isValidUTF8(sample)) return 'utf-8';
+
+  let best = 'windows-1252';
+  let bestRatio = 0.8;
+  let bestCount = 0;
+  for (const { label, script } of LEGACY_CANDIDATES) {
+    let text: string;
+    try {
+      text = new TextDecoder(label, { fatal: true }).decode(sample, { stream: true });
+    } catch {
+      continue;
+    }
+    const { ratio, count } = scriptScore(text, script);
+    if (ratio > bestRatio || (ratio === bestRatio && count > bestCount)) {
+      best = label; bestRatio = ratio; bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Resolves the Encoding dropdown value to a TextDecoder label. 'Auto' sniffs
+// the sample; 'UTF-16' follows a BOM when present and defaults to LE.
+export function resolveEncoding(selected: string, sample: Uint8Array): string {
+  if (!selected || selected === 'Auto') return detectEncoding(sample);
+  if (selected === 'UTF-16') return sniffBOM(sample) === 'utf-16be' ? 'utf-16be' : 'utf-16le';
+  return DECODER_LABELS[selected] || 'utf-8';
+}
+
+// Streaming decoder: call decode() for each chunk with `last` set on the final
+// one. Multi-byte sequences split across chunk boundaries are carried over
+// internally by TextDecoder's stream mode.
+export function createStreamDecoder(decoderLabel: string): { decode: (bytes: Uint8Array, last: boolean) => string } {
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(decoderLabel);
+  } catch {
+    decoder = new TextDecoder('utf-8');
+  }
+  return {
+    decode: (bytes, last) => decoder.decode(bytes, { stream: !last }),
+  };
+}
+
+// ── OUTPUT ────────────────────────────────────────────────────────────────
+
+function encodeUTF16LE(content: string) {
+  const out = new Uint8Array(content.length * 2);
+  for (let i = 0; i < content.length; i++) {
+    const code = content.charCodeAt(i);
+    out[i * 2] = code & 0xFF;
+    out[i * 2 + 1] = code >> 8;
+  }
+  return out;
+}
+
+// Converts output text to Blob parts in the chosen encoding (BOM included
+// where the encoding calls for one). Content may arrive as several parts so
+// large exports never have to be joined into one string.
+export function encodeOutput(content: string | string[], encoding: OutputEncoding = 'UTF-8'): BlobPart[] {
+  const parts = typeof content === 'string' ? [content] : content;
+  switch (encoding) {
+    case 'UTF-8-BOM':
+      return [new Uint8Array([0xEF, 0xBB, 0xBF]), ...parts];
+    case 'UTF-16LE':
+      return [new Uint8Array([0xFF, 0xFE]), ...parts.map(encodeUTF16LE)];
+    default:
+      return parts;
+  }
+}
+
+export function outputCharset(encoding: OutputEncoding = 'UTF-8'): string {
+  return encoding === 'UTF-16LE' ? 'utf-16le' : 'utf-8';
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { type CleaningConfig, processFile } from './cleaningEngine';
+import {
+  type CleaningResult, type ExportOutcome, createCleaningResult, exportCSV, exportChangeLog, exportJSON, exportRejects,
+} from './exporters';
+import { DEFAULT_PRESET_SETTINGS, configFromSettings } from './presets';
+
+const BASE: CleaningConfig = configFromSettings(DEFAULT_PRESET_SETTINGS);
+
+async function run(csv: string, overrides: Partial<CleaningConfig> = {}): Promise<CleaningResult> {
+  const result = await processFile(new File([csv], 'people.csv'), { ...BASE, ...overrides }, () => {}, () => {});
+  return createCleaningResult({ ...result, fileName: 'people.csv' });
+}
+
+// Reads the file the way a download does, through bytes()
+async function read(outcome: ExportOutcome, label = 'utf-8'): Promise<string> {
+  if (!outcome.ok) throw new Error(outcome.error.message);
+  const decoder = new TextDecoder(label);
+  let text = '';
+  for await (const part of outcome.file.bytes()) text += decoder.decode(part, { stream: true });
+  return text + decoder.decode();
+}
+
+const CSV = 'id,name,city\n1,ann,oslo\n2,bob,rome\n2,bob,rome\n3,,\n';
+
+describe('exportCSV', () => {
+  it('hands out the stored output, behind a BOM or transcoded when asked', async () => {
+    const result = await run(CSV);
+    const outcome = exportCSV(result);
+    expect(outcome.ok && outcome.file.name).toBe('people_cleaned.csv');
+    expect(await read(outcome)).toBe('id,name,city\n1,ann,oslo\n2,bob,rome\n3,,');
+    expect(await read(exportCSV(result, undefined, 'UTF-8-BOM'))).toBe('id,name,city\n1,ann,oslo\n2,bob,rome\n3,,');
+    expect(await read(exportCSV(result, undefined, 'UTF-16LE'), 'utf-16le')).toBe('id,name,city\n1,ann,oslo\n2,bob,rome\n3,,');
+  });
+
+  it('writes selected columns with the run\'s line ending', async () => {
+    const result = await run(CSV, { eol: 'CRLF' });
+    const outcome = exportCSV(result, ['city', 'id', 'missing']);
+    expect(outcome.ok && outcome.file.name).toBe('people_selected.csv');
+    expect(await read(outcome)).toBe('city,id\r\noslo,1\r\nrome,2\r\n,3');
+  });
+
+  it('fails without data or without any of the chosen columns', async () => {
+    expect(exportCSV(createCleaningResult({ output: new Blob([]), headers: [], fileName: 'x.csv' }))).toMatchObject({ ok: false, error: { code: 'no-data' } });
+    expect(exportCSV(await run(CSV), ['nope'])).toMatchObject({ ok: false, error: { code: 'no-columns' } });
+  });
+});
+
+describe('exportJSON', () => {
+  it('writes one object per row, the way JSON.stringify lays them out', async () => {
+    const text = await read(await exportJSON(await run(CSV), ['name']));
+    expect(JSON.parse(text)).toEqual([{ name: 'ann' }, { name: 'bob' }, { name: '' }]);
+    expect(text.startsWith('[\n  {\n    "name": "ann"\n  },\n')).toBe(true);
+  });
+});
+
+describe('exportRejects', () => {
+  it('writes the rejects CSV as stored and the JSON form with the cells under "data"', async () => {
+    const result = await run('a,b\n1,x\n1,x\n2,y,extra\n', { eol: 'CRLF' });
+    expect(await read(exportRejects(result, 'csv'))).toBe(
+      '_row,_line,_reason,_action,_detail,a,b,_overflow\r\n' +
+      '2,3,duplicate,removed,duplicate of row 1,1,x,\r\n' +
+      '3,4,column-mismatch,normalized,"expected 2 columns, got 3",2,y,"[""extra""]"',
+    );
+    const json = JSON.parse(await read(exportRejects(result, 'json')));
+    expect(json).toHaveLength(2);
+    expect(json[1]).toEqual({
+      row: 3, line: 4, reason: 'column-mismatch', action: 'normalized', detail: 'expected 2 columns, got 3',
+      data: { a: '2', b: 'y' }, overflow: ['extra'],
+    });
+  });
+
+  it('fails when nothing was rejected', async () => {
+    expect(exportRejects(await run('a\n1\n'), 'json')).toMatchObject({ ok: false, error: { code: 'no-data' } });
+  });
+});
+
+describe('exportChangeLog', () => {
+  it('lists each changed cell with the run\'s line ending', async () => {
+    const result = await run('name\n  ann \n', { trackChanges: true, eol: 'CRLF' });
+    expect(await read(exportChangeLog(result))).toBe('row,output_row,column,rule,old_value,new_value\r\n1,1,name,trimWhitespace,  ann ,ann\r\n');
+  });
+});
@@ -0,0 +1,305 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - RESULTS & EXPORTS
+// A cleaning run's output as a plain value, so any number of runs can be
+// kept side by side, and exporters that turn one into a named file. Nothing
+// here touches the DOM: failures come back as typed errors, and saving the
+// file is up to the caller (see download.ts in the app, or the CLI).
+// ══════════════════════════════════════════════════════════════════════════
+
+import {
+  type ColumnTypes,
+  quoteCell,
+  readDataRows,
+  readOutputText,
+  getOutputRows,
+  generateCreateTable,
+  generateLoadData,
+} from './cleaningEngine';
+import { type OutputEncoding, encodeOutput, outputCharset } from './encoding';
+import { type RejectLog, emptyRejectLog, REJECT_META_COLUMNS } from './rejects';
+import { type ChangeLog, createChangeLog, changeLogCells, CHANGE_LOG_HEADERS } from './changeLog';
+import { type InsertScriptOptions, generateInsertScript } from './sqlInsert';
+import { type DataProfile, profileToHTML } from './profile';
+import { type ValidationSchema, schemaToJSON } from './schema';
+import { type CleaningPreset, presetsToJSON } from './presets';
+import type { OutputStorage } from './outputStore';
+import type { SqlExportOptions } from './sqlDialects';
+
+// What the CREATE TABLE and load statements are generated from, so an export
+// of some columns can generate its own
+export interface SqlTarget {
+  tableName: string;
+  pkColumn: string;
+  cleanedFileName: string;  // the file the load statement reads
+  types: ColumnTypes;
+  options: SqlExportOptions;
+}
+
+// Never mutated once created; edits (new SQL, an applied fuzzy review)
+// produce a new result, so earlier runs stay intact for comparison
+export interface CleaningResult {
+  readonly fileName: string;     // source file the run cleaned
+  readonly headers: string[];
+  readonly output: Blob;         // CSV, header line first; read from disk when spilled
+  readonly storage: OutputStorage | null;  // where output lives, for releaseOutput
+  readonly separator: string;
+  readonly eol: string;          // line break between records, for files written alongside
+  readonly sql: SqlTarget | null;  // null = no SQL for this run
+  readonly rejects: RejectLog;
+  readonly changes: ChangeLog;
+}
+
+export function createCleaningResult(data: {
+  output: Blob;
+  storage?: OutputStorage | null;
+  headers: string[];
+  fileName: string;
+  sql?: SqlTarget | null;
+  separator?: string;
+  eol?: string;
+  rejects?: RejectLog;
+  changes?: ChangeLog;
+}): CleaningResult {
+  return {
+    fileName: data.fileName, headers: data.headers, output: data.output, storage: data.storage || null,
+    separator: data.separator || ',', eol: data.eol || '\n', sql: data.sql || null,
+    rejects: data.rejects || emptyRejectLog(), changes: data.changes || createChangeLog(),
+  };
+}
+
+// Column type edits after cleaning only change the SQL, never the data
+export function withSQL(result: CleaningResult, types: ColumnTypes, options: SqlExportOptions): CleaningResult {
+  return result.sql ? { ...result, sql: { ...result.sql, types, options } } : result;
+}
+
+// ── OUTCOMES ──────────────────────────────────────────────────────────────
+
+export type ExportErrorCode = 'no-data' | 'no-columns' | 'missing-pk' | 'failed';
+
+export interface ExportError {
+  code: ExportErrorCode;
+  message: string;
+}
+
+// Exports built from the cleaned data are produced while they are read, so
+// a multi-GB output never sits in memory as text; small files and the
+// UTF-8 CSV (the stored output itself) come as a ready Blob
+export interface ExportFile {
+  name: string;
+  type: string;        // MIME type with charset
+  blob: Blob | null;   // null when the content only exists as bytes()
+  bytes(): AsyncGenerator<Uint8Array>;
+}
+
+export type ExportOutcome = { ok: true; file: ExportFile } | { ok: false; error: ExportError };
+
+const fail = (code: ExportErrorCode, message: string): ExportOutcome => ({ ok: false, error: { code, message } });
+
+const mimeType = (type: string, encoding: OutputEncoding) => `${type};charset=${outputCharset(encoding)}`;
+
+function blobFile(blob: Blob, name: string): ExportOutcome {
+  return { ok: true, file: { name, type: blob.type, blob, bytes: () => blobBytes(blob) } };
+}
+
+function file(content: string | string[], name: string, type: string, encoding: OutputEncoding = 'UTF-8'): ExportOutcome {
+  return blobFile(new Blob(encodeOutput(content, encoding), { type: mimeType(type, encoding) }), name);
+}
+
+// A CSV kept as a Blob: UTF-8 is used as is (behind a BOM if asked for);
+// UTF-16 is transcoded as it is read
+function storedCsvFile(blob: Blob, name: string, encoding: OutputEncoding): ExportOutcome {
+  if (encoding === 'UTF-16LE') return streamedFile(() => readOutputText(blob), name, 'text/csv', encoding);
+  return blobFile(new Blob([...encodeOutput('', encoding), blob], { type: mimeType('text/csv', encoding) }), name);
+}
+
+// parts() is called again each time the file is read
+function streamedFile(parts: () => AsyncIterable<string>, name: string, type: string, encoding: OutputEncoding): ExportOutcome {
+  return { ok: true, file: { name, type: mimeType(type, encoding), blob: null, bytes: () => byteStream(parts(), encoding) } };
+}
+
+const failed = (err: unknown, fallback: string) => fail('failed', err instanceof Error ? err.message : fallback);
+
+const baseName = (result: CleaningResult) => (result.fileName || 'data').replace(/\.[^.]+$/, '');
+
+const selectedSuffix = (selectedColumns?: string[]) => (selectedColumns && selectedColumns.length > 0 ? '_selected' : '');
+
+// Encodes text parts one at a time, for writers that take bytes as they come
+// instead of a finished Blob
+export async function* byteStream(parts: Iterable<string> | AsyncIterable<string>, encoding: OutputEncoding = 'UTF-8'): AsyncGenerator<Uint8Array> {
+  const utf8 = new TextEncoder();
+  let first = true;
+  for await (const part of parts) {
+    // Only the first part carries the BOM
+    for (const p of encodeOutput(part, encoding).slice(first || encoding === 'UTF-8' ? 0 : 1)) {
+      yield typeof p === 'string' ? utf8.encode(p) : (p as Uint8Array);
+    }
+    first = false;
+  }
+}
+
+async function* blobBytes(blob: Blob): AsyncGenerator<Uint8Array> {
+  const CHUNK_SIZE = 1024 * 1024;
+  for (let offset = 0; offset < blob.size; offset += CHUNK_SIZE) {
+    yield new Uint8Array(await blob.slice(offset, offset + CHUNK_SIZE).arrayBuffer());
+  }
+}
+
+// ── CLEANED DATA ──────────────────────────────────────────────────────────
+
+export function exportCSV(result: CleaningResult, selectedColumns?: string[], encoding: OutputEncoding = 'UTF-8'): ExportOutcome {
+  if (result.output.size === 0) return fail('no-data', 'No cleaned data available. Please clean a file first.');
+
+  // If specific columns are selected, filter the data
+  if (selectedColumns && selectedColumns.length > 0) {
+    const colIndices = selectedColumns.map(col => result.headers.indexOf(col)).filter(idx => idx !== -1);
+    if (colIndices.length === 0) return fail('no-columns', 'Selected columns not found.');
+    const sep = result.separator;
+    return streamedFile(async function* () {
+      // Each batch starts with the line break that ends the one before
+      yield colIndices.map(idx => quoteCell(result.headers[idx])).join(sep);
+      const eol = result.eol;
+      let rows: string[] = [];
+      let any = false;
+      for await (const row of readDataRows(result.output, sep)) {
+        rows.push(colIndices.map(idx => quoteCell(row[idx] || '')).join(sep));
+        if (rows.length >= 5000) { yield eol + rows.join(eol); rows = []; any = true; }
+      }
+      if (rows.length > 0) yield eol + rows.join(eol);
+      else if (!any) yield eol;
+    }, baseName(result) + '_selected.csv', 'text/csv', encoding);
+  }
+
+  return storedCsvFile(result.output, baseName(result) + '_cleaned.csv', encoding);
+}
+
+export function exportSQL(result: CleaningResult, selectedColumns?: string[], encoding: OutputEncoding = 'UTF-8'): ExportOutcome {
+  const { sql } = result;
+  if (!sql) return fail('no-data', 'No SQL available. Please clean a file first.');
+  // A column subset loads from the file exportCSV names for it
+  const selected = !!selectedColumns && selectedColumns.length > 0;
+  const headers = selected ? selectedColumns.filter(col => result.headers.includes(col)) : result.headers;
+  if (headers.length === 0) return fail('no-columns', 'No valid columns selected.');
+  try {
+    const createSQL = generateCreateTable(sql.tableName, headers, sql.types, sql.pkColumn, sql.options);
+    // The CSV is exported in the same encoding as the script
+    const loadSQL = generateLoadData(sql.tableName, selected ? baseName(result) + '_selected.csv' : sql.cleanedFileName, headers, sql.options, sql.types, encoding);
+    const name = baseName(result) + selectedSuffix(selectedColumns) + '_import.sql';
+    return file(createSQL + '\n\n' + loadSQL, name, 'text/plain', encoding);
+  } catch (err) {
+    return failed(err, 'Failed to build SQL');
+  }
+}
+
+// Batched INSERT (or UPSERT) script, generated one statement at a time as the
+// file is read
+export function exportInsertSQL(
+  result: CleaningResult, options: InsertScriptOptions, selectedColumns?: string[], encoding: OutputEncoding = 'UTF-8'
+): ExportOutcome {
+  if (result.output.size === 0) return fail('no-data', 'No cleaned data available. Please clean a file first.');
+  const headers = selectedColumns && selectedColumns.length > 0
+    ? selectedColumns.filter(col => result.headers.includes(col))
+    : result.headers;
+  if (headers.length === 0) return fail('no-columns', 'No valid columns selected.');
+  if (options.upsert && !headers.includes(options.pkColumn)) {
+    return fail('missing-pk', `Upsert needs the primary key column "${options.pkColumn}" in the export.`);
+  }
+  const colIndices = headers.map(h => result.headers.indexOf(h));
+  const rows = async function* () {
+    for await (const cells of readDataRows(result.output, result.separator)) yield colIndices.map(i => cells[i] ?? '');
+  };
+  const name = baseName(result) + selectedSuffix(selectedColumns) + (options.upsert ? '_upsert.sql' : '_insert.sql');
+  return streamedFile(() => generateInsertScript(headers, rows(), options), name, 'text/plain', encoding);
+}
+
+// Same layout as JSON.stringify(rows, null, 2), written one row at a time
+export async function exportJSON(result: CleaningResult, selectedColumns?: string[], encoding: OutputEncoding = 'UTF-8'): Promise<ExportOutcome> {
+  if (result.output.size === 0) return fail('no-data', 'No data available. Please clean a file first.');
+  if (result.headers.length === 0) return fail('no-data', 'No headers available. Please clean a file first.');
+  try {
+    if ((await getOutputRows(result.output, 1, result.separator)).length === 0) return fail('no-data', 'No data rows found.');
+  } catch (err) {
+    return failed(err, 'Failed to read cleaned data');
+  }
+
+  // Determine which columns to include
+  const headersToUse = selectedColumns && selectedColumns.length > 0
+    ? selectedColumns.filter(col => result.headers.includes(col))
+    : result.headers;
+  if (headersToUse.length === 0) return fail('no-columns', 'No valid columns selected.');
+  const colIndices = headersToUse.map(h => result.headers.indexOf(h));
+
+  const name = baseName(result) + selectedSuffix(selectedColumns) + '_cleaned.json';
+  return streamedFile(async function* () {
+    yield '[\n';
+    let parts: string[] = [];
+    let n = 0;
+    for await (const cells of readDataRows(result.output, result.separator)) {
+      const row: Record<string, string> = {};
+      // Missing trailing cells read as empty
+      headersToUse.forEach((header, k) => { row[header] = (cells[colIndices[k]] ?? '').trim(); });
+      parts.push((n++ > 0 ? ',\n' : '') + JSON.stringify(row, null, 2).replace(/^/gm, '  '));
+      if (parts.length >= 1000) { yield parts.join(''); parts = []; }
+    }
+    yield parts.join('') + '\n]';
+  }, name, 'application/json', encoding);
+}
+
+// ── AUDIT FILES ───────────────────────────────────────────────────────────
+
+// Quarantine file: removed and reshaped rows with their reason codes. The JSON
+// form nests the source cells under "data" and restores _overflow as an array.
+export function exportRejects(result: CleaningResult, format: 'csv' | 'json', encoding: OutputEncoding = 'UTF-8'): ExportOutcome {
+  const rejects = result.rejects;
+  if (rejects.count === 0) return fail('no-data', 'No rows were rejected.');
+  const name = baseName(result) + '_rejects';
+  if (format === 'csv') return storedCsvFile(rejects.output, name + '.csv', encoding);
+  const headers = rejects.headers;
+  const sourceHeaders = headers.slice(REJECT_META_COLUMNS.length, -1);
+  return streamedFile(async function* () {
+    yield '[\n';
+    let parts: string[] = [];
+    let n = 0;
+    for await (const cells of readDataRows(rejects.output)) {
+      const data: Record<string, string> = {};
+      sourceHeaders.forEach((h, i) => { data[h] = cells[REJECT_META_COLUMNS.length + i] ?? ''; });
+      const overflow = cells[headers.length - 1];
+      const entry = {
+        row: Number(cells[0]), line: Number(cells[1]), reason: cells[2], action: cells[3], detail: cells[4],
+        data, ...(overflow ? { overflow: JSON.parse(overflow) as string[] } : {}),
+      };
+      parts.push((n++ > 0 ? ',\n' : '') + JSON.stringify(entry, null, 2).replace(/^/gm, '  '));
+      if (parts.length >= 1000) { yield parts.join(''); parts = []; }
+    }
+    yield parts.join('') + '\n]\n';
+  }, name + '.json', 'application/json', encoding);
+}
+
+export function exportChangeLog(result: CleaningResult, encoding: OutputEncoding = 'UTF-8'): ExportOutcome {
+  if (result.changes.entries.length === 0) {
+    return fail('no-data', 'No cell changes were recorded. Turn on "Track Cell Changes" and clean again.');
+  }
+  const lines = [CHANGE_LOG_HEADERS.join(',')];
+  for (const change of result.changes.entries) lines.push(changeLogCells(change).map(c => quoteCell(c)).join(','));
+  return file(lines.join(result.eol) + result.eol, baseName(result) + '_changes.csv', 'text/csv', encoding);
+}
+
+// Always UTF-8: the HTML report declares its charset itself
+export function exportProfile(profiles: DataProfile[], format: 'html' | 'json'): ExportOutcome {
+  if (profiles.length === 0) return fail('no-data', 'No profile available. Profile the file first.');
+  const name = (profiles[0].fileName || 'data').replace(/\.[^.]+$/, '').replace(/_cleaned$/, '') + '_profile.' + format;
+  return format === 'html'
+    ? file(profileToHTML(profiles), name, 'text/html')
+    : file(JSON.stringify(profiles, null, 2), name, 'application/json');
+}
+
+// ── SETTINGS FILES ────────────────────────────────────────────────────────
+
+export function exportSchema(schema: ValidationSchema): ExportOutcome {
+  return file(schemaToJSON(schema), 'validation_schema.json', 'application/json');
+}
+
+export function exportPresets(presets: CleaningPreset[]): ExportOutcome {
+  if (presets.length === 0) return fail('no-data', 'No presets to export.');
+  const name = presets.length === 1 ? presets[0].name.replace(/[^a-zA-Z0-9_-]+/g, '_') : 'cleaning';
+  return file(presetsToJSON(presets), `${name}_presets.json`, 'application/json');
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type ColumnFillSetting, createFiller, createFillStats, describeFillPlan, recordFillStats, resolveFillPlan,
+} from './fillMissing';
+
+// Both passes over rows held in memory
+function fill(headers: string[], types: Record<string, string>, settings: Record<string, ColumnFillSetting>, rows: string[][]) {
+  const stats = createFillStats(headers.length);
+  for (const row of rows) recordFillStats(stats, row);
+  const plan = resolveFillPlan(headers, types, settings, stats);
+  const filler = createFiller(plan);
+  const out = [...rows.flatMap(r => filler.push(r)), ...filler.flush()];
+  return { plan, out, filled: filler.filled };
+}
+
+const column = (rows: string[][], i = 0) => rows.map(r => r[i]);
+
+describe('fill strategies', () => {
+  const values = [['4'], [''], ['1'], ['10'], [''], ['1']];
+
+  it('fills with the mean, median or most frequent value', () => {
+    const headers = ['n'];
+    const types = { n: 'decimal' };
+    expect(column(fill(headers, types, { n: { strategy: 'mean' } }, values).out)).toEqual(['4', '4', '1', '10', '4', '1']);
+    expect(column(fill(headers, types, { n: { strategy: 'median' } }, values).out)).toEqual(['4', '2.5', '1', '10', '2.5', '1']);
+    expect(column(fill(headers, types, { n: { strategy: 'mode' } }, values).out)).toEqual(['4', '1', '1', '10', '1', '1']);
+  });
+
+  it('rounds numeric fills to the column type', () => {
+    const rows = [['1'], ['2'], [''], ['2']];
+    expect(fill(['n'], { n: 'int' }, { n: { strategy: 'mean' } }, rows).plan[0].value).toBe('2');
+    expect(fill(['n'], { n: 'decimal_money' }, { n: { strategy: 'mean' } }, rows).plan[0].value).toBe('1.67');
+    expect(fill(['n'], { n: 'decimal' }, { n: { strategy: 'mean' } }, rows).plan[0].value).toBe('1.6667');
+  });
+
+  it('fills forward from the last value, leaving leading gaps empty', () => {
+    const { out, filled } = fill(['d'], { d: 'date' }, { d: { strategy: 'ffill' } }, [[''], ['a'], [''], [''], ['b'], ['']]);
+    expect(column(out)).toEqual(['', 'a', 'a', 'a', 'b', 'b']);
+    expect(filled).toEqual([3]);
+  });
+
+  it('fills back from the next value in row order, leaving trailing gaps empty', () => {
+    const { out, filled } = fill(['d'], {}, { d: { strategy: 'bfill' } }, [[''], ['a'], [''], [''], ['b'], ['']]);
+    expect(column(out)).toEqual(['a', 'a', 'b', 'b', 'b', '']);
+    expect(filled).toEqual([3]);
+  });
+
+  it('holds back rows waiting on a back fill and releases them in order', () => {
+    const plan = resolveFillPlan(['a', 'b'], {}, { a: { strategy: 'bfill' }, b: { strategy: 'none' } }, createFillStats(2));
+    const filler = createFiller(plan);
+    expect(filler.push(['', '1'])).toEqual([]);
+    expect(filler.push(['', '2'])).toEqual([]);
+    expect(filler.push(['x', '3'])).toEqual([['x', '1'], ['x', '2'], ['x', '3']]);
+    expect(filler.push(['y', '4'])).toEqual([['y', '4']]);
+  });
+
+  it('gives up on the oldest back-fill gaps once too many rows are held', () => {
+    const plan = resolveFillPlan(['a', 'b'], {}, { a: { strategy: 'bfill' }, b: { strategy: 'bfill' } }, createFillStats(2));
+    const filler = createFiller(plan, 2);
+    expect(filler.push(['', ''])).toEqual([]);
+    expect(filler.push(['', 'p'])).toEqual([]);
+    expect(filler.push(['', 'q'])).toEqual([['', 'p']]);
+    expect(filler.push(['', ''])).toEqual([['', 'p']]);
+    expect(filler.push(['x', 'r'])).toEqual([['x', 'q'], ['x', 'r'], ['x', 'r']]);
+    expect(filler.filled).toEqual([2, 2]);
+    expect(filler.unfilled).toEqual([2, 0]);
+  });
+
+  it('fills a constant and leaves columns set to none alone', () => {
+    const rows = [['', ''], ['a', 'b']];
+    const { out, filled } = fill(['x', 'y'], {}, { x: { strategy: 'constant', constant: 'n/a' }, y: { strategy: 'none' } }, rows);
+    expect(out).toEqual([['n/a', ''], ['a', 'b']]);
+    expect(filled).toEqual([1, 0]);
+  });
+
+  it('picks a strategy by type on auto', () => {
+    const headers = ['qty', 'when', 'note', 'tag'];
+    const types = { qty: 'int', when: 'date', note: 'text', tag: 'varchar' };
+    const rows = [['1', '2024-01-01', 'x', 'red'], ['3', '', '', ''], ['', '2024-02-01', 'y', 'red'], ['4', '', '', 'blue']];
+    const { plan } = fill(headers, types, {}, rows);
+    expect(plan.map(describeFillPlan)).toEqual(['median = 3', 'forward fill', 'left empty', 'mode = red']);
+  });
+
+  it('leaves a column empty when there is nothing to compute from', () => {
+    const { plan, out } = fill(['n'], { n: 'int' }, { n: { strategy: 'mean' } }, [[''], ['x']]);
+    expect(plan[0]).toEqual({ strategy: 'none', value: '' });
+    expect(column(out)).toEqual(['', 'x']);
+  });
+});
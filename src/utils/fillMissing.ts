@@ -0,0 +1,226 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - MISSING VALUE IMPUTATION
+// First pass: per-column statistics collected while rows stream through.
+// Second pass: the cleaned rows are rewritten with each column's strategy.
+// ══════════════════════════════════════════════════════════════════════════
+
+import type { ColumnTypes } from './cleaningEngine';
+
+export type FillStrategy = 'auto' | 'mean' | 'median' | 'mode' | 'ffill' | 'bfill' | 'constant' | 'none';
+
+export interface ColumnFillSetting {
+  strategy: FillStrategy;
+  constant?: string;
+}
+
+export const FILL_STRATEGIES: { value: FillStrategy; label: string }[] = [
+  { value: 'auto', label: 'Auto (by type)' },
+  { value: 'mean', label: 'Mean' },
+  { value: 'median', label: 'Median' },
+  { value: 'mode', label: 'Most frequent' },
+  { value: 'ffill', label: 'Forward fill' },
+  { value: 'bfill', label: 'Back fill' },
+  { value: 'constant', label: 'Constant' },
+  { value: 'none', label: 'Leave empty' },
+];
+
+const NUMERIC_TYPES = new Set(['tinyint', 'smallint', 'int', 'bigint', 'decimal', 'decimal_money']);
+const INTEGER_TYPES = new Set(['tinyint', 'smallint', 'int', 'bigint']);
+
+// Median comes from a fixed-size reservoir sample and mode from a capped
+// frequency map, so memory stays flat however many rows stream past.
+const RESERVOIR_SIZE = 10000;
+const MAX_DISTINCT = 10000;
+
+// ── FIRST PASS: STATISTICS ────────────────────────────────────────────────
+
+export interface ColumnFillStats {
+  numericCount: number;
+  sum: number;
+  seen: number;
+  reservoir: number[];
+  freq: Map<string, number>;
+  empty: number;
+}
+
+export function createFillStats(columnCount: number): ColumnFillStats[] {
+  return Array.from({ length: columnCount }, () => ({
+    numericCount: 0, sum: 0, seen: 0, reservoir: [], freq: new Map(), empty: 0,
+  }));
+}
+
+export function recordFillStats(stats: ColumnFillStats[], cells: string[]): void {
+  for (let i = 0; i < stats.length; i++) {
+    const s = stats[i];
+    const v = cells[i] || '';
+    if (!v) { s.empty++; continue; }
+
+    const count = s.freq.get(v);
+    if (count !== undefined) s.freq.set(v, count + 1);
+    else if (s.freq.size < MAX_DISTINCT) s.freq.set(v, 1);
+
+    if (!/^-?\d*\.?\d+([eE][+-]?\d+)?$/.test(v)) continue;
+    const num = parseFloat(v);
+    s.numericCount++;
+    s.sum += num;
+    s.seen++;
+    if (s.reservoir.length < RESERVOIR_SIZE) {
+      s.reservoir.push(num);
+    } else {
+      const j = Math.floor(Math.random() * s.seen);
+      if (j < RESERVOIR_SIZE) s.reservoir[j] = num;
+    }
+  }
+}
+
+// ── PLAN ──────────────────────────────────────────────────────────────────
+
+export interface ColumnFillPlan {
+  strategy: Exclude<FillStrategy, 'auto'>;
+  value: string; // fill value for mean / median / mode / constant
+}
+
+function formatNumber(n: number, type: string): string {
+  if (INTEGER_TYPES.has(type)) return String(Math.round(n));
+  if (type === 'decimal_money') return n.toFixed(2);
+  return String(parseFloat(n.toFixed(4)));
+}
+
+function autoStrategy(type: string): Exclude<FillStrategy, 'auto'> {
+  if (NUMERIC_TYPES.has(type)) return 'median';
+  if (type === 'date') return 'ffill';
+  if (type === 'text' || type === 'longtext') return 'none';
+  return 'mode';
+}
+
+// Resolves each column's setting to a concrete strategy and fill value.
+// Columns without an explicit setting use 'auto'.
+export function resolveFillPlan(
+  headers: string[],
+  types: ColumnTypes,
+  settings: Record<string, ColumnFillSetting>,
+  stats: ColumnFillStats[]
+): ColumnFillPlan[] {
+  return headers.map((h, i) => {
+    const setting = settings[h] || { strategy: 'auto' };
+    const type = types[h] || 'varchar';
+    const s = stats[i];
+    const strategy = setting.strategy === 'auto' ? autoStrategy(type) : setting.strategy;
+
+    switch (strategy) {
+      case 'mean':
+        return s.numericCount > 0 ? { strategy, value: formatNumber(s.sum / s.numericCount, type) } : { strategy: 'none', value: '' };
+      case 'median': {
+        if (s.reservoir.length === 0) return { strategy: 'none', value: '' };
+        const sorted = [...s.reservoir].sort((a, b) => a - b);
+        const mid = Math.floor(sorted.length / 2);
+        const median = sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+        return { strategy, value: formatNumber(median, type) };
+      }
+      case 'mode': {
+        let best = '';
+        let bestCount = 0;
+        for (const [v, c] of s.freq) if (c > bestCount) { best = v; bestCount = c; }
+        return bestCount > 0 ? { strategy, value: best } : { strategy: 'none', value: '' };
+      }
+      case 'constant':
+        return { strategy, value: setting.constant || '' };
+      default:
+        return { strategy, value: '' };
+    }
+  });
+}
+
+export function describeFillPlan(plan: ColumnFillPlan): string {
+  switch (plan.strategy) {
+    case 'mean': case 'median': case 'mode': return `${plan.strategy} = ${plan.value}`;
+    case 'constant': return `constant "${plan.value}"`;
+    case 'ffill': return 'forward fill';
+    case 'bfill': return 'back fill';
+    default: return 'left empty';
+  }
+}
+
+// ── SECOND PASS: FILLING ──────────────────────────────────────────────────
+
+// Streams rows through the plan and returns them in their original order.
+// Back-fill needs a later row's value, so rows with an unresolved back-fill
+// cell wait in a queue; push() returns whatever rows are complete so far.
+// Rows held back for a back fill are capped so a long empty run can't fill
+// memory; past the cap the oldest rows go out with their gaps left empty
+export const MAX_BFILL_HELD_ROWS = 10000;
+
+interface HeldRow {
+  cells: string[];
+  waiting: number;  // bfill columns still empty in this row
+}
+
+export function createFiller(plan: ColumnFillPlan[], maxHeld = MAX_BFILL_HELD_ROWS) {
+  const filled = plan.map(() => 0);
+  // Back-fill gaps given up on because the rows had to be released first
+  const unfilled = plan.map(() => 0);
+  const lastSeen: string[] = plan.map(() => '');
+  const queue: HeldRow[] = [];
+  // Per bfill column, the held rows still empty there, oldest first — a value
+  // fills exactly these instead of scanning everything held
+  const waitingRows: HeldRow[][] = plan.map(() => []);
+
+  const drain = (): string[][] => {
+    const ready: string[][] = [];
+    while (queue.length > 0 && queue[0].waiting === 0) ready.push(queue.shift()!.cells);
+    while (queue.length > maxHeld) {
+      const oldest = queue.shift()!;
+      // The oldest held row is at the front of every list it's still on
+      for (let i = 0; oldest.waiting > 0 && i < plan.length; i++) {
+        if (waitingRows[i][0] !== oldest) continue;
+        waitingRows[i].shift();
+        oldest.waiting--;
+        unfilled[i]++;
+      }
+      ready.push(oldest.cells);
+    }
+    return ready;
+  };
+
+  return {
+    filled,
+    unfilled,
+    push(row: string[]): string[][] {
+      const held: HeldRow = { cells: [...row], waiting: 0 };
+      const { cells } = held;
+      for (let i = 0; i < plan.length; i++) {
+        const p = plan[i];
+        if (cells[i]) {
+          if (p.strategy === 'bfill' && waitingRows[i].length > 0) {
+            for (const q of waitingRows[i]) { q.cells[i] = cells[i]; q.waiting--; }
+            filled[i] += waitingRows[i].length;
+            waitingRows[i] = [];
+          }
+          lastSeen[i] = cells[i];
+          continue;
+        }
+        switch (p.strategy) {
+          case 'mean': case 'median': case 'mode': case 'constant':
+            if (p.value) { cells[i] = p.value; filled[i]++; }
+            break;
+          case 'ffill':
+            if (lastSeen[i]) { cells[i] = lastSeen[i]; filled[i]++; }
+            break;
+          case 'bfill':
+            waitingRows[i].push(held);
+            held.waiting++;
+            break;
+        }
+      }
+      queue.push(held);
+      return drain();
+    },
+    // Trailing rows with no later value to back-fill from stay empty
+    flush(): string[][] {
+      const rest = queue.map(q => q.cells);
+      queue.length = 0;
+      for (const rows of waitingRows) rows.length = 0;
+      return rest;
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type FuzzyMatchConfig, DEFAULT_FUZZY_MATCH, createFuzzyMatcher, jaroWinkler, levenshtein, metaphone, normalizeForMatch,
+  similarity, soundex, tokenSetSimilarity,
+} from './fuzzyMatch';
+
+// Clusters found over the rows, matching on every column
+function cluster(rows: string[][], config: Partial<FuzzyMatchConfig> = {}) {
+  const matcher = createFuzzyMatcher({ ...DEFAULT_FUZZY_MATCH, ...config }, rows[0].map((_, i) => i));
+  for (const cells of rows) matcher.push(cells);
+  return matcher.finish();
+}
+
+describe('normalizeForMatch', () => {
+  it('strips accents, case and punctuation', () => {
+    expect(normalizeForMatch('  José  O\'Brien-Smith, Jr. ')).toBe('jose o brien smith jr');
+  });
+});
+
+describe('string similarity', () => {
+  it('counts edits with Levenshtein', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+    expect(similarity('kitten', 'sitting', 'levenshtein')).toBeCloseTo(1 - 3 / 7, 9);
+  });
+
+  it('favours a shared start with Jaro-Winkler', () => {
+    expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler('dixon', 'dicksonx')).toBeCloseTo(0.813, 3);
+    expect(jaroWinkler('abc', 'xyz')).toBe(0);
+  });
+
+  it('ignores word order and extra words with token set', () => {
+    expect(tokenSetSimilarity('smith john', 'john smith')).toBe(1);
+    expect(tokenSetSimilarity('john a smith', 'john smith')).toBe(1);
+    expect(tokenSetSimilarity('john smith', 'jane doe')).toBeLessThan(0.5);
+  });
+});
+
+describe('phonetic keys', () => {
+  it.each([
+    ['Robert', 'R163'], ['Rupert', 'R163'], ['Ashcraft', 'A261'], ['Tymczak', 'T522'], ['Pfister', 'P236'], ['Lee', 'L000'],
+  ])('soundex(%s) is %s', (word, code) => {
+    expect(soundex(word)).toBe(code);
+  });
+
+  it('keeps words without letters as their own key', () => {
+    expect(soundex('12345')).toBe('12345');
+    expect(metaphone('42')).toBe('42');
+  });
+
+  it('gives names spelled differently the same Metaphone key', () => {
+    expect(metaphone('Knight')).toBe(metaphone('Night'));
+    expect(metaphone('Philip')).toBe(metaphone('Filip'));
+    expect(metaphone('Smith')).not.toBe(metaphone('Smart'));
+  });
+});
+
+describe('createFuzzyMatcher', () => {
+  it('joins near-duplicates into clusters held together by their weakest link', () => {
+    const { clusters } = cluster([
+      ['Jonathan Smith', 'Boston'],
+      ['Jane Doe', 'Denver'],
+      ['Jonathon Smith', 'Boston'],
+      ['Jonathan Smyth', 'Boston'],
+      ['Jane Doe', 'Denver'],
+    ]);
+    expect(clusters.map(c => c.rows)).toEqual([[1, 3, 4], [2, 5]]);
+    expect(clusters[0].score).toBeGreaterThanOrEqual(0.9);
+    expect(clusters[0].score).toBeLessThan(1);
+    expect(clusters[1].score).toBe(1);
+  });
+
+  it('only compares rows that share a block', () => {
+    const rows = [['Smith'], ['Smyth'], ['Jones'], ['Johns']];
+    expect(cluster(rows, { algorithm: 'levenshtein', threshold: 0.5 }).comparisons).toBe(2);
+    expect(cluster(rows, { algorithm: 'levenshtein', threshold: 0.5, blocking: 'none' }).comparisons).toBe(6);
+  });
+
+  it('never matches rows whose key columns are empty, and scores a one-sided blank as a mismatch', () => {
+    const { clusters } = cluster([['', ''], ['', ''], ['ann', ''], ['ann', 'x']], { blocking: 'none' });
+    expect(clusters).toEqual([]);
+  });
+});
@@ -0,0 +1,354 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - FUZZY DUPLICATE MATCHING
+// String similarity (Levenshtein, Jaro-Winkler, token set) and phonetic keys
+// (Soundex, Metaphone) compared over chosen key columns. Rows are blocked by
+// a cheap key first so only likely pairs are scored; matching pairs are joined
+// into clusters that the user reviews before anything is removed.
+// ══════════════════════════════════════════════════════════════════════════
+
+export type FuzzyAlgorithm = 'levenshtein' | 'jaro-winkler' | 'token-set' | 'soundex' | 'metaphone';
+export type FuzzyBlocking = 'phonetic' | 'prefix' | 'none';
+
+export interface FuzzyMatchConfig {
+  columns: string[];  // key columns; empty = every data column
+  algorithm: FuzzyAlgorithm;
+  threshold: number;  // 0–1, average similarity over the key columns
+  blocking: FuzzyBlocking;
+}
+
+export const FUZZY_ALGORITHMS: { value: FuzzyAlgorithm; label: string; hint: string }[] = [
+  { value: 'jaro-winkler', label: 'Jaro-Winkler', hint: 'typos, favouring a shared start — names' },
+  { value: 'levenshtein', label: 'Levenshtein', hint: 'edit distance over the whole value' },
+  { value: 'token-set', label: 'Token set', hint: 'word order and extra words ignored' },
+  { value: 'soundex', label: 'Soundex', hint: 'words that sound alike (share of matching codes)' },
+  { value: 'metaphone', label: 'Metaphone', hint: 'like Soundex, with English spelling rules' },
+];
+
+export const FUZZY_BLOCKINGS: { value: FuzzyBlocking; label: string }[] = [
+  { value: 'phonetic', label: 'Soundex of the first key word' },
+  { value: 'prefix', label: 'First 3 characters of the first key' },
+  { value: 'none', label: 'None (sorted neighbourhood only)' },
+];
+
+export const DEFAULT_FUZZY_MATCH: FuzzyMatchConfig = { columns: [], algorithm: 'jaro-winkler', threshold: 0.9, blocking: 'phonetic' };
+
+// Blocks up to this size are compared all-pairs; bigger ones fall back to a
+// sorted neighbourhood window so one common key can't make the run quadratic
+const MAX_BLOCK_SIZE = 500;
+const NEIGHBOURHOOD_WINDOW = 25;
+// Links are transitive, so near-identical values could chain half a file into
+// one cluster; past this size a cluster takes no more members
+const MAX_CLUSTER_SIZE = 50;
+
+// Lowercase, accents stripped, punctuation → space, whitespace collapsed
+export function normalizeForMatch(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// ── STRING SIMILARITY ─────────────────────────────────────────────────────
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+export function levenshteinSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+  const range = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - range); j < Math.min(b.length, i + range + 1); j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+  let transpositions = 0;
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// Shared words compared on their own and with each side's leftovers, so
+// "Smith, John" matches "John Smith" and "John A Smith" scores high too
+export function tokenSetSimilarity(a: string, b: string): number {
+  const setA = new Set(a.split(' ').filter(Boolean));
+  const setB = new Set(b.split(' ').filter(Boolean));
+  if (setA.size === 0 && setB.size === 0) return 1;
+  const shared = [...setA].filter(t => setB.has(t)).sort().join(' ');
+  const join = (s: string, rest: string[]) => [s, ...rest.sort()].filter(Boolean).join(' ');
+  const withA = join(shared, [...setA].filter(t => !setB.has(t)));
+  const withB = join(shared, [...setB].filter(t => !setA.has(t)));
+  return Math.max(
+    shared ? levenshteinSimilarity(shared, withA) : 0,
+    shared ? levenshteinSimilarity(shared, withB) : 0,
+    levenshteinSimilarity(withA, withB)
+  );
+}
+
+// ── PHONETIC KEYS ─────────────────────────────────────────────────────────
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3', l: '4', m: '5', n: '5', r: '6',
+};
+
+// Words without letters (numbers, codes) are their own key
+export function soundex(word: string): string {
+  const w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return word;
+  let code = w[0].toUpperCase();
+  let last = SOUNDEX_CODES[w[0]] || '';
+  for (let i = 1; i < w.length && code.length < 4; i++) {
+    const d = SOUNDEX_CODES[w[i]] || '';
+    if (d && d !== last) code += d;
+    // h and w don't separate equal codes; vowels do
+    if (w[i] !== 'h' && w[i] !== 'w') last = d;
+  }
+  return code.padEnd(4, '0');
+}
+
+const isVowel = (ch: string | undefined) => !!ch && 'aeiou'.includes(ch);
+
+// Original Metaphone (Philips, 1990) — keys of 1–6 letters, 0 for "th"
+export function metaphone(word: string): string {
+  let w = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (!w) return word;
+  if (/^(kn|gn|pn|ae|wr)/.test(w)) w = w.slice(1);
+  if (w[0] === 'x') w = 's' + w.slice(1);
+  if (w.startsWith('wh')) w = 'w' + w.slice(2);
+
+  let key = '';
+  for (let i = 0; i < w.length && key.length < 6; i++) {
+    const ch = w[i];
+    const prev = w[i - 1];
+    const next = w[i + 1];
+    const after = w[i + 2];
+    if (ch === prev && ch !== 'c') continue;
+    switch (ch) {
+      case 'a': case 'e': case 'i': case 'o': case 'u':
+        if (i === 0) key += ch.toUpperCase();
+        break;
+      case 'b':
+        if (!(prev === 'm' && i === w.length - 1)) key += 'B';
+        break;
+      case 'c':
+        if (next === 'i' && after === 'a') key += 'X';
+        else if (next === 'h') { key += prev === 's' ? 'K' : 'X'; i++; }
+        else if (next === 'i' || next === 'e' || next === 'y') { if (prev !== 's') key += 'S'; }
+        else key += 'K';
+        break;
+      case 'd':
+        if (next === 'g' && (after === 'e' || after === 'y' || after === 'i')) { key += 'J'; i++; }
+        else key += 'T';
+        break;
+      case 'g':
+        if (next === 'h' && !(i + 2 >= w.length || isVowel(after))) break;
+        if (next === 'n' && (i + 2 === w.length || w.slice(i + 1) === 'ned')) break;
+        if ((next === 'i' || next === 'e' || next === 'y') && prev !== 'g') key += 'J';
+        else key += 'K';
+        break;
+      case 'h':
+        if (isVowel(next) && !(prev && 'cgpst'.includes(prev))) key += 'H';
+        break;
+      case 'k':
+        if (prev !== 'c') key += 'K';
+        break;
+      case 'p':
+        if (next === 'h') { key += 'F'; i++; } else key += 'P';
+        break;
+      case 'q': key += 'K'; break;
+      case 's':
+        if (next === 'h') { key += 'X'; i++; }
+        else if (next === 'i' && (after === 'o' || after === 'a')) key += 'X';
+        else key += 'S';
+        break;
+      case 't':
+        if (next === 'i' && (after === 'o' || after === 'a')) key += 'X';
+        else if (next === 'h') { key += '0'; i++; }
+        else if (!(next === 'c' && after === 'h')) key += 'T';
+        break;
+      case 'v': key += 'F'; break;
+      case 'w': case 'y':
+        if (isVowel(next)) key += ch.toUpperCase();
+        break;
+      case 'x': key += 'KS'; break;
+      case 'z': key += 'S'; break;
+      default: key += ch.toUpperCase();
+    }
+  }
+  return key;
+}
+
+// Share of words whose phonetic keys match, over the longer value
+function phoneticSimilarity(a: string, b: string, encode: (w: string) => string): number {
+  const keysA = new Set(a.split(' ').filter(Boolean).map(encode));
+  const keysB = new Set(b.split(' ').filter(Boolean).map(encode));
+  const longest = Math.max(keysA.size, keysB.size);
+  if (longest === 0) return 1;
+  let shared = 0;
+  for (const k of keysA) if (keysB.has(k)) shared++;
+  return shared / longest;
+}
+
+// Both values must already be normalizeForMatch'ed
+export function similarity(a: string, b: string, algorithm: FuzzyAlgorithm): number {
+  if (a === b) return 1;
+  switch (algorithm) {
+    case 'levenshtein': return levenshteinSimilarity(a, b);
+    case 'jaro-winkler': return jaroWinkler(a, b);
+    case 'token-set': return tokenSetSimilarity(a, b);
+    case 'soundex': return phoneticSimilarity(a, b, soundex);
+    case 'metaphone': return phoneticSimilarity(a, b, metaphone);
+  }
+}
+
+// ── CLUSTERING ────────────────────────────────────────────────────────────
+
+export interface FuzzyCluster {
+  id: number;
+  score: number;         // similarity of the weakest link holding the cluster together
+  rows: number[];        // 1-based output rows, ascending
+  sourceRows: number[];  // matching 1-based source data rows
+  cells: string[][];     // output cells of each row
+}
+
+export interface FuzzyMatcher {
+  push(cells: string[]): void;
+  finish(): { clusters: { rows: number[]; score: number }[]; comparisons: number };
+}
+
+// Rows are numbered in push order from 1. A row whose key columns are all
+// empty never matches anything.
+export function createFuzzyMatcher(config: FuzzyMatchConfig, keyColumns: number[]): FuzzyMatcher {
+  const keys: (string[] | null)[] = [];
+  const blocks = new Map<string, number[]>();
+
+  const blockKey = (values: string[]): string => {
+    const first = values.find(Boolean) || '';
+    if (config.blocking === 'phonetic') return soundex(first.split(' ')[0]);
+    if (config.blocking === 'prefix') return first.slice(0, 3);
+    return '';
+  };
+
+  const score = (a: string[], b: string[]): number => {
+    let total = 0;
+    let compared = 0;
+    for (let c = 0; c < a.length; c++) {
+      if (!a[c] && !b[c]) continue;
+      total += a[c] && b[c] ? similarity(a[c], b[c], config.algorithm) : 0;
+      compared++;
+    }
+    return compared === 0 ? 0 : total / compared;
+  };
+
+  return {
+    push(cells) {
+      const values = keyColumns.map(i => normalizeForMatch(cells[i] || ''));
+      if (!values.some(Boolean)) { keys.push(null); return; }
+      keys.push(values);
+      const bk = blockKey(values);
+      const block = blocks.get(bk);
+      if (block) block.push(keys.length - 1);
+      else blocks.set(bk, [keys.length - 1]);
+    },
+
+    finish() {
+      // Union-find over row indexes; each root remembers its size and weakest link
+      const parent = keys.map((_, i) => i);
+      const size = keys.map(() => 1);
+      const weakest = new Map<number, number>();
+      const find = (i: number): number => {
+        while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+        return i;
+      };
+      let comparisons = 0;
+      const compare = (i: number, j: number) => {
+        comparisons++;
+        const s = score(keys[i]!, keys[j]!);
+        if (s < config.threshold) return;
+        const ri = find(i);
+        const rj = find(j);
+        if (ri === rj || size[ri] + size[rj] > MAX_CLUSTER_SIZE) return;
+        const link = Math.min(s, weakest.get(ri) ?? 1, weakest.get(rj) ?? 1);
+        const root = Math.min(ri, rj);
+        parent[Math.max(ri, rj)] = root;
+        size[root] = size[ri] + size[rj];
+        weakest.set(root, link);
+      };
+
+      for (const block of blocks.values()) {
+        if (block.length <= MAX_BLOCK_SIZE) {
+          for (let x = 0; x < block.length; x++) for (let y = x + 1; y < block.length; y++) compare(block[x], block[y]);
+          continue;
+        }
+        const sorted = [...block].sort((i, j) => keys[i]!.join(' ').localeCompare(keys[j]!.join(' ')));
+        for (let x = 0; x < sorted.length; x++) {
+          for (let y = x + 1; y < Math.min(sorted.length, x + 1 + NEIGHBOURHOOD_WINDOW); y++) compare(sorted[x], sorted[y]);
+        }
+      }
+
+      const groups = new Map<number, number[]>();
+      keys.forEach((_, i) => {
+        const root = find(i);
+        if (root === i && !weakest.has(root)) return;
+        const group = groups.get(root);
+        if (group) group.push(i + 1);
+        else groups.set(root, [i + 1]);
+      });
+      const clusters = [...groups.entries()]
+        .filter(([, rows]) => rows.length > 1)
+        .map(([root, rows]) => ({ rows, score: weakest.get(root) ?? 1 }))
+        .sort((a, b) => a.rows[0] - b.rows[0]);
+      return { clusters, comparisons };
+    },
+  };
+}
+
+// ── REVIEW ────────────────────────────────────────────────────────────────
+
+// What processFile found and what applying a review needs later on
+export interface FuzzyReview {
+  clusters: FuzzyCluster[];
+  generatedId: boolean;  // column 0 is a generated sequence to renumber
+  trackChanges: boolean;
+  eol: string;
+}
+
+export interface FuzzyResolution {
+  survivor: number | null;         // output row kept; null = not duplicates, keep every row
+  merged: Record<number, string>;  // output column index → value written into the survivor
+}
+
+export function defaultResolution(cluster: FuzzyCluster): FuzzyResolution {
+  return { survivor: cluster.rows[0], merged: {} };
+}
@@ -0,0 +1,67 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - US GEOGRAPHY REFERENCE DATA
+// State codes / names and ZIP 3-digit prefix ranges per state.
+// ══════════════════════════════════════════════════════════════════════════
+
+export const US_STATES: Record<string, string> = {
+  AL: 'Alabama', AK: 'Alaska', AZ: 'Arizona', AR: 'Arkansas', CA: 'California',
+  CO: 'Colorado', CT: 'Connecticut', DE: 'Delaware', DC: 'District of Columbia',
+  FL: 'Florida', GA: 'Georgia', HI: 'Hawaii', ID: 'Idaho', IL: 'Illinois',
+  IN: 'Indiana', IA: 'Iowa', KS: 'Kansas', KY: 'Kentucky', LA: 'Louisiana',
+  ME: 'Maine', MD: 'Maryland', MA: 'Massachusetts', MI: 'Michigan', MN: 'Minnesota',
+  MS: 'Mississippi', MO: 'Missouri', MT: 'Montana', NE: 'Nebraska', NV: 'Nevada',
+  NH: 'New Hampshire', NJ: 'New Jersey', NM: 'New Mexico', NY: 'New York',
+  NC: 'North Carolina', ND: 'North Dakota', OH: 'Ohio', OK: 'Oklahoma', OR: 'Oregon',
+  PA: 'Pennsylvania', RI: 'Rhode Island', SC: 'South Carolina', SD: 'South Dakota',
+  TN: 'Tennessee', TX: 'Texas', UT: 'Utah', VT: 'Vermont', VA: 'Virginia',
+  WA: 'Washington', WV: 'West Virginia', WI: 'Wisconsin', WY: 'Wyoming',
+  PR: 'Puerto Rico',
+};
+
+// Lowercased full name / dotted abbreviation → two-letter code
+const STATE_LOOKUP: Record<string, string> = {};
+for (const [code, name] of Object.entries(US_STATES)) {
+  STATE_LOOKUP[code.toLowerCase()] = code;
+  STATE_LOOKUP[name.toLowerCase()] = code;
+  STATE_LOOKUP[code.toLowerCase().split('').join('.') + '.'] = code;
+}
+STATE_LOOKUP['washington dc'] = 'DC';
+STATE_LOOKUP['washington d.c.'] = 'DC';
+
+// Returns the two-letter code for "NY", "n.y.", "New York" etc., or '' when
+// the value isn't a recognised US state.
+export function toStateCode(value: string): string {
+  if (!value) return '';
+  const key = value.trim().toLowerCase().replace(/\s+/g, ' ');
+  return STATE_LOOKUP[key] || STATE_LOOKUP[key.replace(/\.$/, '') + '.'] || '';
+}
+
+// ZIP 3-digit prefix ranges (inclusive) → state
+const ZIP_PREFIX_RANGES: [number, number, string][] = [
+  [5, 5, 'NY'], [6, 9, 'PR'], [10, 27, 'MA'], [28, 29, 'RI'], [30, 38, 'NH'],
+  [39, 49, 'ME'], [50, 54, 'VT'], [55, 55, 'MA'], [56, 59, 'VT'], [60, 69, 'CT'],
+  [70, 89, 'NJ'], [100, 149, 'NY'], [150, 196, 'PA'], [197, 199, 'DE'],
+  [200, 200, 'DC'], [201, 201, 'VA'], [202, 205, 'DC'], [206, 219, 'MD'],
+  [220, 246, 'VA'], [247, 268, 'WV'], [270, 289, 'NC'], [290, 299, 'SC'],
+  [300, 319, 'GA'], [320, 349, 'FL'], [350, 369, 'AL'], [370, 385, 'TN'],
+  [386, 397, 'MS'], [398, 399, 'GA'], [400, 427, 'KY'], [430, 459, 'OH'],
+  [460, 479, 'IN'], [480, 499, 'MI'], [500, 528, 'IA'], [530, 549, 'WI'],
+  [550, 567, 'MN'], [570, 577, 'SD'], [580, 588, 'ND'], [590, 599, 'MT'],
+  [600, 629, 'IL'], [630, 658, 'MO'], [660, 679, 'KS'], [680, 693, 'NE'],
+  [700, 714, 'LA'], [716, 729, 'AR'], [730, 749, 'OK'], [750, 799, 'TX'],
+  [800, 816, 'CO'], [820, 831, 'WY'], [832, 838, 'ID'], [840, 847, 'UT'],
+  [850, 865, 'AZ'], [870, 884, 'NM'], [885, 885, 'TX'], [889, 898, 'NV'],
+  [900, 961, 'CA'], [967, 968, 'HI'], [970, 979, 'OR'], [980, 994, 'WA'],
+  [995, 999, 'AK'],
+];
+
+// State owning a 5-digit ZIP (ZIP+4 accepted), or '' when unknown
+export function stateForZip(zip: string): string {
+  const m = String(zip || '').trim().match(/^(\d{5})(-?\d{4})?$/);
+  if (!m) return '';
+  const prefix = parseInt(m[1].substring(0, 3), 10);
+  for (const [lo, hi, state] of ZIP_PREFIX_RANGES) {
+    if (prefix >= lo && prefix <= hi) return state;
+  }
+  return '';
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type OutlierColumnStats, MIN_OUTLIER_VALUES, computeFences, createOutlierStats, createQuantileSketch, formatFence,
+  isNumericValue, recordOutlierValue,
+} from './outliers';
+
+function stats(values: number[]): OutlierColumnStats {
+  const s = createOutlierStats();
+  for (const v of values) recordOutlierValue(s, v);
+  return s;
+}
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+describe('isNumericValue', () => {
+  it('accepts plain decimals and exponents only', () => {
+    expect(['12', '-3.5', '.5', '1e6', '2.5E-3'].every(isNumericValue)).toBe(true);
+    expect(['', '1,200', '$5', '1.2.3', '12abc', '+4'].some(isNumericValue)).toBe(false);
+  });
+});
+
+describe('createQuantileSketch', () => {
+  it('is exact while everything fits in the first level', () => {
+    const sketch = createQuantileSketch();
+    for (const v of [5, 1, 4, 2, 3]) sketch.add(v);
+    expect([0, 0.2, 0.5, 1].map(q => sketch.quantile(q))).toEqual([1, 1, 3, 5]);
+  });
+
+  it('keeps the total weight and stays close on ranks once it compacts', () => {
+    const sketch = createQuantileSketch();
+    const values = range(0, 99_999).sort(() => Math.random() - 0.5);
+    for (const v of values) sketch.add(v);
+    expect(sketch.count).toBe(100_000);
+    expect(sketch.items().reduce((sum, [, w]) => sum + w, 0)).toBe(100_000);
+    expect(sketch.items().length).toBeLessThan(5_000);
+    for (const q of [0.25, 0.5, 0.75]) expect(Math.abs(sketch.quantile(q) - q * 100_000)).toBeLessThan(2_000);
+  });
+});
+
+describe('computeFences', () => {
+  it('needs enough values and some spread', () => {
+    expect(computeFences(stats(range(1, MIN_OUTLIER_VALUES - 1)), 'iqr', 1.5)).toBeNull();
+    expect(computeFences(stats(Array(20).fill(7)), 'zscore', 3)).toBeNull();
+    expect(computeFences(stats(Array(20).fill(7)), 'mad', 3.5)).toBeNull();
+  });
+
+  it('puts IQR fences k interquartile ranges beyond the quartiles', () => {
+    expect(computeFences(stats(range(1, 12)), 'iqr', 1.5)).toEqual({ lo: -6, hi: 18 });
+  });
+
+  it('rounds fences inwards for whole-number columns only', () => {
+    expect(computeFences(stats(range(1, 11)), 'mad', 3.5)).toEqual({ lo: -9, hi: 21 });
+    // Median 6.5 and MAD 3, so the fences sit 3.5 · 3 / 0.6745 either side
+    const fences = computeFences(stats(range(1, 11).map(v => v + 0.5)), 'mad', 3.5)!;
+    expect(formatFence(fences.lo)).toBe('-9.067087');
+    expect(formatFence(fences.hi)).toBe('22.067087');
+  });
+
+  it('uses the sample standard deviation for z-scores', () => {
+    // Mean 5, squared deviations summing to 44.5 over 10 values
+    const sd = Math.sqrt(44.5 / 9);
+    const fences = computeFences(stats([2, 4, 4, 4, 5, 5, 7, 9, 2.5, 7.5]), 'zscore', 2)!;
+    expect(fences.lo).toBeCloseTo(5 - 2 * sd, 9);
+    expect(fences.hi).toBeCloseTo(5 + 2 * sd, 9);
+  });
+});
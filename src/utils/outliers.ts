@@ -0,0 +1,155 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - OUTLIERS
+// Per-column statistics gathered while rows stream through, turned into a pair
+// of fences once the first pass is done. Quartiles and medians come from a
+// compacting quantile sketch (KLL-style), so memory per column is a few
+// thousand numbers however large the file is.
+// ══════════════════════════════════════════════════════════════════════════
+
+export type OutlierMethod = 'iqr' | 'zscore' | 'mad';
+export type OutlierAction = 'log' | 'flag' | 'cap' | 'empty' | 'drop';
+
+export const OUTLIER_METHODS: { value: OutlierMethod; label: string; threshold: number; hint: string }[] = [
+  { value: 'iqr', label: 'IQR', threshold: 1.5, hint: 'outside Q1 − k·IQR … Q3 + k·IQR' },
+  { value: 'zscore', label: 'Z-score', threshold: 3, hint: 'more than k standard deviations from the mean' },
+  { value: 'mad', label: 'MAD (robust)', threshold: 3.5, hint: 'modified z-score |0.6745·(x − median) / MAD| above k' },
+];
+
+export const OUTLIER_ACTIONS: { value: OutlierAction; label: string }[] = [
+  { value: 'log', label: 'Log only' },
+  { value: 'flag', label: 'Flag (adds <col>_is_outlier columns)' },
+  { value: 'cap', label: 'Cap to fences (winsorize)' },
+  { value: 'empty', label: 'Set to empty' },
+  { value: 'drop', label: 'Drop row' },
+];
+
+export const OUTLIER_FLAG_SUFFIX = '_is_outlier';
+
+// Columns with fewer numeric values than this are never judged
+export const MIN_OUTLIER_VALUES = 10;
+
+export function isNumericValue(v: string): boolean {
+  return /^-?\d*\.?\d+([eE][+-]?\d+)?$/.test(v);
+}
+
+// ── QUANTILE SKETCH ───────────────────────────────────────────────────────
+
+// Level i holds items that each stand for 2^i values. A full level is sorted
+// and every other item (random offset) is promoted, which keeps rank error
+// around 1/k with O(k log(n/k)) memory.
+export interface QuantileSketch {
+  readonly count: number;
+  add(value: number): void;
+  quantile(q: number): number;
+  items(): [number, number][];  // (value, weight), sorted by value
+}
+
+export function createQuantileSketch(k = 256): QuantileSketch {
+  const levels: number[][] = [[]];
+  let count = 0;
+
+  const compact = (level: number) => {
+    const items = levels[level].sort((a, b) => a - b);
+    if (!levels[level + 1]) levels[level + 1] = [];
+    for (let i = Math.random() < 0.5 ? 0 : 1; i < items.length; i += 2) levels[level + 1].push(items[i]);
+    levels[level] = [];
+    if (levels[level + 1].length >= k) compact(level + 1);
+  };
+
+  const items = (): [number, number][] => {
+    const all: [number, number][] = [];
+    levels.forEach((values, level) => { for (const v of values) all.push([v, 2 ** level]); });
+    return all.sort((a, b) => a[0] - b[0]);
+  };
+
+  return {
+    get count() { return count; },
+    add(value) {
+      count++;
+      levels[0].push(value);
+      if (levels[0].length >= k) compact(0);
+    },
+    quantile(q) {
+      return weightedQuantile(items(), q);
+    },
+    items,
+  };
+}
+
+function weightedQuantile(sorted: [number, number][], q: number): number {
+  if (sorted.length === 0) return NaN;
+  const total = sorted.reduce((s, [, w]) => s + w, 0);
+  const target = q * total;
+  let seen = 0;
+  for (const [v, w] of sorted) {
+    seen += w;
+    if (seen >= target) return v;
+  }
+  return sorted[sorted.length - 1][0];
+}
+
+// ── COLUMN STATISTICS ─────────────────────────────────────────────────────
+
+export interface OutlierColumnStats {
+  sketch: QuantileSketch;
+  count: number;
+  mean: number;
+  m2: number;  // Welford running sum of squared deviations
+  allIntegers: boolean;
+}
+
+export function createOutlierStats(): OutlierColumnStats {
+  return { sketch: createQuantileSketch(), count: 0, mean: 0, m2: 0, allIntegers: true };
+}
+
+export function recordOutlierValue(s: OutlierColumnStats, value: number) {
+  s.sketch.add(value);
+  s.count++;
+  const delta = value - s.mean;
+  s.mean += delta / s.count;
+  s.m2 += delta * (value - s.mean);
+  if (s.allIntegers && !Number.isInteger(value)) s.allIntegers = false;
+}
+
+export interface OutlierFences {
+  lo: number;
+  hi: number;
+}
+
+// Values strictly outside [lo, hi] are outliers. Null when the column has too
+// few values or no spread to judge by.
+export function computeFences(s: OutlierColumnStats, method: OutlierMethod, threshold: number): OutlierFences | null {
+  if (s.count < MIN_OUTLIER_VALUES) return null;
+  let fences: OutlierFences;
+  switch (method) {
+    case 'iqr': {
+      const q1 = s.sketch.quantile(0.25);
+      const q3 = s.sketch.quantile(0.75);
+      const iqr = q3 - q1;
+      fences = { lo: q1 - threshold * iqr, hi: q3 + threshold * iqr };
+      break;
+    }
+    case 'zscore': {
+      const sd = s.count > 1 ? Math.sqrt(s.m2 / (s.count - 1)) : 0;
+      if (sd === 0) return null;
+      fences = { lo: s.mean - threshold * sd, hi: s.mean + threshold * sd };
+      break;
+    }
+    case 'mad': {
+      const items = s.sketch.items();
+      const median = weightedQuantile(items, 0.5);
+      const deviations = items.map(([v, w]) => [Math.abs(v - median), w] as [number, number]).sort((a, b) => a[0] - b[0]);
+      const mad = weightedQuantile(deviations, 0.5);
+      if (mad === 0) return null;
+      const reach = (threshold * mad) / 0.6745;
+      fences = { lo: median - reach, hi: median + reach };
+      break;
+    }
+  }
+  // Integer columns cap to whole numbers inside the fences
+  return s.allIntegers ? { lo: Math.ceil(fences.lo), hi: Math.floor(fences.hi) } : fences;
+}
+
+export function formatFence(n: number): string {
+  return String(parseFloat(n.toFixed(6)));
+}
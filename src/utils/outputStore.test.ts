@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type ChunkStore, type SyncFile, createMemoryChunkStore, createOpfsChunkStore, createOutputWriter, createSpillChunkStore,
+} from './outputStore';
+
+// A SyncFile over a growable byte array, counting how often it is closed
+function memoryFile() {
+  let bytes = new Uint8Array(0);
+  const file = {
+    closed: 0,
+    text: () => new TextDecoder().decode(bytes),
+    read(buffer: Uint8Array, { at }: { at: number }) {
+      const part = bytes.subarray(at, at + buffer.length);
+      buffer.set(part);
+      return part.length;
+    },
+    write(buffer: Uint8Array, { at }: { at: number }) {
+      if (at + buffer.length > bytes.length) {
+        const grown = new Uint8Array(at + buffer.length);
+        grown.set(bytes);
+        bytes = grown;
+      }
+      bytes.set(buffer, at);
+      return buffer.length;
+    },
+    truncate(size: number) { bytes = bytes.slice(0, size); },
+    flush() {},
+    close() { file.closed++; },
+  };
+  return file satisfies SyncFile;
+}
+
+const twoFiles = (): [ReturnType<typeof memoryFile>, ReturnType<typeof memoryFile>] => [memoryFile(), memoryFile()];
+
+// Upper-cases every chunk through a rewrite, as a later pass would
+function rewriteUpper(store: ChunkStore) {
+  const writer = store.rewrite();
+  for (const chunk of store) writer.push(chunk.toUpperCase());
+  writer.commit();
+}
+
+describe('createMemoryChunkStore', () => {
+  it('appends, rewrites and hands out the chunks as one Blob', async () => {
+    const store = createMemoryChunkStore();
+    store.push('a,b');
+    store.push('\n1,é');
+    rewriteUpper(store);
+    expect([store.length, store.at(1), [...store]]).toEqual([2, '\n1,É', ['A,B', '\n1,É']]);
+    const { output, storage } = await store.finish();
+    expect([await output.text(), output.type, storage]).toEqual(['A,B\n1,É', 'text/csv', null]);
+  });
+});
+
+describe('createSpillChunkStore', () => {
+  it('reads chunks back by their byte offsets, multi-byte characters included', () => {
+    const store = createSpillChunkStore(twoFiles(), async () => { throw new Error('unused'); });
+    for (const chunk of ['id,name', '\n1,Zoë', '\n2,東京']) store.push(chunk);
+    expect(store.length).toBe(3);
+    expect(store.at(2)).toBe('\n2,東京');
+    expect([...store]).toEqual(['id,name', '\n1,Zoë', '\n2,東京']);
+  });
+
+  it('writes a rewrite to the other file and swaps on commit', async () => {
+    const files = twoFiles();
+    let finished: number | null = null;
+    const store = createSpillChunkStore(files, async (current) => {
+      finished = current;
+      return { output: new Blob([files[current].text()]), storage: null };
+    });
+    store.push('a');
+    store.push('bc');
+    const writer = store.rewrite();
+    writer.push('xyz');
+    expect(store.at(1)).toBe('bc');
+    writer.commit();
+    expect([files[0].text(), files[1].text(), [...store]]).toEqual(['', 'xyz', ['xyz']]);
+    rewriteUpper(store);
+    const { output } = await store.finish();
+    expect([finished, await output.text()]).toEqual([0, 'XYZ']);
+    expect(files.map(f => f.closed)).toEqual([1, 1]);
+  });
+
+  it('closes the files once and calls onDiscard when thrown away', async () => {
+    const files = twoFiles();
+    let discarded = 0;
+    const store = createSpillChunkStore(files, async () => { throw new Error('unused'); }, async () => { discarded++; });
+    await store.discard();
+    await store.discard();
+    expect([discarded, files[0].closed, files[1].closed]).toEqual([2, 1, 1]);
+  });
+});
+
+describe('without an origin private file system', () => {
+  it('falls back to memory for chunk stores and writers', async () => {
+    const store = await createOpfsChunkStore();
+    store.push('a');
+    expect(await store.finish()).toMatchObject({ storage: null });
+
+    const writer = await createOutputWriter('x.json', 'application/json');
+    await writer.write('[');
+    await writer.write(new TextEncoder().encode('1]'));
+    const { output, storage } = await writer.close();
+    expect([await output.text(), output.type, storage]).toEqual(['[1]', 'application/json', null]);
+  });
+});
@@ -0,0 +1,227 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - OUTPUT STORAGE
+// Where a run's cleaned CSV lives while it is written and rewritten, and how
+// it is handed out afterwards: as a Blob that reads from disk. In the browser
+// the chunks go to the Origin Private File System; the CLI spills to a temp
+// file. Only the byte offset of each chunk stays in memory. Where neither is
+// available the chunks are kept as strings, as before.
+// ══════════════════════════════════════════════════════════════════════════
+
+// A run's directory in the OPFS; released once nothing reads the output
+export interface OutputStorage {
+  dir: string;
+}
+
+export interface StoredOutput {
+  output: Blob;  // the CSV, header line first
+  storage: OutputStorage | null;  // null when the Blob lives in memory
+}
+
+export interface ChunkWriter {
+  push(chunk: string): void;
+  commit(): void;  // replaces the store's chunks with the pushed ones
+}
+
+// The engine's view: an append-only list of CSV chunks that a later pass can
+// rewrite as a whole. finish() closes it and hands out the Blob.
+export interface ChunkStore extends Iterable<string> {
+  readonly length: number;
+  at(index: number): string;
+  push(chunk: string): void;
+  rewrite(): ChunkWriter;
+  finish(): Promise<StoredOutput>;
+  discard(): Promise<void>;
+}
+
+export function createMemoryChunkStore(): ChunkStore {
+  let chunks: string[] = [];
+  return {
+    get length() { return chunks.length; },
+    at: (index) => chunks[index],
+    push: (chunk) => { chunks.push(chunk); },
+    rewrite() {
+      const next: string[] = [];
+      return { push: (chunk) => { next.push(chunk); }, commit: () => { chunks = next; } };
+    },
+    finish: async () => ({ output: new Blob(chunks, { type: 'text/csv' }), storage: null }),
+    discard: async () => { chunks = []; },
+    *[Symbol.iterator]() { for (let i = 0; i < chunks.length; i++) yield chunks[i]; },
+  };
+}
+
+// ── SPILLED CHUNKS ────────────────────────────────────────────────────────
+
+// The part of FileSystemSyncAccessHandle the store needs; the CLI provides
+// the same over a Node file descriptor
+export interface SyncFile {
+  read(buffer: Uint8Array, options: { at: number }): number;
+  write(buffer: Uint8Array, options: { at: number }): number;
+  truncate(size: number): void;
+  flush(): void;
+  close(): void;
+}
+
+// Chunks live in one of two files as UTF-8; a rewrite fills the other one and
+// commit() swaps them, so a pass never overwrites what it is still reading.
+// onFinish gets the index of the file holding the output, after both closed.
+export function createSpillChunkStore(
+  files: [SyncFile, SyncFile],
+  onFinish: (current: 0 | 1) => Promise<StoredOutput>,
+  onDiscard: () => Promise<void> = async () => {}
+): ChunkStore {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let current: 0 | 1 = 0;
+  let offsets = [0];  // chunk i spans offsets[i] .. offsets[i + 1]
+  let closed = false;
+
+  const append = (file: SyncFile, index: number[], chunk: string) => {
+    const bytes = encoder.encode(chunk);
+    const at = index[index.length - 1];
+    file.write(bytes, { at });
+    index.push(at + bytes.length);
+  };
+  const read = (index: number) => {
+    const bytes = new Uint8Array(offsets[index + 1] - offsets[index]);
+    files[current].read(bytes, { at: offsets[index] });
+    return decoder.decode(bytes);
+  };
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    for (const f of files) { f.flush(); f.close(); }
+  };
+
+  return {
+    get length() { return offsets.length - 1; },
+    at: read,
+    push: (chunk) => append(files[current], offsets, chunk),
+    rewrite() {
+      const target: 0 | 1 = current === 0 ? 1 : 0;
+      const index = [0];
+      files[target].truncate(0);
+      return {
+        push: (chunk) => append(files[target], index, chunk),
+        commit: () => {
+          files[current].truncate(0);
+          current = target;
+          offsets = index;
+        },
+      };
+    },
+    finish: async () => {
+      close();
+      return onFinish(current);
+    },
+    discard: async () => {
+      close();
+      await onDiscard();
+    },
+    *[Symbol.iterator]() { for (let i = 0; i < offsets.length - 1; i++) yield read(i); },
+  };
+}
+
+// ── ORIGIN PRIVATE FILE SYSTEM ────────────────────────────────────────────
+// Each run (and each streamed export) gets a directory named
+// <timestamp>-<random> under OUTPUT_DIR. Directories left behind by a closed
+// tab are swept once they are a day old.
+
+const OUTPUT_DIR = 'datascrub-output';
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+
+// Not in TypeScript's DOM lib yet: sync handles only exist in dedicated
+// workers, and directory iteration lives in DOM.AsyncIterable
+type SyncFileHandle = FileSystemFileHandle & { createSyncAccessHandle(): Promise<SyncFile> };
+type IterableDirectory = FileSystemDirectoryHandle & { keys(): AsyncIterableIterator<string> };
+
+let sweep: Promise<void> | null = null;
+
+async function outputRoot(): Promise<FileSystemDirectoryHandle | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) return null;
+  try {
+    const root = await (await navigator.storage.getDirectory()).getDirectoryHandle(OUTPUT_DIR, { create: true });
+    sweep ??= sweepStale(root);
+    await sweep;
+    return root;
+  } catch {
+    return null;
+  }
+}
+
+async function sweepStale(root: FileSystemDirectoryHandle) {
+  const stale: string[] = [];
+  for await (const name of (root as IterableDirectory).keys()) {
+    const created = parseInt(name, 10);
+    if (!Number.isFinite(created) || Date.now() - created > STALE_AFTER_MS) stale.push(name);
+  }
+  for (const name of stale) await root.removeEntry(name, { recursive: true }).catch(() => {});
+}
+
+async function createRunDir(root: FileSystemDirectoryHandle) {
+  const name = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+  return { name, dir: await root.getDirectoryHandle(name, { create: true }) };
+}
+
+// For processFile in the cleaning worker. Falls back to memory where sync
+// access handles are missing (the main thread, older browsers) or the origin
+// has no storage quota left.
+export async function createOpfsChunkStore(): Promise<ChunkStore> {
+  const root = await outputRoot();
+  if (!root) return createMemoryChunkStore();
+  const { name, dir } = await createRunDir(root);
+  const remove = () => root.removeEntry(name, { recursive: true }).catch(() => {});
+  try {
+    const handles = await Promise.all(['output-a.csv', 'output-b.csv'].map(n => dir.getFileHandle(n, { create: true }) as Promise<SyncFileHandle>));
+    const files = await Promise.all(handles.map(h => h.createSyncAccessHandle()));
+    return createSpillChunkStore([files[0], files[1]], async (current) => {
+      await dir.removeEntry(handles[current === 0 ? 1 : 0].name).catch(() => {});
+      const output = await handles[current].getFile();
+      return { output, storage: { dir: name } };
+    }, remove);
+  } catch {
+    await remove();
+    return createMemoryChunkStore();
+  }
+}
+
+// Deletes a run's files. Blobs read from them stop working afterwards.
+export async function releaseOutput(storage: OutputStorage): Promise<void> {
+  const root = await outputRoot();
+  await root?.removeEntry(storage.dir, { recursive: true }).catch(() => {});
+}
+
+// ── ASYNC WRITER ──────────────────────────────────────────────────────────
+
+export interface OutputWriter {
+  write(data: string | Uint8Array): Promise<void>;
+  close(): Promise<StoredOutput>;
+}
+
+// Sequential writes to a new OPFS file through a writable stream, which works
+// on the main thread too; used for the fuzzy review's rewrite and for exports
+// that are produced on the fly. Falls back to collecting Blob parts.
+export async function createOutputWriter(fileName: string, type = ''): Promise<OutputWriter> {
+  const root = await outputRoot();
+  if (root) {
+    const { name, dir } = await createRunDir(root);
+    try {
+      const handle = await dir.getFileHandle(fileName, { create: true });
+      const writable = await handle.createWritable();
+      return {
+        write: (data) => writable.write(data as string | BufferSource),
+        async close() {
+          await writable.close();
+          const file = await handle.getFile();
+          return { output: type ? new Blob([file], { type }) : file, storage: { dir: name } };
+        },
+      };
+    } catch {
+      await root.removeEntry(name, { recursive: true }).catch(() => {});
+    }
+  }
+  const parts: BlobPart[] = [];
+  return {
+    write: async (data) => { parts.push(data as BlobPart); },
+    close: async () => ({ output: new Blob(parts, { type }), storage: null }),
+  };
+}
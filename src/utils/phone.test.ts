@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { type PhoneFormat, splitExtension, standardizePhoneNumber, toPhoneCountry } from './phone';
+
+const format = (phone: string, country: string, fmt: PhoneFormat) => standardizePhoneNumber(phone, country, fmt).value;
+
+describe('standardizePhoneNumber', () => {
+  // [input, home country, E.164, international, national]
+  const cases: [string, string, string, string, string][] = [
+    ['(415) 555-0100', 'US', '+14155550100', '+1 415-555-0100', '(415) 555-0100'],
+    ['1-415-555-0100', 'US', '+14155550100', '+1 415-555-0100', '(415) 555-0100'],
+    ['613 555 0199', 'CA', '+16135550199', '+1 613-555-0199', '(613) 555-0199'],
+    ['020 7946 0958', 'GB', '+442079460958', '+44 20 7946 0958', '020 7946 0958'],
+    ['07700 900123', 'GB', '+447700900123', '+44 7700 900123', '07700 900123'],
+    ['030 123456', 'DE', '+4930123456', '+49 30 123456', '030 123456'],
+    ['06 12 34 56 78', 'FR', '+33612345678', '+33 6 12 34 56 78', '06 12 34 56 78'],
+    ['919876543210', 'IN', '+919876543210', '+91 98765 43210', '098765 43210'],
+    ['(02) 9876 5432', 'AU', '+61298765432', '+61 2 9876 5432', '02 9876 5432'],
+    ['0412 345 678', 'AU', '+61412345678', '+61 412 345 678', '0412 345 678'],
+    ['03-1234-5678', 'JP', '+81312345678', '+81 3 1234 5678', '03 1234 5678'],
+    ['(11) 91234-5678', 'BR', '+5511912345678', '+55 11 91234-5678', '(11) 91234-5678'],
+    ['6123 4567', 'SG', '+6561234567', '+65 6123 4567', '6123 4567'],
+  ];
+
+  it.each(cases)('formats %s from %s', (input, country, e164, international, national) => {
+    expect(standardizePhoneNumber(input, country, 'e164')).toEqual({ value: e164, valid: true });
+    expect(format(input, country, 'international')).toBe(international);
+    expect(format(input, country, 'national')).toBe(national);
+  });
+
+  it('reads the home country\'s international prefix', () => {
+    expect(format('011 44 20 7946 0958', 'US', 'e164')).toBe('+442079460958');
+    expect(format('00 44 7700 900123', 'DE', 'e164')).toBe('+447700900123');
+  });
+
+  it('drops a trunk prefix written after the calling code', () => {
+    expect(format('+44 (0)20 7946 0958', 'US', 'e164')).toBe('+442079460958');
+  });
+
+  it('writes numbers from other countries internationally in national format', () => {
+    expect(format('+44 20 7946 0958', 'US', 'national')).toBe('+44 20 7946 0958');
+    expect(format('+1 416 555 0199', 'GB', 'national')).toBe('+1 416-555-0199');
+    expect(format('+1 416 555 0199', 'CA', 'national')).toBe('(416) 555-0199');
+  });
+
+  it('keeps extensions, the RFC 3966 way in E.164', () => {
+    expect(format('415.555.0100 ext. 12', 'US', 'e164')).toBe('+14155550100;ext=12');
+    expect(format('+44 20 7946 0958 x7', 'GB', 'international')).toBe('+44 20 7946 0958 ext. 7');
+    expect(format('+44 20 7946 0958 x7', 'GB', 'national')).toBe('020 7946 0958 ext. 7');
+  });
+
+  it('passes numbers under calling codes without rules through unchecked', () => {
+    expect(standardizePhoneNumber('+352 621 123 456', 'US', 'e164')).toEqual({ value: '+352621123456', valid: true });
+    expect(format('+352 621 123 456', 'US', 'international')).toBe('+352 621123456');
+  });
+
+  it('leaves numbers that break the country\'s rules as they were, marked invalid', () => {
+    expect(standardizePhoneNumber('555-0100', 'US', 'e164')).toEqual({ value: '555-0100', valid: false });
+    expect(standardizePhoneNumber('12345', 'GB', 'e164')).toEqual({ value: '12345', valid: false });
+    expect(standardizePhoneNumber('+999 1234', 'US', 'e164')).toEqual({ value: '+999 1234', valid: false });
+  });
+
+  it('treats an empty cell as valid', () => {
+    expect(standardizePhoneNumber('', 'US', 'e164')).toEqual({ value: '', valid: true });
+  });
+
+  it('falls back to the default country for an unknown one', () => {
+    expect(format('(415) 555-0100', '', 'e164')).toBe('+14155550100');
+  });
+});
+
+describe('toPhoneCountry', () => {
+  it('accepts ISO codes, names and common aliases', () => {
+    expect(toPhoneCountry('gb')).toBe('GB');
+    expect(toPhoneCountry('Germany')).toBe('DE');
+    expect(toPhoneCountry('UK')).toBe('GB');
+    expect(toPhoneCountry('U.S.A.')).toBe('US');
+  });
+
+  it('returns an empty string for countries without phone rules', () => {
+    expect(toPhoneCountry('Narnia')).toBe('');
+    expect(toPhoneCountry('  ')).toBe('');
+  });
+});
+
+describe('splitExtension', () => {
+  it('splits the usual extension spellings off the number', () => {
+    expect(splitExtension('555 0100 ext. 12')).toEqual({ number: '555 0100', extension: '12' });
+    expect(splitExtension('555 0100 extension 3')).toEqual({ number: '555 0100', extension: '3' });
+    expect(splitExtension('555 0100 #45')).toEqual({ number: '555 0100', extension: '45' });
+    expect(splitExtension('555 0100')).toEqual({ number: '555 0100', extension: '' });
+  });
+});
@@ -0,0 +1,245 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - PHONE NUMBERS
+// Parses phone numbers with per-country calling code, trunk prefix and
+// length rules, and writes them back as E.164, international or national
+// format. Extensions ("x12", "ext. 12", "#12") are kept.
+// ══════════════════════════════════════════════════════════════════════════
+
+import { toCountryCode } from './address';
+
+export type PhoneFormat = 'e164' | 'international' | 'national';
+
+export const PHONE_FORMATS: { value: PhoneFormat; label: string; example: string }[] = [
+  { value: 'e164', label: 'E.164', example: '+442079460958' },
+  { value: 'international', label: 'International', example: '+44 20 7946 0958' },
+  { value: 'national', label: 'National', example: '020 7946 0958' },
+];
+
+export const DEFAULT_PHONE_COUNTRY = 'US';
+
+interface PhoneCountry {
+  code: string;  // ISO 3166-1 alpha-2
+  name: string;
+  callingCode: string;
+  trunk: string;  // dialled before the national number at home; '' = none
+  exit: string;   // international prefix dialled from there
+  valid: RegExp;  // the national significant number (no trunk prefix)
+  groups: (nsn: string) => number[];  // digit groups, last one takes the rest
+  // Written around the groups; default: trunk + groups joined by spaces
+  national?: (parts: string[]) => string;
+  international?: (parts: string[]) => string;
+}
+
+// Ordered so the first entry of a shared calling code (+1) is the one a
+// number with only that code is assigned to
+const COUNTRIES: PhoneCountry[] = [
+  {
+    code: 'US', name: 'United States', callingCode: '1', trunk: '1', exit: '011',
+    valid: /^[2-9]\d{2}[2-9]\d{6}$/, groups: () => [3, 3, 4],
+    national: p => `(${p[0]}) ${p[1]}-${p[2]}`, international: p => `+1 ${p[0]}-${p[1]}-${p[2]}`,
+  },
+  {
+    code: 'CA', name: 'Canada', callingCode: '1', trunk: '1', exit: '011',
+    valid: /^[2-9]\d{2}[2-9]\d{6}$/, groups: () => [3, 3, 4],
+    national: p => `(${p[0]}) ${p[1]}-${p[2]}`, international: p => `+1 ${p[0]}-${p[1]}-${p[2]}`,
+  },
+  {
+    code: 'GB', name: 'United Kingdom', callingCode: '44', trunk: '0', exit: '00',
+    valid: /^(?:[1-9]\d{9}|1\d{8})$/,
+    groups: n => (/^2/.test(n) ? [2, 4, 4] : /^7/.test(n) ? [4, 6] : /^(?:1\d1|11|[3589])/.test(n) ? [3, 3, 4] : [4, 6]),
+  },
+  {
+    code: 'IE', name: 'Ireland', callingCode: '353', trunk: '0', exit: '00',
+    valid: /^(?:8[35-9]\d{7}|1\d{7,8}|[2-79]\d{6,8})$/, groups: n => (/^8/.test(n) ? [2, 3, 4] : /^1/.test(n) ? [1, 3, 4] : [2, 3, 4]),
+  },
+  {
+    code: 'DE', name: 'Germany', callingCode: '49', trunk: '0', exit: '00',
+    // Area codes run from 2 to 5 digits, so only mobiles have a fixed length
+    valid: /^(?:1[5-7]\d{8,9}|[2-9]\d{5,11})$/,
+    groups: n => (/^1[5-7]/.test(n) ? [3, 8] : /^(?:30|40|69|89)/.test(n) ? [2, 10] : [3, 10]),
+  },
+  {
+    code: 'FR', name: 'France', callingCode: '33', trunk: '0', exit: '00',
+    valid: /^[1-9]\d{8}$/, groups: () => [1, 2, 2, 2, 2],
+  },
+  {
+    code: 'ES', name: 'Spain', callingCode: '34', trunk: '', exit: '00',
+    valid: /^[5-9]\d{8}$/, groups: n => (/^[67]/.test(n) ? [3, 2, 2, 2] : [2, 3, 2, 2]),
+  },
+  {
+    code: 'IT', name: 'Italy', callingCode: '39', trunk: '', exit: '00',
+    // Landlines keep their leading 0 in international format
+    valid: /^(?:0\d{5,10}|3\d{8,9})$/, groups: n => (/^3/.test(n) ? [3, 3, 4] : /^0[26]/.test(n) ? [2, 9] : [3, 8]),
+  },
+  {
+    code: 'NL', name: 'Netherlands', callingCode: '31', trunk: '0', exit: '00',
+    valid: /^[1-9]\d{8}$/, groups: n => (/^6/.test(n) ? [1, 8] : /^(?:[17]0|2[03]|3[03]|4[03]|5[03])/.test(n) ? [2, 7] : [3, 6]),
+  },
+  {
+    code: 'IN', name: 'India', callingCode: '91', trunk: '0', exit: '00',
+    valid: /^(?:[6-9]\d{9}|[1-5]\d{9})$/,
+    groups: n => (/^[6-9]/.test(n) ? [5, 5] : /^(?:11|2[02]|33|4[04]|80)/.test(n) ? [2, 4, 4] : [3, 3, 4]),
+  },
+  {
+    code: 'AU', name: 'Australia', callingCode: '61', trunk: '0', exit: '0011',
+    valid: /^[2-478]\d{8}$/, groups: n => (/^4/.test(n) ? [3, 3, 3] : [1, 4, 4]),
+  },
+  {
+    code: 'NZ', name: 'New Zealand', callingCode: '64', trunk: '0', exit: '00',
+    valid: /^(?:2\d{7,9}|[3-9]\d{7})$/, groups: n => (/^2/.test(n) ? [2, 3, 5] : [1, 3, 4]),
+  },
+  {
+    code: 'SG', name: 'Singapore', callingCode: '65', trunk: '', exit: '000',
+    valid: /^[3689]\d{7}$/, groups: () => [4, 4],
+  },
+  {
+    code: 'JP', name: 'Japan', callingCode: '81', trunk: '0', exit: '010',
+    valid: /^(?:[789]0\d{8}|[1-9]\d{8})$/, groups: n => (/^[789]0/.test(n) && n.length === 10 ? [2, 4, 4] : /^[36]/.test(n) ? [1, 4, 4] : [2, 3, 4]),
+  },
+  {
+    code: 'CN', name: 'China', callingCode: '86', trunk: '0', exit: '00',
+    valid: /^(?:1[3-9]\d{9}|[2-9]\d{8,10})$/, groups: n => (/^1/.test(n) ? [3, 4, 4] : /^[12]/.test(n) ? [2, 4, 5] : [3, 4, 4]),
+  },
+  {
+    code: 'BR', name: 'Brazil', callingCode: '55', trunk: '0', exit: '00',
+    valid: /^[1-9]{2}(?:9\d{8}|[2-5]\d{7})$/, groups: n => [2, n.length - 6, 4],
+    national: p => `(${p[0]}) ${p[1]}-${p[2]}`, international: p => `+55 ${p[0]} ${p[1]}-${p[2]}`,
+  },
+  {
+    code: 'MX', name: 'Mexico', callingCode: '52', trunk: '', exit: '00',
+    valid: /^[1-9]\d{9}$/, groups: n => (/^(?:33|55|81)/.test(n) ? [2, 4, 4] : [3, 3, 4]),
+  },
+  {
+    code: 'ZA', name: 'South Africa', callingCode: '27', trunk: '0', exit: '00',
+    valid: /^[1-8]\d{8}$/, groups: () => [2, 3, 4],
+  },
+];
+
+export const PHONE_COUNTRIES: { value: string; label: string }[] =
+  COUNTRIES.map(c => ({ value: c.code, label: `${c.name} (+${c.callingCode})` }));
+
+const BY_CODE = new Map(COUNTRIES.map(c => [c.code, c]));
+const BY_NAME = new Map(COUNTRIES.map(c => [c.name.toLowerCase(), c.code]));
+
+// ISO code, English name, or anything toCountryCode knows ("UK", "U.S.A.");
+// '' when the country has no phone rules here
+export function toPhoneCountry(country: string): string {
+  const value = String(country || '').trim();
+  if (!value) return '';
+  const upper = value.toUpperCase();
+  if (BY_CODE.has(upper)) return upper;
+  return BY_NAME.get(value.toLowerCase()) || toCountryCode(value);
+}
+
+// Every assigned ITU-T E.164 country code. Numbers under a code without
+// rules above are written with their digits as given, unchecked.
+const CALLING_CODES = new Set(`
+  1 7 20 27 30 31 32 33 34 36 39 40 41 43 44 45 46 47 48 49 51 52 53 54 55 56 57 58
+  60 61 62 63 64 65 66 81 82 84 86 90 91 92 93 94 95 98
+  211 212 213 216 218 220 221 222 223 224 225 226 227 228 229 230 231 232 233 234 235
+  236 237 238 239 240 241 242 243 244 245 246 247 248 249 250 251 252 253 254 255 256
+  257 258 260 261 262 263 264 265 266 267 268 269 290 291 297 298 299
+  350 351 352 353 354 355 356 357 358 359 370 371 372 373 374 375 376 377 378 379 380
+  381 382 383 385 386 387 389 420 421 423 500 501 502 503 504 505 506 507 508 509
+  590 591 592 593 594 595 596 597 598 599 670 672 673 674 675 676 677 678 679 680 681
+  682 683 685 686 687 688 689 690 691 692 800 808 850 852 853 855 856 870 878 880 881
+  882 883 886 888 960 961 962 963 964 965 966 967 968 970 971 972 973 974 975 976 977
+  979 992 993 994 995 996 998
+`.trim().split(/\s+/));
+
+// ── PARSING ───────────────────────────────────────────────────────────────
+
+const EXTENSION = /\s*(?:ext\.?|extension|x|#)\s*(\d{1,6})$/i;
+
+// Splits "+1 415 555 0100 ext. 12" into the number and "12"
+export function splitExtension(phone: string): { number: string; extension: string } {
+  const match = EXTENSION.exec(phone);
+  return match ? { number: phone.slice(0, match.index), extension: match[1] } : { number: phone, extension: '' };
+}
+
+// Calling codes are prefix-free, so at most one length matches
+function matchCallingCode(digits: string): string {
+  for (let len = 1; len <= 3; len++) {
+    if (CALLING_CODES.has(digits.slice(0, len))) return digits.slice(0, len);
+  }
+  return '';
+}
+
+interface ParsedPhone {
+  callingCode: string;
+  country: PhoneCountry | null;  // null = a calling code without rules here
+  nsn: string;  // national significant number
+}
+
+function parseNational(digits: string, country: PhoneCountry): ParsedPhone | null {
+  const { callingCode } = country;
+  if (country.valid.test(digits)) return { callingCode, country, nsn: digits };
+  if (country.trunk && digits.startsWith(country.trunk) && country.valid.test(digits.slice(country.trunk.length))) {
+    return { callingCode, country, nsn: digits.slice(country.trunk.length) };
+  }
+  // The calling code typed without "+" (919876543210, 14155550100)
+  if (digits.startsWith(callingCode) && country.valid.test(digits.slice(callingCode.length))) {
+    return { callingCode, country, nsn: digits.slice(callingCode.length) };
+  }
+  return null;
+}
+
+// `home` wins over another country sharing its calling code (+1)
+function parseInternational(digits: string, home: PhoneCountry): ParsedPhone | null {
+  const callingCode = matchCallingCode(digits);
+  if (!callingCode) return null;
+  let nsn = digits.slice(callingCode.length);
+  const country = home.callingCode === callingCode ? home : COUNTRIES.find(c => c.callingCode === callingCode) || null;
+  // E.164 caps the whole number at 15 digits
+  if (!country) return nsn.length >= 4 && digits.length <= 15 ? { callingCode, country, nsn } : null;
+  // "+44 (0)20 …": the trunk prefix does not belong after the calling code
+  if (country.trunk && !country.valid.test(nsn) && nsn.startsWith(country.trunk)) nsn = nsn.slice(country.trunk.length);
+  if (!country.valid.test(nsn)) return null;
+  return { callingCode, country, nsn };
+}
+
+function groupDigits(nsn: string, groups: number[]): string[] {
+  const parts: string[] = [];
+  let at = 0;
+  groups.forEach((len, k) => {
+    if (at >= nsn.length) return;
+    const end = k === groups.length - 1 ? nsn.length : at + len;
+    parts.push(nsn.slice(at, end));
+    at = end;
+  });
+  return parts;
+}
+
+export interface PhoneResult {
+  value: string;
+  valid: boolean;
+}
+
+// Formats one phone number. `country` is an ISO code from toPhoneCountry()
+// used for numbers written without a calling code. National format only
+// applies to numbers from that country; others are written internationally.
+// E.164 has no room for an extension, so it is appended the RFC 3966 way.
+export function standardizePhoneNumber(phone: string, country: string, format: PhoneFormat): PhoneResult {
+  if (!phone) return { value: phone, valid: true };
+  const { number, extension } = splitExtension(phone.trim());
+  const home = BY_CODE.get(country) || BY_CODE.get(DEFAULT_PHONE_COUNTRY)!;
+  const digits = number.replace(/\D/g, '');
+
+  let parsed: ParsedPhone | null;
+  if (number.trim().startsWith('+')) parsed = parseInternational(digits, home);
+  else if (digits.startsWith(home.exit)) parsed = parseInternational(digits.slice(home.exit.length), home);
+  else parsed = parseNational(digits, home);
+  if (!parsed) return { value: phone, valid: false };
+
+  const { callingCode, country: target, nsn } = parsed;
+  let value: string;
+  if (format === 'e164') {
+    value = `+${callingCode}${nsn}${extension ? `;ext=${extension}` : ''}`;
+  } else {
+    const parts = target ? groupDigits(nsn, target.groups(nsn)) : [nsn];
+    if (format === 'national' && target === home) value = home.national ? home.national(parts) : home.trunk + parts.join(' ');
+    else value = target?.international ? target.international(parts) : `+${callingCode} ${parts.join(' ')}`;
+    if (extension) value += ` ext. ${extension}`;
+  }
+  return { value, valid: true };
+}
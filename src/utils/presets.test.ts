@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  type PresetSettings, DEFAULT_PRESET_SETTINGS, PRESET_VERSION, configFromSettings, createPreset, loadPresets,
+  parsePresetJSON, presetsToJSON, savePresets, upsertPreset,
+} from './presets';
+import { emptyColumnSchema } from './schema';
+
+// A localStorage backed by a Map, as the browser would keep it
+function memoryStorage(initial: Record<string, string> = {}) {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => { items.set(key, value); },
+  };
+}
+
+describe('configFromSettings', () => {
+  it('turns advanced options off in standard mode and keeps them in advanced mode', () => {
+    const settings: PresetSettings = { ...DEFAULT_PRESET_SETTINGS, validateSchema: true, validationSchema: { id: { ...emptyColumnSchema(), required: true } } };
+    const standard = configFromSettings(settings);
+    expect([standard.standardizePhone, standard.detectOutliers, standard.fillMissing]).toEqual([false, false, false]);
+    expect(standard.validationSchema).toEqual({});
+    expect([standard.removeDuplicates, standard.trimWhitespace]).toEqual([true, true]);
+    const advanced = configFromSettings({ ...settings, mode: 'advanced' });
+    expect([advanced.standardizePhone, advanced.detectOutliers]).toEqual([true, true]);
+    expect(advanced.validationSchema).toBe(settings.validationSchema);
+  });
+
+  it('fills in the method threshold, the table name and drops half-written rules', () => {
+    const config = configFromSettings({
+      ...DEFAULT_PRESET_SETTINGS, outlierMethod: 'mad', outlierThreshold: 0, tableName: '',
+      crossFieldRules: [{ left: 'a', op: '<', right: 'b' }, { left: 'a', op: '<', right: ' ' }],
+    });
+    expect(config.outlierThreshold).toBe(3.5);
+    expect(config.tableName).toBe('my_data');
+    expect(config.crossFieldRules).toEqual([{ left: 'a', op: '<', right: 'b' }]);
+    expect(config).not.toHaveProperty('outputEncoding');
+  });
+});
+
+describe('parsePresetJSON', () => {
+  it('reads back what presetsToJSON writes', () => {
+    const presets = [createPreset(' Contacts ', { ...DEFAULT_PRESET_SETTINGS, mode: 'advanced' })];
+    expect(presets[0].name).toBe('Contacts');
+    expect(parsePresetJSON(presetsToJSON(presets))).toEqual(presets);
+  });
+
+  it('fills missing or mistyped options with defaults and drops unknown ones', () => {
+    const [preset] = parsePresetJSON(JSON.stringify({
+      name: 'Old', settings: { tableName: 'people', removeEmpty: 'yes', dedupColumns: 'email', fuzzyMatch: { threshold: 0.8 }, legacy: 1 },
+    }));
+    expect(preset.version).toBe(PRESET_VERSION);
+    expect(preset.settings.tableName).toBe('people');
+    expect(preset.settings.removeEmpty).toBe(DEFAULT_PRESET_SETTINGS.removeEmpty);
+    expect(preset.settings.dedupColumns).toEqual([]);
+    expect(preset.settings.fuzzyMatch).toEqual({ ...DEFAULT_PRESET_SETTINGS.fuzzyMatch, threshold: 0.8 });
+    expect(preset.settings).not.toHaveProperty('legacy');
+  });
+
+  it.each([
+    ['not json', 'Preset file is not valid JSON'],
+    ['{"presets":[]}', 'Preset file contains no presets'],
+    ['{"name":"x"}', 'Preset must have a "name" and a "settings" object'],
+    ['{"name":"x","version":0,"settings":{}}', 'Preset "x": invalid version'],
+    [`{"name":"x","version":${PRESET_VERSION + 1},"settings":{}}`, 'Preset "x" was saved by a newer version of DataScrub Pro'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parsePresetJSON(text)).toThrow(message);
+  });
+});
+
+describe('preset storage', () => {
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  it('saves presets and loads them back, skipping entries that no longer load', () => {
+    vi.stubGlobal('localStorage', memoryStorage());
+    const preset = createPreset('Mine', DEFAULT_PRESET_SETTINGS);
+    expect(savePresets([preset, { name: '' } as never])).toBe(true);
+    expect(loadPresets()).toEqual([preset]);
+  });
+
+  it('loads nothing from missing or corrupted storage', () => {
+    vi.stubGlobal('localStorage', memoryStorage({ 'datascrub-pro:presets': '{oops' }));
+    expect(loadPresets()).toEqual([]);
+    vi.stubGlobal('localStorage', undefined);
+    expect(loadPresets()).toEqual([]);
+    expect(savePresets([])).toBe(false);
+  });
+
+  it('replaces a preset of the same name and keeps the list sorted', () => {
+    const a = createPreset('a', DEFAULT_PRESET_SETTINGS);
+    const b = createPreset('b', DEFAULT_PRESET_SETTINGS);
+    const newB = createPreset('b', { ...DEFAULT_PRESET_SETTINGS, tableName: 'new' });
+    expect(upsertPreset([b], a)).toEqual([a, b]);
+    expect(upsertPreset([a, b], newB)).toEqual([a, newB]);
+  });
+});
@@ -0,0 +1,182 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - CLEANING PRESETS
+// Named snapshots of every cleaning option, column-level settings included,
+// kept in localStorage and shareable as JSON files. Each preset records the
+// format version it was saved with; loading fills options added since then
+// with their defaults and runs any migrations in between.
+// ══════════════════════════════════════════════════════════════════════════
+
+import type { CleaningConfig } from './cleaningEngine';
+import { DEFAULT_DEDUP_MEMORY_MB, DEFAULT_FALSE_POSITIVE_RATE } from './dedupIndex';
+import type { OutputEncoding } from './encoding';
+import { DEFAULT_FUZZY_MATCH } from './fuzzyMatch';
+import { OUTLIER_METHODS } from './outliers';
+import { DEFAULT_PHONE_COUNTRY } from './phone';
+import { parseSchemaJSON } from './schema';
+
+// The options screen as the user left it: unlike the config handed to the
+// engine, advanced toggles keep their value in standard mode
+export interface PresetSettings extends CleaningConfig {
+  validateSchema: boolean;
+  outputEncoding: OutputEncoding;
+}
+
+export interface CleaningPreset {
+  name: string;
+  version: number;
+  savedAt: string;  // ISO timestamp
+  settings: PresetSettings;
+}
+
+export const PRESET_VERSION = 1;
+
+// Mirrors the initial state of the options screen
+export const DEFAULT_PRESET_SETTINGS: PresetSettings = {
+  tableName: 'my_data', pkColumn: '', eol: 'Auto', encoding: 'Auto', quoteChar: '"', escapeChar: '"',
+  mode: 'standard', generateId: false,
+  removeDuplicates: true, dedupColumns: [], dedupPolicy: 'first', dedupOrderColumn: '',
+  dedupIndex: 'fp128', dedupMemoryMB: DEFAULT_DEDUP_MEMORY_MB, dedupFalsePositiveRate: DEFAULT_FALSE_POSITIVE_RATE,
+  removeEmpty: true, trimWhitespace: true, normalizeValues: true, fixEncoding: true,
+  fuzzyDuplicates: true, fuzzyMatch: DEFAULT_FUZZY_MATCH,
+  validateEmail: true, standardizePhone: true, normalizeCase: true, standardizeDate: true,
+  phoneFormat: 'national', phoneCountry: DEFAULT_PHONE_COUNTRY, phoneCountryColumn: '',
+  detectOutliers: true, outlierMethod: 'iqr', outlierThreshold: 1.5, outlierAction: 'log', outlierColumns: [],
+  removeSpecialChars: true, columnRules: {},
+  crossFieldValidation: true, crossFieldRules: [], crossFieldAction: 'log',
+  validateSchema: false, validationSchema: {},
+  fillMissing: false, fillSettings: {}, standardizeAddress: false, addressColumns: {},
+  removeHtmlTags: true, fixNumberFormats: true, removeRowsWithEmptyValues: false, trackChanges: false,
+  outputEncoding: 'UTF-8',
+};
+
+// The config a run uses: advanced options only apply in advanced mode, as on
+// the options screen. Column lists are not checked against the file here.
+export function configFromSettings(s: PresetSettings): CleaningConfig {
+  const advanced = s.mode === 'advanced';
+  const { validateSchema, outputEncoding, ...config } = s;
+  return {
+    ...config,
+    fuzzyDuplicates: advanced && s.fuzzyDuplicates,
+    validateEmail: advanced && s.validateEmail,
+    standardizePhone: advanced && s.standardizePhone,
+    normalizeCase: advanced && s.normalizeCase,
+    standardizeDate: advanced && s.standardizeDate,
+    detectOutliers: advanced && s.detectOutliers,
+    outlierThreshold: s.outlierThreshold > 0 ? s.outlierThreshold : OUTLIER_METHODS.find(m => m.value === s.outlierMethod)!.threshold,
+    removeSpecialChars: advanced && s.removeSpecialChars,
+    crossFieldValidation: advanced && s.crossFieldValidation,
+    crossFieldRules: s.crossFieldRules.filter(r => r.left.trim() && r.right.trim()),
+    validationSchema: advanced && validateSchema ? s.validationSchema : {},
+    fillMissing: advanced && s.fillMissing,
+    standardizeAddress: advanced && s.standardizeAddress,
+    removeHtmlTags: advanced && s.removeHtmlTags,
+    fixNumberFormats: advanced && s.fixNumberFormats,
+    removeRowsWithEmptyValues: advanced && s.removeRowsWithEmptyValues,
+    tableName: s.tableName || 'my_data',
+  };
+}
+
+// ── MIGRATIONS ────────────────────────────────────────────────────────────
+
+// MIGRATIONS[v] turns version v settings into version v + 1. Options that are
+// only added need no entry — missing fields take their defaults; renamed or
+// reshaped options do.
+const MIGRATIONS: Record<number, (settings: Record<string, unknown>) => Record<string, unknown>> = {};
+
+function migrate(settings: Record<string, unknown>, from: number): Record<string, unknown> {
+  let s = settings;
+  for (let v = from; v < PRESET_VERSION; v++) s = MIGRATIONS[v] ? MIGRATIONS[v](s) : s;
+  return s;
+}
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Missing fields, and fields whose type doesn't match the default, fall back
+// to the default; unknown fields are dropped
+function normalizeSettings(raw: Record<string, unknown>): PresetSettings {
+  const out: Record<string, unknown> = {};
+  for (const [key, def] of Object.entries(DEFAULT_PRESET_SETTINGS)) {
+    const v = raw[key];
+    if (Array.isArray(def)) out[key] = Array.isArray(v) ? v : def;
+    else if (isPlainObject(def)) out[key] = isPlainObject(v) ? v : def;
+    else out[key] = typeof v === typeof def ? v : def;
+  }
+  const settings = out as unknown as PresetSettings;
+  settings.fuzzyMatch = { ...DEFAULT_FUZZY_MATCH, ...settings.fuzzyMatch };
+  settings.validationSchema = parseSchemaJSON(JSON.stringify({ columns: settings.validationSchema }));
+  return settings;
+}
+
+function readPreset(raw: unknown): CleaningPreset {
+  if (!isPlainObject(raw) || typeof raw.name !== 'string' || !raw.name.trim() || !isPlainObject(raw.settings)) {
+    throw new Error('Preset must have a "name" and a "settings" object');
+  }
+  const version = raw.version === undefined ? 1 : raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) throw new Error(`Preset "${raw.name}": invalid version`);
+  if (version > PRESET_VERSION) throw new Error(`Preset "${raw.name}" was saved by a newer version of DataScrub Pro`);
+  return {
+    name: raw.name.trim(),
+    version: PRESET_VERSION,
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+    settings: normalizeSettings(migrate(raw.settings, version)),
+  };
+}
+
+// ── JSON ──────────────────────────────────────────────────────────────────
+
+export function createPreset(name: string, settings: PresetSettings): CleaningPreset {
+  return { name: name.trim(), version: PRESET_VERSION, savedAt: new Date().toISOString(), settings };
+}
+
+export function presetsToJSON(presets: CleaningPreset[]): string {
+  return JSON.stringify({ presets }, null, 2) + '\n';
+}
+
+// Accepts an exported file ({ presets: [...] }) or a single preset
+export function parsePresetJSON(text: string): CleaningPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+  const list = isPlainObject(data) && Array.isArray(data.presets) ? data.presets : [data];
+  if (list.length === 0) throw new Error('Preset file contains no presets');
+  return list.map(readPreset);
+}
+
+// ── STORAGE ───────────────────────────────────────────────────────────────
+
+const STORAGE_KEY = 'datascrub-pro:presets';
+
+// Presets that no longer load (e.g. a corrupted entry) are skipped rather
+// than taking the rest down with them
+export function loadPresets(): CleaningPreset[] {
+  let list: unknown;
+  try {
+    list = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(list)) return [];
+  const presets: CleaningPreset[] = [];
+  for (const raw of list) {
+    try { presets.push(readPreset(raw)); } catch { /* skip */ }
+  }
+  return presets;
+}
+
+// Returns false when storage is unavailable or full
+export function savePresets(presets: CleaningPreset[]): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Replaces a preset of the same name, otherwise adds it; kept sorted by name
+export function upsertPreset(presets: CleaningPreset[], preset: CleaningPreset): CleaningPreset[] {
+  return [...presets.filter(p => p.name !== preset.name), preset].sort((a, b) => a.name.localeCompare(b.name));
+}
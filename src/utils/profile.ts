@@ -0,0 +1,258 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - DATA PROFILING
+// Per-column profile built in one streaming pass: empties, distinct count,
+// numeric summary, value lengths, top values, value patterns and a histogram.
+// Frequency maps are capped and the numeric histogram comes from a reservoir
+// sample, so memory stays flat however many rows stream past.
+// ══════════════════════════════════════════════════════════════════════════
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface NumericSummary {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  stddev: number;
+}
+
+export interface ColumnProfile {
+  name: string;
+  rows: number;
+  empty: number;
+  distinct: number;
+  distinctCapped: boolean;  // distinct is a lower bound once MAX_TRACKED_VALUES was reached
+  numeric: NumericSummary | null;
+  lengths: { min: number; max: number; mean: number };
+  topValues: ValueCount[];
+  patterns: ValueCount[];
+  histogramOf: 'values' | 'lengths';  // values for mostly-numeric columns, lengths otherwise
+  histogram: HistogramBin[];
+}
+
+export interface DataProfile {
+  label: string;  // "Input" / "Output"
+  fileName: string;
+  rows: number;
+  generatedAt: string;
+  columns: ColumnProfile[];
+}
+
+export const PROFILE_TOP_N = 10;
+const MAX_TRACKED_VALUES = 10000;
+const MAX_TRACKED_PATTERNS = 1000;
+const MAX_PATTERN_LENGTH = 40;
+const RESERVOIR_SIZE = 10000;
+const HISTOGRAM_BINS = 12;
+
+// Shape of a value: digits → 9, runs of uppercase / lowercase letters → A / a,
+// everything else kept. "555-1234" → "999-9999", "John@mail.com" → "Aa@a.a".
+export function valuePattern(value: string): string {
+  let out = '';
+  let last = '';
+  for (const ch of value) {
+    let p: string;
+    if (ch >= '0' && ch <= '9') p = '9';
+    else if (ch.toUpperCase() !== ch.toLowerCase()) p = ch === ch.toUpperCase() ? 'A' : 'a';
+    else p = ch;
+    if ((p === 'a' || p === 'A') && p === last) continue;
+    out += p;
+    last = p;
+    if (out.length >= MAX_PATTERN_LENGTH) return out + '…';
+  }
+  return out;
+}
+
+interface ColumnAccumulator {
+  empty: number;
+  freq: Map<string, number>;
+  freqCapped: boolean;
+  patterns: Map<string, number>;
+  lengths: Map<number, number>;
+  lengthSum: number;
+  numCount: number;
+  mean: number;
+  m2: number;  // Welford running sum of squared deviations
+  min: number;
+  max: number;
+  reservoir: number[];
+}
+
+export interface Profiler {
+  push(cells: string[]): void;
+  finish(label: string, fileName: string): DataProfile;
+}
+
+export function createProfiler(headers: string[]): Profiler {
+  let rows = 0;
+  const cols: ColumnAccumulator[] = headers.map(() => ({
+    empty: 0, freq: new Map(), freqCapped: false, patterns: new Map(), lengths: new Map(), lengthSum: 0,
+    numCount: 0, mean: 0, m2: 0, min: Infinity, max: -Infinity, reservoir: [],
+  }));
+
+  const bump = <K>(map: Map<K, number>, key: K, cap: number): boolean => {
+    const n = map.get(key);
+    if (n !== undefined) { map.set(key, n + 1); return true; }
+    if (map.size >= cap) return false;
+    map.set(key, 1);
+    return true;
+  };
+
+  return {
+    push(cells) {
+      rows++;
+      for (let i = 0; i < cols.length; i++) {
+        const c = cols[i];
+        const v = (cells[i] || '').trim();
+        if (!v) { c.empty++; continue; }
+        if (!bump(c.freq, v, MAX_TRACKED_VALUES)) c.freqCapped = true;
+        bump(c.patterns, valuePattern(v), MAX_TRACKED_PATTERNS);
+        c.lengths.set(v.length, (c.lengths.get(v.length) || 0) + 1);
+        c.lengthSum += v.length;
+
+        if (!/^-?\d*\.?\d+([eE][+-]?\d+)?$/.test(v)) continue;
+        const num = parseFloat(v);
+        c.numCount++;
+        const delta = num - c.mean;
+        c.mean += delta / c.numCount;
+        c.m2 += delta * (num - c.mean);
+        if (num < c.min) c.min = num;
+        if (num > c.max) c.max = num;
+        if (c.reservoir.length < RESERVOIR_SIZE) {
+          c.reservoir.push(num);
+        } else {
+          const j = Math.floor(Math.random() * c.numCount);
+          if (j < RESERVOIR_SIZE) c.reservoir[j] = num;
+        }
+      }
+    },
+
+    finish(label, fileName) {
+      const columns = headers.map((name, i): ColumnProfile => {
+        const c = cols[i];
+        const filled = rows - c.empty;
+        const mostlyNumeric = c.numCount > 0 && c.numCount >= filled * 0.9;
+        let minLength = Infinity;
+        let maxLength = -Infinity;
+        for (const len of c.lengths.keys()) {
+          if (len < minLength) minLength = len;
+          if (len > maxLength) maxLength = len;
+        }
+        let histogram: HistogramBin[];
+        if (mostlyNumeric) {
+          // The reservoir is a uniform sample, so scale its bins up to the full count
+          const scale = c.numCount / c.reservoir.length;
+          histogram = binValues(c.min, c.max, c.reservoir.map(v => [v, 1] as [number, number]), c.reservoir.every(Number.isInteger))
+            .map(b => ({ ...b, count: Math.round(b.count * scale) }));
+        } else {
+          histogram = binValues(minLength, maxLength, [...c.lengths.entries()], true);
+        }
+        return {
+          name,
+          rows,
+          empty: c.empty,
+          distinct: c.freq.size,
+          distinctCapped: c.freqCapped,
+          numeric: c.numCount > 0
+            ? { count: c.numCount, min: c.min, max: c.max, mean: c.mean, stddev: c.numCount > 1 ? Math.sqrt(c.m2 / (c.numCount - 1)) : 0 }
+            : null,
+          lengths: filled > 0
+            ? { min: minLength, max: maxLength, mean: c.lengthSum / filled }
+            : { min: 0, max: 0, mean: 0 },
+          topValues: topEntries(c.freq),
+          patterns: topEntries(c.patterns),
+          histogramOf: mostlyNumeric ? 'values' : 'lengths',
+          histogram: filled > 0 ? histogram : [],
+        };
+      });
+      return { label, fileName, rows, generatedAt: new Date().toISOString(), columns };
+    },
+  };
+}
+
+function topEntries(map: Map<string, number>): ValueCount[] {
+  return [...map.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, PROFILE_TOP_N)
+    .map(([value, count]) => ({ value, count }));
+}
+
+// Equal-width bins over [min, max]; weighted values as [value, weight] pairs.
+// Integer data gets whole-number bins (inclusive `to`), one per value when the
+// range is small.
+function binValues(min: number, max: number, values: [number, number][], integer: boolean): HistogramBin[] {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [];
+  if (min === max) return [{ from: min, to: max, count: values.reduce((s, [, w]) => s + w, 0) }];
+  const width = integer ? Math.ceil((max - min + 1) / HISTOGRAM_BINS) : (max - min) / HISTOGRAM_BINS;
+  const count = integer ? Math.ceil((max - min + 1) / width) : HISTOGRAM_BINS;
+  const bins = Array.from({ length: count }, (_, i) => ({
+    from: min + i * width,
+    to: integer ? Math.min(max, min + (i + 1) * width - 1) : min + (i + 1) * width,
+    count: 0,
+  }));
+  for (const [v, w] of values) bins[Math.min(count - 1, Math.floor((v - min) / width))].count += w;
+  return bins;
+}
+
+// ── REPORT ────────────────────────────────────────────────────────────────
+
+export function formatStat(n: number): string {
+  if (Number.isInteger(n)) return n.toLocaleString();
+  return Math.abs(n) >= 1000 ? n.toLocaleString(undefined, { maximumFractionDigits: 2 }) : String(parseFloat(n.toPrecision(6)));
+}
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch]!);
+
+// Standalone HTML report (inline styles, no scripts) for one or more profiles
+export function profileToHTML(profiles: DataProfile[]): string {
+  const list = (items: ValueCount[]) =>
+    items.map(t => `<div><code>${escapeHtml(t.value)}</code> <span class="n">${t.count.toLocaleString()}</span></div>`).join('');
+  const histogram = (bins: HistogramBin[]) => {
+    const max = Math.max(1, ...bins.map(b => b.count));
+    return `<div class="hist">${bins.map(b =>
+      `<span style="height:${Math.max(1, Math.round((b.count / max) * 40))}px" title="${formatStat(b.from)} – ${formatStat(b.to)}: ${b.count.toLocaleString()}"></span>`).join('')}</div>`;
+  };
+  const section = (p: DataProfile) => `
+<h2>${escapeHtml(p.label)}: ${escapeHtml(p.fileName)}</h2>
+<p class="meta">${p.rows.toLocaleString()} rows · ${p.columns.length} columns · ${escapeHtml(p.generatedAt)}</p>
+<table>
+<thead><tr><th>Column</th><th>Empty</th><th>Distinct</th><th>Numeric</th><th>Length</th><th>Top values</th><th>Patterns</th><th>Histogram</th></tr></thead>
+<tbody>
+${p.columns.map(c => `<tr>
+<td><b>${escapeHtml(c.name)}</b></td>
+<td>${c.rows > 0 ? ((c.empty / c.rows) * 100).toFixed(1) : '0.0'}%<br><span class="n">${c.empty.toLocaleString()}</span></td>
+<td>${c.distinct.toLocaleString()}${c.distinctCapped ? '+' : ''}</td>
+<td>${c.numeric ? `min ${formatStat(c.numeric.min)}<br>max ${formatStat(c.numeric.max)}<br>mean ${formatStat(c.numeric.mean)}<br>σ ${formatStat(c.numeric.stddev)}` : '—'}</td>
+<td>${c.lengths.min}–${c.lengths.max}<br><span class="n">mean ${formatStat(c.lengths.mean)}</span></td>
+<td>${list(c.topValues)}</td>
+<td>${list(c.patterns)}</td>
+<td>${histogram(c.histogram)}<span class="n">${c.histogramOf}</span></td>
+</tr>`).join('\n')}
+</tbody>
+</table>`;
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>DataScrub Pro — Data Profile</title>
+<style>
+body { font-family: -apple-system, 'Inter', sans-serif; margin: 24px; color: #1a1c1f; }
+h1 { font-size: 20px; } h2 { font-size: 16px; margin-top: 32px; } .meta { color: #6b7280; font-size: 13px; }
+table { border-collapse: collapse; font-size: 12px; width: 100%; }
+th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; } code { font-family: Menlo, monospace; font-size: 11px; } .n { color: #6b7280; font-size: 11px; }
+.hist { display: flex; align-items: flex-end; gap: 1px; height: 40px; }
+.hist span { width: 6px; background: #4f46e5; }
+</style></head>
+<body>
+<h1>DataScrub Pro — Data Profile</h1>
+${profiles.map(section).join('\n')}
+</body></html>
+`;
+}
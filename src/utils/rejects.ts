@@ -0,0 +1,77 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - REJECTED ROWS
+// Every row processFile removes, and every row whose shape it had to change,
+// is written to a separate quarantine file with its source row / line number
+// and a reason code. The cells are the ones read from the file, before any
+// cleaning transform ran.
+// ══════════════════════════════════════════════════════════════════════════
+
+import type { OutputStorage } from './outputStore';
+
+export type RejectReason =
+  | 'duplicate'
+  | 'fuzzy-duplicate'
+  | 'empty'
+  | 'empty-values'
+  | 'column-mismatch'
+  | 'parse-error'
+  | 'cross-field'
+  | 'schema'
+  | 'outlier'
+  | 'invalid-phone';
+
+// removed = not in the cleaned output; normalized = kept after padding or
+// truncating to the header width; kept = kept as parsed despite the problem
+export type RejectAction = 'removed' | 'normalized' | 'kept';
+
+export const REJECT_REASONS: { value: RejectReason; label: string }[] = [
+  { value: 'duplicate', label: 'Duplicate' },
+  { value: 'fuzzy-duplicate', label: 'Fuzzy duplicate' },
+  { value: 'empty', label: 'Empty row' },
+  { value: 'empty-values', label: 'Has empty values' },
+  { value: 'column-mismatch', label: 'Column mismatch' },
+  { value: 'parse-error', label: 'Parse error' },
+  { value: 'cross-field', label: 'Cross-field violation' },
+  { value: 'schema', label: 'Schema violation' },
+  { value: 'outlier', label: 'Outlier' },
+  { value: 'invalid-phone', label: 'Invalid phone number' },
+];
+
+// Outlier drops happen in a second pass over the cleaned output, so those
+// entries carry the cleaned cells and line 0, and come after all the others.
+export interface RejectEntry {
+  row: number;   // 1-based data row, header excluded
+  line: number;  // source line the record started on
+  reason: RejectReason;
+  action: RejectAction;
+  detail: string;
+  cells: string[];
+}
+
+export interface RejectLog {
+  headers: string[];
+  output: Blob;  // CSV, header line first; read from disk when the run spilled
+  storage: OutputStorage | null;  // where output lives, for releaseOutput
+  count: number;
+  counts: Partial<Record<RejectReason, number>>;
+}
+
+// Bookkeeping columns come first; source cells past the header width (too
+// many columns) go to REJECT_OVERFLOW_COLUMN as a JSON array so nothing is lost.
+export const REJECT_META_COLUMNS = ['_row', '_line', '_reason', '_action', '_detail'];
+export const REJECT_OVERFLOW_COLUMN = '_overflow';
+
+export function rejectHeaders(sourceHeaders: string[]): string[] {
+  return [...REJECT_META_COLUMNS, ...sourceHeaders, REJECT_OVERFLOW_COLUMN];
+}
+
+export function rejectRowCells(entry: RejectEntry, width: number): string[] {
+  const cells = entry.cells.slice(0, width);
+  while (cells.length < width) cells.push('');
+  const overflow = entry.cells.length > width ? JSON.stringify(entry.cells.slice(width)) : '';
+  return [String(entry.row), String(entry.line), entry.reason, entry.action, entry.detail, ...cells, overflow];
+}
+
+export function emptyRejectLog(): RejectLog {
+  return { headers: [], output: new Blob([], { type: 'text/csv' }), storage: null, count: 0, counts: {} };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { type ValidationSchema, createSchemaValidator, emptyColumnSchema, parseSchemaJSON, schemaToJSON } from './schema';
+
+const rulesBroken = (schema: ValidationSchema, headers: string[], rows: string[][]) => {
+  const validator = createSchemaValidator(schema, headers);
+  return rows.map(r => validator.validate(r).map(v => `${v.column}:${v.rule}`));
+};
+
+describe('parseSchemaJSON', () => {
+  it('fills missing fields with their defaults', () => {
+    const schema = parseSchemaJSON('{"version":1,"columns":{"age":{"min":0,"max":"120","actions":{"range":"reject"}}}}');
+    expect(schema.age).toEqual({ ...emptyColumnSchema(), min: '0', max: '120', actions: { ...emptyColumnSchema().actions, range: 'reject' } });
+  });
+
+  it('round-trips through schemaToJSON, dropping columns without rules', () => {
+    const schema: ValidationSchema = {
+      email: { ...emptyColumnSchema(), required: true, pattern: '[^@]+@[^@]+', unique: true },
+      note: emptyColumnSchema(),
+    };
+    expect(parseSchemaJSON(schemaToJSON(schema))).toEqual({ email: schema.email });
+  });
+
+  it.each([
+    ['not json', 'Schema file is not valid JSON'],
+    ['[]', 'Schema must be an object with a "columns" object'],
+    ['{"columns":[]}', 'Schema must be an object with a "columns" object'],
+    ['{"version":2,"columns":{}}', 'Unsupported schema version 2'],
+    ['{"columns":{"a":{"required":"yes"}}}', 'Column "a": "required" has the wrong type'],
+    ['{"columns":{"a":{"maxLength":-1}}}', 'Column "a": "maxLength" has the wrong type'],
+    ['{"columns":{"a":{"allowed":"x"}}}', 'Column "a": "allowed" has the wrong type'],
+    ['{"columns":{"a":{"actions":{"size":"flag"}}}}', 'Column "a": unknown rule "size"'],
+    ['{"columns":{"a":{"actions":{"required":"drop"}}}}', 'Column "a": unknown action "drop"'],
+    ['{"columns":{"a":{"pattern":"("}}}', 'Column "a": invalid pattern /(/'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseSchemaJSON(text)).toThrow(message);
+  });
+});
+
+describe('createSchemaValidator', () => {
+  const headers = ['id', 'email', 'age', 'plan', 'code', 'joined'];
+  const schema: ValidationSchema = {
+    id: { ...emptyColumnSchema(), unique: true },
+    email: { ...emptyColumnSchema(), required: true, pattern: '[^@\\s]+@[^@\\s]+' },
+    age: { ...emptyColumnSchema(), min: '18', max: '99' },
+    plan: { ...emptyColumnSchema(), allowed: ['free', 'pro'] },
+    code: { ...emptyColumnSchema(), maxLength: 3 },
+    joined: { ...emptyColumnSchema(), min: '2020-01-01', max: '2024-12-31' },
+    missing: { ...emptyColumnSchema(), required: true },
+  };
+
+  it('reports schema columns the file lacks', () => {
+    const validator = createSchemaValidator(schema, headers);
+    expect(validator.columns).toEqual(['id', 'email', 'age', 'plan', 'code', 'joined']);
+    expect(validator.skipped).toEqual(['missing']);
+  });
+
+  it('checks each rule, with empty cells only breaking "required"', () => {
+    expect(rulesBroken(schema, headers, [
+      ['1', 'a@b.co', '30', 'pro', 'abc', '2022-06-01'],
+      ['2', '', '', '', '', ''],
+      ['3', 'a@b.co x', '17', 'team', 'abcd', '2019-12-31'],
+      ['4', 'c@d.co', 'old', 'free', 'x', 'soon'],
+    ])).toEqual([
+      [],
+      ['email:required'],
+      ['email:pattern', 'age:range', 'plan:allowed', 'code:maxLength', 'joined:range'],
+      ['age:range', 'joined:range'],
+    ]);
+  });
+
+  it('matches patterns against the whole value', () => {
+    const s = { code: { ...emptyColumnSchema(), pattern: '[A-Z]{2}' } };
+    expect(rulesBroken(s, ['code'], [['GB'], ['GBR'], ['xGB']])).toEqual([[], ['code:pattern'], ['code:pattern']]);
+  });
+
+  it('lets the first occurrence of a value pass the unique rule', () => {
+    expect(rulesBroken(schema, headers, [['7', 'a@b.co'], ['7', 'a@b.co'], ['8', 'a@b.co']]).map(r => r.includes('id:unique')))
+      .toEqual([false, true, false]);
+  });
+
+  it('carries each rule\'s action and a readable message', () => {
+    const s = { age: { ...emptyColumnSchema(), min: '18', actions: { ...emptyColumnSchema().actions, range: 'reject' as const } } };
+    const validator = createSchemaValidator(s, ['age']);
+    expect(validator.usesFlag).toBe(false);
+    expect(validator.validate(['12'])).toEqual([{ col: 0, column: 'age', rule: 'range', action: 'reject', message: 'age "12" is outside 18 – …' }]);
+  });
+});
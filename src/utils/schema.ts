@@ -0,0 +1,209 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - VALIDATION SCHEMA
+// Declarative per-column rules (required, regex, numeric / date range,
+// allowed values, max length, uniqueness), each with its own action on
+// violation. Schemas round-trip through JSON so they can be shared.
+// ══════════════════════════════════════════════════════════════════════════
+
+import { parseNumber, parseDate } from './crossField';
+
+export type SchemaRuleKind = 'required' | 'pattern' | 'range' | 'allowed' | 'maxLength' | 'unique';
+
+// flag = keep the row and list the issue in SCHEMA_FLAG_COLUMN;
+// blank = empty the offending cell; reject = drop the row to the rejects file
+export type SchemaAction = 'flag' | 'blank' | 'reject';
+
+export interface ColumnSchema {
+  required: boolean;
+  pattern: string;    // '' = any; must match the whole value
+  min: string;        // '' = unbounded; numbers, or dates when both bounds are dates
+  max: string;
+  allowed: string[];  // [] = any
+  maxLength: number;  // 0 = no limit
+  unique: boolean;
+  actions: Record<SchemaRuleKind, SchemaAction>;
+}
+
+// Column name → rules; columns without an entry are not checked
+export type ValidationSchema = Record<string, ColumnSchema>;
+
+export const SCHEMA_RULES: { value: SchemaRuleKind; label: string }[] = [
+  { value: 'required', label: 'Required' },
+  { value: 'pattern', label: 'Pattern' },
+  { value: 'range', label: 'Range' },
+  { value: 'allowed', label: 'Allowed values' },
+  { value: 'maxLength', label: 'Max length' },
+  { value: 'unique', label: 'Unique' },
+];
+
+export const SCHEMA_ACTIONS: { value: SchemaAction; label: string }[] = [
+  { value: 'flag', label: 'Flag' },
+  { value: 'blank', label: 'Blank out' },
+  { value: 'reject', label: 'Reject row' },
+];
+
+export const SCHEMA_FLAG_COLUMN = 'schema_issues';
+
+export function emptyColumnSchema(): ColumnSchema {
+  return {
+    required: false, pattern: '', min: '', max: '', allowed: [], maxLength: 0, unique: false,
+    actions: { required: 'flag', pattern: 'flag', range: 'flag', allowed: 'flag', maxLength: 'flag', unique: 'flag' },
+  };
+}
+
+// Rules that are switched on for a column
+export function activeRules(s: ColumnSchema): SchemaRuleKind[] {
+  const on: Record<SchemaRuleKind, boolean> = {
+    required: s.required, pattern: !!s.pattern, range: !!(s.min || s.max), allowed: s.allowed.length > 0,
+    maxLength: s.maxLength > 0, unique: s.unique,
+  };
+  return SCHEMA_RULES.map(r => r.value).filter(k => on[k]);
+}
+
+// ── JSON ──────────────────────────────────────────────────────────────────
+
+const SCHEMA_VERSION = 1;
+
+export function schemaToJSON(schema: ValidationSchema): string {
+  const columns = Object.fromEntries(Object.entries(schema).filter(([, s]) => activeRules(s).length > 0));
+  return JSON.stringify({ version: SCHEMA_VERSION, columns }, null, 2) + '\n';
+}
+
+// Missing fields take their defaults; anything of the wrong type is an error
+export function parseSchemaJSON(text: string): ValidationSchema {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Schema file is not valid JSON');
+  }
+  const root = data as { version?: unknown; columns?: unknown };
+  if (!root || typeof root !== 'object' || !root.columns || typeof root.columns !== 'object' || Array.isArray(root.columns)) {
+    throw new Error('Schema must be an object with a "columns" object');
+  }
+  if (root.version !== undefined && root.version !== SCHEMA_VERSION) throw new Error(`Unsupported schema version ${String(root.version)}`);
+
+  const schema: ValidationSchema = {};
+  for (const [column, raw] of Object.entries(root.columns as Record<string, unknown>)) {
+    const r = (raw || {}) as Record<string, unknown>;
+    const s = emptyColumnSchema();
+    const bad = (field: string) => new Error(`Column "${column}": "${field}" has the wrong type`);
+    for (const field of ['required', 'unique'] as const) {
+      if (r[field] === undefined) continue;
+      if (typeof r[field] !== 'boolean') throw bad(field);
+      s[field] = r[field] as boolean;
+    }
+    for (const field of ['pattern', 'min', 'max'] as const) {
+      if (r[field] === undefined) continue;
+      if (typeof r[field] !== 'string' && typeof r[field] !== 'number') throw bad(field);
+      s[field] = String(r[field]);
+    }
+    if (r.maxLength !== undefined) {
+      if (typeof r.maxLength !== 'number' || r.maxLength < 0) throw bad('maxLength');
+      s.maxLength = Math.floor(r.maxLength);
+    }
+    if (r.allowed !== undefined) {
+      if (!Array.isArray(r.allowed)) throw bad('allowed');
+      s.allowed = r.allowed.map(String);
+    }
+    if (r.actions !== undefined) {
+      if (typeof r.actions !== 'object' || r.actions === null) throw bad('actions');
+      for (const [kind, action] of Object.entries(r.actions)) {
+        if (!SCHEMA_RULES.some(x => x.value === kind)) throw new Error(`Column "${column}": unknown rule "${kind}"`);
+        if (!SCHEMA_ACTIONS.some(x => x.value === action)) throw new Error(`Column "${column}": unknown action "${String(action)}"`);
+        s.actions[kind as SchemaRuleKind] = action as SchemaAction;
+      }
+    }
+    if (s.pattern) {
+      try { new RegExp(s.pattern); } catch { throw new Error(`Column "${column}": invalid pattern /${s.pattern}/`); }
+    }
+    schema[column] = s;
+  }
+  return schema;
+}
+
+// ── EVALUATION ────────────────────────────────────────────────────────────
+
+export interface SchemaViolation {
+  col: number;  // index into the headers the validator was built for
+  column: string;
+  rule: SchemaRuleKind;
+  action: SchemaAction;
+  message: string;
+}
+
+export interface SchemaValidator {
+  readonly columns: string[];  // schema columns found in the headers
+  readonly skipped: string[];  // schema columns not in the headers
+  readonly usesFlag: boolean;
+  validate(cells: string[]): SchemaViolation[];
+}
+
+interface CompiledColumn {
+  col: number;
+  column: string;
+  schema: ColumnSchema;
+  pattern: RegExp | null;
+  range: { lo: number | null; hi: number | null; parse: (v: string) => number | null } | null;
+  allowed: Set<string> | null;
+  seen: Set<string> | null;
+}
+
+// Empty cells only ever break "required". Unique values are remembered per
+// column for the whole stream, so the first occurrence passes.
+export function createSchemaValidator(schema: ValidationSchema, headers: string[]): SchemaValidator {
+  const compiled: CompiledColumn[] = [];
+  const skipped: string[] = [];
+  for (const [column, s] of Object.entries(schema)) {
+    if (activeRules(s).length === 0) continue;
+    const col = headers.indexOf(column);
+    if (col === -1) { skipped.push(column); continue; }
+    let range: CompiledColumn['range'] = null;
+    if (s.min || s.max) {
+      // Number bounds compare numbers; otherwise both bounds must read as dates
+      const numeric = [s.min, s.max].every(b => !b || parseNumber(b) !== null);
+      const parse = numeric ? parseNumber : parseDate;
+      range = { lo: s.min ? parse(s.min) : null, hi: s.max ? parse(s.max) : null, parse };
+    }
+    compiled.push({
+      col, column, schema: s,
+      pattern: s.pattern ? new RegExp(`^(?:${s.pattern})$`) : null,
+      range,
+      allowed: s.allowed.length > 0 ? new Set(s.allowed) : null,
+      seen: s.unique ? new Set() : null,
+    });
+  }
+
+  return {
+    columns: compiled.map(c => c.column),
+    skipped,
+    usesFlag: compiled.some(c => activeRules(c.schema).some(k => c.schema.actions[k] === 'flag')),
+    validate(cells) {
+      const violations: SchemaViolation[] = [];
+      for (const c of compiled) {
+        const v = cells[c.col] || '';
+        const fail = (rule: SchemaRuleKind, message: string) =>
+          violations.push({ col: c.col, column: c.column, rule, action: c.schema.actions[rule], message: `${c.column} ${message}` });
+        if (!v) {
+          if (c.schema.required) fail('required', 'is required');
+          continue;
+        }
+        if (c.pattern && !c.pattern.test(v)) fail('pattern', `"${v}" does not match /${c.schema.pattern}/`);
+        if (c.range) {
+          const n = c.range.parse(v);
+          if (n === null) fail('range', `"${v}" is not a ${c.range.parse === parseNumber ? 'number' : 'date'}`);
+          else if ((c.range.lo !== null && n < c.range.lo) || (c.range.hi !== null && n > c.range.hi)) {
+            fail('range', `"${v}" is outside ${c.schema.min || '…'} – ${c.schema.max || '…'}`);
+          }
+        }
+        if (c.allowed && !c.allowed.has(v)) fail('allowed', `"${v}" is not an allowed value`);
+        if (c.schema.maxLength > 0 && v.length > c.schema.maxLength) fail('maxLength', `is longer than ${c.schema.maxLength} characters`);
+        if (c.seen) {
+          if (c.seen.has(v)) fail('unique', `"${v}" is not unique`);
+          else c.seen.add(v);
+        }
+      }
+      return violations;
+    },
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { generateLoadData } from './cleaningEngine';
+import type { OutputEncoding } from './encoding';
+import { type SqlDialect, defaultSqlOptions, quoteIdent, quoteString } from './sqlDialects';
+
+describe('quoteString', () => {
+  it('doubles single quotes in every dialect', () => {
+    expect(quoteString("O'Brien", 'postgres')).toBe("'O''Brien'");
+    expect(quoteString("O'Brien", 'sqlite')).toBe("'O''Brien'");
+    expect(quoteString("O'Brien", 'oracle')).toBe("'O''Brien'");
+    expect(quoteString("O'Brien", 'mysql')).toBe("'O''Brien'");
+    expect(quoteString("O'Brien", 'sqlserver')).toBe("N'O''Brien'");
+  });
+
+  it('escapes backslashes for MySQL only', () => {
+    expect(quoteString('C:\\temp\\', 'mysql')).toBe("'C:\\\\temp\\\\'");
+    expect(quoteString("\\'; DROP TABLE t; --", 'mysql')).toBe("'\\\\''; DROP TABLE t; --'");
+    expect(quoteString('C:\\temp\\', 'postgres')).toBe("'C:\\temp\\'");
+    expect(quoteString('C:\\temp\\', 'sqlserver')).toBe("N'C:\\temp\\'");
+  });
+
+  it('keeps line breaks and non-Latin text as they are', () => {
+    expect(quoteString('a\nb', 'sqlite')).toBe("'a\nb'");
+    expect(quoteString('東京', 'sqlserver')).toBe("N'東京'");
+  });
+});
+
+describe('quoteIdent', () => {
+  it('uses each dialect\'s identifier quotes and doubles the closing one', () => {
+    expect(quoteIdent('my`col', 'mysql')).toBe('`my``col`');
+    expect(quoteIdent('my]col', 'sqlserver')).toBe('[my]]col]');
+    expect(quoteIdent('my"col', 'postgres')).toBe('"my""col"');
+    expect(quoteIdent('my"col', 'sqlite')).toBe('"my""col"');
+    expect(quoteIdent('my"col', 'oracle')).toBe('"my""col"');
+  });
+});
+
+describe('generateLoadData', () => {
+  const load = (dialect: SqlDialect, encoding?: OutputEncoding) =>
+    generateLoadData('people', 'people.csv', ['id', 'name'], defaultSqlOptions(dialect), {}, encoding);
+
+  it('names the dialect\'s UTF-8 charset for a UTF-8 export', () => {
+    expect(load('mysql')).toContain('CHARACTER SET utf8mb4');
+    expect(load('postgres')).toContain("ENCODING 'UTF8'");
+    expect(load('sqlserver')).toContain("CODEPAGE = '65001'");
+  });
+
+  it('reads a UTF-16 export where the loader can, and says so where it can\'t', () => {
+    expect(load('sqlserver', 'UTF-16LE')).toContain("DATAFILETYPE = 'widechar'");
+    expect(load('sqlserver', 'UTF-16LE')).not.toContain('CODEPAGE');
+    expect(load('oracle', 'UTF-16LE')).toContain('-- CHARACTERSET UTF16\n-- BYTEORDER LITTLE\n');
+    expect(load('mysql', 'UTF-16LE')).toContain("MySQL / MariaDB can't load UTF-16 files");
+    expect(load('postgres', 'UTF-16LE')).toContain("PostgreSQL can't load UTF-16 files");
+  });
+});
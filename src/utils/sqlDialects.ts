@@ -0,0 +1,158 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - SQL DIALECTS
+// Maps the ColumnTypes vocabulary to each target's column types and
+// identifier quoting. generateCreateTable / generateLoadData build on these.
+// ══════════════════════════════════════════════════════════════════════════
+
+import { parseColumnType } from './columnTypes';
+
+export type SqlDialect = 'mysql' | 'postgres' | 'sqlite' | 'sqlserver' | 'oracle';
+
+export const SQL_DIALECTS: { value: SqlDialect; label: string }[] = [
+  { value: 'mysql', label: 'MySQL / MariaDB' },
+  { value: 'postgres', label: 'PostgreSQL' },
+  { value: 'sqlite', label: 'SQLite' },
+  { value: 'sqlserver', label: 'SQL Server' },
+  { value: 'oracle', label: 'Oracle' },
+];
+
+export interface SqlExportOptions {
+  dialect: SqlDialect;
+  database: string;
+  charset: string;    // ignored by SQLite (always UTF-8)
+  collation: string;  // ignored by SQLite and Oracle
+}
+
+// Charset / collation that fit each dialect; switching dialect resets to these
+const DIALECT_DEFAULTS: Record<SqlDialect, { charset: string; collation: string }> = {
+  mysql: { charset: 'utf8mb4', collation: 'utf8mb4_unicode_ci' },
+  postgres: { charset: 'UTF8', collation: 'en_US.UTF-8' },
+  sqlite: { charset: 'UTF-8', collation: '' },
+  sqlserver: { charset: '65001', collation: 'Latin1_General_100_CI_AS_SC_UTF8' },
+  oracle: { charset: 'AL32UTF8', collation: '' },
+};
+
+export function defaultSqlOptions(dialect: SqlDialect = 'mysql', database = 'mydb'): SqlExportOptions {
+  return { dialect, database, ...DIALECT_DEFAULTS[dialect] };
+}
+
+export function dialectLabel(dialect: SqlDialect): string {
+  return SQL_DIALECTS.find(d => d.value === dialect)?.label || dialect;
+}
+
+export function quoteIdent(name: string, dialect: SqlDialect): string {
+  switch (dialect) {
+    case 'mysql': return '`' + name.replace(/`/g, '``') + '`';
+    case 'sqlserver': return '[' + name.replace(/\]/g, ']]') + ']';
+    default: return '"' + name.replace(/"/g, '""') + '"';
+  }
+}
+
+export function quoteString(value: string, dialect: SqlDialect): string {
+  const escaped = value.replace(/'/g, "''");
+  switch (dialect) {
+    // MySQL also treats backslash as an escape character inside literals
+    case 'mysql': return `'${escaped.replace(/\\/g, '\\\\')}'`;
+    // N'' keeps non-Latin text intact in NVARCHAR columns
+    case 'sqlserver': return `N'${escaped}'`;
+    default: return `'${escaped}'`;
+  }
+}
+
+// Column type for one ColumnTypes value (detected key or sized override)
+export function dialectType(type: string, dialect: SqlDialect): string {
+  const spec = parseColumnType(type);
+  const len = spec.length ?? 255;
+  const dec = `(${spec.precision ?? 15},${spec.scale ?? 4})`;
+  switch (dialect) {
+    case 'mysql':
+      switch (spec.base) {
+        case 'tinyint': return 'TINYINT';
+        case 'smallint': return 'SMALLINT';
+        case 'int': return 'INT';
+        case 'bigint': return 'BIGINT';
+        case 'decimal': return `DECIMAL${dec}`;
+        case 'bool': return 'TINYINT(1)';
+        case 'date': return 'DATE';
+        case 'datetime': return 'DATETIME';
+        case 'char': return `CHAR(${len})`;
+        case 'varchar': return `VARCHAR(${len})`;
+        case 'text': return 'TEXT';
+        case 'longtext': return 'LONGTEXT';
+      }
+      break;
+    case 'postgres':
+      switch (spec.base) {
+        case 'tinyint':
+        case 'smallint': return 'SMALLINT';
+        case 'int': return 'INTEGER';
+        case 'bigint': return 'BIGINT';
+        case 'decimal': return `NUMERIC${dec}`;
+        case 'bool': return 'BOOLEAN';
+        case 'date': return 'DATE';
+        case 'datetime': return 'TIMESTAMP';
+        case 'char': return `CHAR(${len})`;
+        case 'varchar': return `VARCHAR(${len})`;
+        case 'text':
+        case 'longtext': return 'TEXT';
+      }
+      break;
+    case 'sqlite':
+      // Only the type affinity matters to SQLite
+      switch (spec.base) {
+        case 'tinyint':
+        case 'smallint':
+        case 'int':
+        case 'bigint':
+        case 'bool': return 'INTEGER';
+        case 'decimal': return `NUMERIC${dec}`;
+        default: return 'TEXT';
+      }
+    case 'sqlserver':
+      switch (spec.base) {
+        case 'tinyint': return 'SMALLINT';  // SQL Server TINYINT is unsigned (0-255)
+        case 'smallint': return 'SMALLINT';
+        case 'int': return 'INT';
+        case 'bigint': return 'BIGINT';
+        case 'decimal': return `DECIMAL${dec}`;
+        case 'bool': return 'BIT';
+        case 'date': return 'DATE';
+        case 'datetime': return 'DATETIME2';
+        case 'char': return `NCHAR(${Math.min(len, 4000)})`;
+        case 'varchar': return len > 4000 ? 'NVARCHAR(MAX)' : `NVARCHAR(${len})`;
+        case 'text':
+        case 'longtext': return 'NVARCHAR(MAX)';
+      }
+      break;
+    case 'oracle':
+      switch (spec.base) {
+        case 'tinyint': return 'NUMBER(3)';
+        case 'smallint': return 'NUMBER(5)';
+        case 'int': return 'NUMBER(10)';
+        case 'bigint': return 'NUMBER(19)';
+        case 'decimal': return `NUMBER${dec}`;
+        case 'bool': return 'NUMBER(1)';
+        case 'date': return 'DATE';
+        case 'datetime': return 'TIMESTAMP';
+        case 'char': return `CHAR(${Math.min(len, 2000)} CHAR)`;
+        case 'varchar': return len > 4000 ? 'CLOB' : `VARCHAR2(${len} CHAR)`;
+        case 'text':
+        case 'longtext': return 'CLOB';
+      }
+      break;
+  }
+  return 'TEXT';
+}
+
+// Primary key column definition. `generated` = the key is not in the CSV and
+// the database has to number the rows itself.
+export function primaryKeyType(type: string, dialect: SqlDialect, generated: boolean): string {
+  switch (dialect) {
+    case 'mysql': return `${generated ? 'BIGINT' : dialectType(type, dialect)} NOT NULL AUTO_INCREMENT PRIMARY KEY`;
+    case 'postgres': return generated ? 'BIGINT GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY' : `${dialectType(type, dialect)} NOT NULL PRIMARY KEY`;
+    // INTEGER PRIMARY KEY aliases the rowid, so SQLite numbers missing values itself
+    case 'sqlite': return generated || dialectType(type, dialect) === 'INTEGER' ? 'INTEGER PRIMARY KEY' : `${dialectType(type, dialect)} NOT NULL PRIMARY KEY`;
+    case 'sqlserver': return generated ? 'BIGINT IDENTITY(1,1) PRIMARY KEY' : `${dialectType(type, dialect)} NOT NULL PRIMARY KEY`;
+    case 'oracle': return generated ? 'NUMBER(19) GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY' : `${dialectType(type, dialect)} NOT NULL PRIMARY KEY`;
+  }
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { type InsertScriptOptions, generateInsertScript, sqlLiteral } from './sqlInsert';
+import { type SqlDialect, defaultSqlOptions } from './sqlDialects';
+
+describe('sqlLiteral', () => {
+  it('writes empty cells as NULL', () => {
+    expect(sqlLiteral('', 'varchar(10)', 'mysql')).toBe('NULL');
+    expect(sqlLiteral('', 'int', 'postgres')).toBe('NULL');
+  });
+
+  it('leaves numbers that fit the column type unquoted', () => {
+    expect(sqlLiteral('-42', 'int', 'mysql')).toBe('-42');
+    expect(sqlLiteral('3.5e2', 'decimal(10,2)', 'oracle')).toBe('3.5e2');
+    expect(sqlLiteral('4.2', 'int', 'mysql')).toBe("'4.2'");
+    expect(sqlLiteral('12 units', 'decimal', 'sqlserver')).toBe("N'12 units'");
+  });
+
+  it('writes booleans the way each dialect stores them', () => {
+    expect(sqlLiteral('Yes', 'bool', 'postgres')).toBe('TRUE');
+    expect(sqlLiteral('f', 'bool', 'postgres')).toBe('FALSE');
+    expect(sqlLiteral('true', 'bool', 'mysql')).toBe('1');
+    expect(sqlLiteral('N', 'bool', 'sqlserver')).toBe('0');
+    expect(sqlLiteral('maybe', 'bool', 'sqlite')).toBe("'maybe'");
+  });
+
+  it('uses a DATE literal for ISO dates on Oracle', () => {
+    expect(sqlLiteral('2024-02-29', 'date', 'oracle')).toBe("DATE '2024-02-29'");
+    expect(sqlLiteral('2024-02-29', 'date', 'postgres')).toBe("'2024-02-29'");
+    expect(sqlLiteral('29/02/2024', 'date', 'oracle')).toBe("'29/02/2024'");
+  });
+
+  it('escapes text with the dialect\'s string rules', () => {
+    const value = "it's C:\\";
+    const expected: Record<SqlDialect, string> = {
+      mysql: "'it''s C:\\\\'",
+      postgres: "'it''s C:\\'",
+      sqlite: "'it''s C:\\'",
+      sqlserver: "N'it''s C:\\'",
+      oracle: "'it''s C:\\'",
+    };
+    for (const dialect of Object.keys(expected) as SqlDialect[]) {
+      expect(sqlLiteral(value, 'varchar(20)', dialect)).toBe(expected[dialect]);
+    }
+  });
+});
+
+describe('generateInsertScript', () => {
+  const headers = ['id', 'name'];
+  const types = { id: 'int', name: 'varchar(50)' };
+  const rows = [['1', "O'Neil"], ['2', ''], ['3', 'Ada']];
+
+  async function script(dialect: SqlDialect, extra: Partial<InsertScriptOptions> = {}): Promise<string> {
+    const options: InsertScriptOptions = {
+      tableName: 'people', pkColumn: 'id', types, sql: defaultSqlOptions(dialect), batchSize: 2, upsert: false, ...extra,
+    };
+    let text = '';
+    for await (const part of generateInsertScript(headers, rows, options)) text += part;
+    return text;
+  }
+
+  it('batches rows into multi-row inserts inside a transaction', async () => {
+    const text = await script('postgres');
+    expect(text).toContain('BEGIN;\n');
+    expect(text).toContain(`INSERT INTO "people" ("id", "name") VALUES\n  (1, 'O''Neil'),\n  (2, NULL);\n`);
+    expect(text).toContain(`INSERT INTO "people" ("id", "name") VALUES\n  (3, 'Ada');\n`);
+    expect(text.endsWith('COMMIT;\n')).toBe(true);
+  });
+
+  it('uses INSERT ALL on Oracle', async () => {
+    expect(await script('oracle')).toContain(`INSERT ALL\n  INTO "people" ("id", "name") VALUES (1, 'O''Neil')\n`);
+  });
+
+  it('writes each dialect\'s upsert on the key column', async () => {
+    expect(await script('mysql', { upsert: true })).toContain('ON DUPLICATE KEY UPDATE `name` = VALUES(`name`);');
+    expect(await script('sqlite', { upsert: true })).toContain('ON CONFLICT ("id") DO UPDATE SET "name" = EXCLUDED."name";');
+    expect(await script('sqlserver', { upsert: true })).toContain('MERGE INTO [people] AS target');
+    expect(await script('oracle', { upsert: true })).toContain(`SELECT 1 AS "id", 'O''Neil' AS "name" FROM DUAL`);
+  });
+
+  it('refuses an upsert keyed on a column that is not exported', async () => {
+    await expect(script('mysql', { upsert: true, pkColumn: 'email' })).rejects.toThrow('Upsert key "email" is not among the exported columns');
+  });
+});
@@ -0,0 +1,108 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - INSERT / UPSERT SCRIPTS
+// Self-contained data scripts for databases where LOAD DATA / COPY from a
+// file isn't available. The script is generated one batch at a time as the
+// rows are read, so the caller never holds more than one statement at once.
+// ══════════════════════════════════════════════════════════════════════════
+
+import { parseColumnType } from './columnTypes';
+import { type SqlDialect, type SqlExportOptions, dialectLabel, quoteIdent, quoteString } from './sqlDialects';
+
+export interface InsertScriptOptions {
+  tableName: string;
+  pkColumn: string;
+  types: Record<string, string>;
+  sql: SqlExportOptions;
+  batchSize: number;
+  upsert: boolean;  // needs pkColumn among the exported columns
+}
+
+export const DEFAULT_INSERT_BATCH_SIZE = 500;
+
+// Literal for one cell. Empty cells become NULL; values that don't fit the
+// column's type are written as strings and left for the database to judge.
+export function sqlLiteral(value: string, type: string, dialect: SqlDialect): string {
+  if (value === '') return 'NULL';
+  switch (parseColumnType(type).base) {
+    case 'tinyint':
+    case 'smallint':
+    case 'int':
+    case 'bigint':
+      if (/^-?\d+$/.test(value)) return value;
+      break;
+    case 'decimal':
+      if (/^-?\d*\.?\d+([eE][+-]?\d+)?$/.test(value)) return value;
+      break;
+    case 'bool':
+      if (/^(true|yes|t|y|1)$/i.test(value)) return dialect === 'postgres' ? 'TRUE' : '1';
+      if (/^(false|no|f|n|0)$/i.test(value)) return dialect === 'postgres' ? 'FALSE' : '0';
+      break;
+    case 'date':
+      if (dialect === 'oracle' && /^\d{4}-\d{2}-\d{2}$/.test(value)) return `DATE '${value}'`;
+      break;
+  }
+  return quoteString(value, dialect);
+}
+
+export async function* generateInsertScript(
+  headers: string[], rows: Iterable<string[]> | AsyncIterable<string[]>, options: InsertScriptOptions
+): AsyncGenerator<string> {
+  const { dialect } = options.sql;
+  const q = (name: string) => quoteIdent(name, dialect);
+  const table = q(options.tableName);
+  const columns = headers.map(q).join(', ');
+  const keyIndex = options.upsert ? headers.indexOf(options.pkColumn) : -1;
+  if (options.upsert && keyIndex === -1) throw new Error(`Upsert key "${options.pkColumn}" is not among the exported columns`);
+  const key = keyIndex !== -1 ? q(headers[keyIndex]) : '';
+  const updated = headers.filter((_, i) => i !== keyIndex).map(q);
+  // SQL Server rejects a VALUES list of more than 1000 rows
+  const batchSize = Math.max(1, Math.min(dialect === 'sqlserver' ? 1000 : 10000, Math.floor(options.batchSize) || 1));
+
+  const statement = (batch: string[][]): string => {
+    const tuples = batch.map(values => `(${values.join(', ')})`);
+    if (keyIndex === -1) {
+      if (dialect === 'oracle') {
+        // No multi-row VALUES before 23c
+        return `INSERT ALL\n${tuples.map(t => `  INTO ${table} (${columns}) VALUES ${t}`).join('\n')}\nSELECT 1 FROM DUAL;\n`;
+      }
+      return `INSERT INTO ${table} (${columns}) VALUES\n  ${tuples.join(',\n  ')};\n`;
+    }
+    switch (dialect) {
+      case 'mysql':
+        return `INSERT INTO ${table} (${columns}) VALUES\n  ${tuples.join(',\n  ')}\nON DUPLICATE KEY UPDATE ${
+          updated.length > 0 ? updated.map(c => `${c} = VALUES(${c})`).join(', ') : `${key} = ${key}`};\n`;
+      case 'postgres':
+      case 'sqlite':
+        return `INSERT INTO ${table} (${columns}) VALUES\n  ${tuples.join(',\n  ')}\nON CONFLICT (${key}) DO ${
+          updated.length > 0 ? `UPDATE SET ${updated.map(c => `${c} = EXCLUDED.${c}`).join(', ')}` : 'NOTHING'};\n`;
+      case 'sqlserver':
+        return `MERGE INTO ${table} AS target\nUSING (VALUES\n  ${tuples.join(',\n  ')}\n) AS source (${columns})\n`
+          + `ON target.${key} = source.${key}\n`
+          + (updated.length > 0 ? `WHEN MATCHED THEN UPDATE SET ${updated.map(c => `target.${c} = source.${c}`).join(', ')}\n` : '')
+          + `WHEN NOT MATCHED THEN INSERT (${columns}) VALUES (${headers.map(h => `source.${q(h)}`).join(', ')});\n`;
+      case 'oracle': {
+        const selects = batch.map(values => `SELECT ${values.map((v, i) => `${v} AS ${q(headers[i])}`).join(', ')} FROM DUAL`);
+        return `MERGE INTO ${table} target\nUSING (\n  ${selects.join('\n  UNION ALL ')}\n) source\n`
+          + `ON (target.${key} = source.${key})\n`
+          + (updated.length > 0 ? `WHEN MATCHED THEN UPDATE SET ${updated.map(c => `target.${c} = source.${c}`).join(', ')}\n` : '')
+          + `WHEN NOT MATCHED THEN INSERT (${columns}) VALUES (${headers.map(h => `source.${q(h)}`).join(', ')});\n`;
+      }
+    }
+  };
+
+  yield `-- Generated by DataScrub Pro\n-- Dialect: ${dialectLabel(dialect)}\n-- Date: ${new Date().toISOString()}\n`
+    + `-- ${keyIndex !== -1 ? `Upsert keyed on ${options.pkColumn}` : 'Insert'}, ${batchSize} rows per statement\n\n`;
+  yield dialect === 'sqlserver' ? 'BEGIN TRANSACTION;\n\n' : dialect === 'mysql' ? 'START TRANSACTION;\n\n' : dialect === 'oracle' ? '' : 'BEGIN;\n\n';
+
+  let batch: string[][] = [];
+  for await (const cells of rows) {
+    batch.push(headers.map((h, i) => sqlLiteral(cells[i] ?? '', options.types[h], dialect)));
+    if (batch.length >= batchSize) {
+      yield statement(batch) + '\n';
+      batch = [];
+    }
+  }
+  if (batch.length > 0) yield statement(batch) + '\n';
+
+  yield 'COMMIT;\n';
+}
@@ -0,0 +1,32 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - TRANSFORM WORKER
+// Runs the stateless per-row transforms for one batch at a time.
+// ══════════════════════════════════════════════════════════════════════════
+
+import { type CleaningConfig, type RowTransformContext, transformRow } from './cleaningEngine';
+import type { TransformWorkerRequest, TransformWorkerResponse } from './workers';
+
+const ctx = self as unknown as {
+  onmessage: ((e: MessageEvent<TransformWorkerRequest>) => void) | null;
+  postMessage: (message: TransformWorkerResponse) => void;
+};
+
+let config: CleaningConfig | null = null;
+let rowCtx: RowTransformContext | null = null;
+
+ctx.onmessage = (e) => {
+  const msg = e.data;
+  if (msg.type === 'init') {
+    config = msg.config;
+    rowCtx = msg.ctx;
+    return;
+  }
+  const rows = msg.rows.map(cells => {
+    try {
+      return transformRow(cells, config!, rowCtx!);
+    } catch {
+      return null;
+    }
+  });
+  ctx.postMessage({ id: msg.id, rows });
+};
@@ -0,0 +1,90 @@
+// ══════════════════════════════════════════════════════════════════════════
+// DATASCRUB PRO - WORKER POOL
+// Per-row transforms fan out to a pool of transform workers. Batches are
+// numbered and awaited in submission order, so results merge back in file
+// order however the workers interleave.
+// ══════════════════════════════════════════════════════════════════════════
+
+import type { CleaningConfig, LogEntry, ProcessResult, RowTransformContext, TransformedRow } from './cleaningEngine';
+
+// ── MESSAGES ──────────────────────────────────────────────────────────────
+
+export type TransformWorkerRequest =
+  | { type: 'init'; config: CleaningConfig; ctx: RowTransformContext }
+  | { type: 'batch'; id: number; rows: string[][] };
+
+export interface TransformWorkerResponse {
+  id: number;
+  rows: (TransformedRow | null)[];
+}
+
+export type CleaningWorkerRequest =
+  | { type: 'start'; file: File; config: CleaningConfig }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'cancel' };
+
+export type CleaningWorkerMessage =
+  | { type: 'progress'; percent: number; label: string }
+  | { type: 'log'; entry: LogEntry }
+  | { type: 'result'; result: ProcessResult }
+  | { type: 'error'; message: string };
+
+// ── TRANSFORM POOL ────────────────────────────────────────────────────────
+
+export interface TransformPool {
+  size: number;
+  run(rows: string[][]): Promise<(TransformedRow | null)[]>;
+  terminate(): void;
+}
+
+export function canUseWorkers(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+export function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' && navigator.hardwareConcurrency ? navigator.hardwareConcurrency : 2;
+  // Leave one core for the coordinator (tokenizing, dedup, output)
+  return Math.max(1, Math.min(8, cores - 1));
+}
+
+export function createTransformPool(config: CleaningConfig, ctx: RowTransformContext, size = defaultPoolSize()): TransformPool {
+  const workers: Worker[] = [];
+  const pending = new Map<number, { resolve: (rows: (TransformedRow | null)[]) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+
+  for (let i = 0; i < size; i++) {
+    const worker = new Worker(new URL('./transform.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<TransformWorkerResponse>) => {
+      const job = pending.get(e.data.id);
+      if (!job) return;
+      pending.delete(e.data.id);
+      job.resolve(e.data.rows);
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      const err = new Error(`Transform worker failed: ${e.message || 'unknown error'}`);
+      for (const job of pending.values()) job.reject(err);
+      pending.clear();
+    };
+    const init: TransformWorkerRequest = { type: 'init', config, ctx };
+    worker.postMessage(init);
+    workers.push(worker);
+  }
+
+  return {
+    size,
+    run(rows) {
+      const id = nextId++;
+      return new Promise((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        const request: TransformWorkerRequest = { type: 'batch', id, rows };
+        workers[id % workers.length].postMessage(request);
+      });
+    },
+    terminate() {
+      for (const w of workers) w.terminate();
+      pending.clear();
+    },
+  };
+}
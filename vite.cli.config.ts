@@ -0,0 +1,15 @@
+import { defineConfig } from "vite";
+
+// Node build of the command-line cleaner (src/cli.ts). Runs after the app
+// build, which empties dist/.
+export default defineConfig({
+  build: {
+    ssr: "src/cli.ts",
+    outDir: "dist/cli",
+    target: "node20",
+    emptyOutDir: true,
+    rollupOptions: {
+      output: { entryFileNames: "datascrub.js", banner: "#!/usr/bin/env node" },
+    },
+  },
+});
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from "path";
 import { fileURLToPath } from "url";
 import tailwindcss from "@tailwindcss/vite";
@@ -15,4 +16,9 @@ export default defineConfig({
       "@": path.resolve(__dirname, "src"),
     },
   },
+  // Behaviour tests sit next to the module they cover
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+  },
 });